@@ -7,7 +7,7 @@ const envSchema = z.object({
   PORT: z.coerce.number(),
   HOST: z.string().default('0.0.0.0'),
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
-  STRATEGY_CACHE_TYPE: z.enum(['memory', 'json']).default('memory'),
+  STRATEGY_CACHE_TYPE: z.enum(['memory', 'json', 'redis']).default('memory'),
   
   // Redis
   REDIS_URL: z.string().url(),
@@ -16,6 +16,7 @@ const envSchema = z.object({
   API_KEY: z.string().optional(),
   CORS_ORIGINS: z.string().default('*'),
   ALLOWLIST_HOSTS: z.string().optional(),
+  SSRF_ALLOWED_CIDRS: z.string().optional(),
   
   // Browser/Puppeteer
   PUPPETEER_HEADLESS: z.coerce.boolean().default(true),
@@ -34,15 +35,23 @@ const envSchema = z.object({
   // Pool settings
   BROWSER_POOL_SIZE: z.coerce.number().default(2),
   MAX_CONCURRENT_PAGES: z.coerce.number().default(5),
+  BROWSER_POOL_ACQUIRE_TIMEOUT_MS: z.coerce.number().int().positive().default(30000),
   
   // Anti-Devtool Protection
   ANTI_DEVTOOL_ENABLED: z.coerce.boolean().default(true),
   ANTI_DEVTOOL_DOMAINS: z.string().optional(),
   ANTI_DEVTOOL_WAIT_AFTER_CLICK: z.coerce.number().default(8000),
   ANTI_DEVTOOL_AUTO_DETECT: z.coerce.boolean().default(true), // Detección inteligente automática
+
+  // Site profiles (YAML o JSON)
+  SITE_PROFILES_PATH: z.string().optional(),
   
   // Worker
   WORKER_CONCURRENCY: z.coerce.number().default(5),
+  // Páginas simultáneas por dominio entre todos los workers (0 = sin límite)
+  WORKER_DOMAIN_CONCURRENCY: z.coerce.number().int().min(0).default(2),
+  // Espera antes de reintentar un job cuyo dominio está al límite
+  WORKER_DOMAIN_DEFER_MS: z.coerce.number().int().min(100).default(2000),
 
   // Logging
   LOG_LEVEL: z.enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace']).default('info'),
@@ -59,6 +68,20 @@ const envSchema = z.object({
 
   // Bulk Processing
   BULK_URL_LIMIT: z.coerce.number().default(500),
+  BULK_BATCH_RETENTION_SECONDS: z.coerce.number().int().min(60).default(7 * 24 * 60 * 60),
+
+  // Bulk webhooks
+  WEBHOOK_TIMEOUT_MS: z.coerce.number().default(10000),
+  WEBHOOK_MAX_ATTEMPTS: z.coerce.number().int().min(1).default(6),
+
+  // Resolve result cache
+  RESULT_CACHE_MAX_TTL_MS: z.coerce.number().default(10 * 60 * 1000),
+  RESULT_CACHE_DEFAULT_TTL_MS: z.coerce.number().default(60 * 1000),
+
+  // Playback proxy
+  PLAYBACK_SESSION_TTL_MS: z.coerce.number().default(6 * 60 * 60 * 1000),
+  PLAYBACK_MAX_MANIFEST_BYTES: z.coerce.number().int().positive().default(5 * 1024 * 1024),
+  PUBLIC_BASE_URL: z.string().url().optional(),
 });
 
 export type EnvConfig = z.infer<typeof envSchema>;
@@ -115,6 +138,12 @@ export function getAllowlistHosts(): string[] {
   return allowlist.split(',').map(host => host.trim()).filter(Boolean);
 }
 
+export function getSsrfAllowedCidrs(): string[] {
+  const cidrs = getConfig().SSRF_ALLOWED_CIDRS;
+  if (!cidrs) return [];
+  return cidrs.split(',').map(cidr => cidr.trim()).filter(Boolean);
+}
+
 export function getCorsOrigins(): string[] {
   const origins = getConfig().CORS_ORIGINS;
   if (origins === '*') return ['*'];
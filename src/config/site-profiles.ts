@@ -0,0 +1,172 @@
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import {
+  SiteProfile,
+  SiteProfileSettings,
+  SiteProfilesFile,
+  SiteProfilesFileZod,
+} from '../types/dto.js';
+import { getConfig } from './env.js';
+
+/**
+ * Perfiles integrados. Los perfiles del fichero de SITE_PROFILES_PATH se
+ * evalúan antes que estos, y sus `defaults` se añaden a los integrados.
+ */
+const BUILTIN_SITE_PROFILES: SiteProfilesFile = {
+  defaults: {
+    // CDNs de streaming cuyas URLs no siguen los patrones HLS habituales
+    m3u8Patterns: ['orbitcache\\.com', 'hls2-c'],
+    // Dominios de anuncios y tracking que se bloquean en todas las páginas
+    blockRules: [
+      'ads-twitter.com',
+      'imasdk.googleapis.com',
+      'googleads.com',
+      'googlesyndication.com',
+      'doubleclick.net',
+      'ptichoolsougn.net',
+      'campfirecroutondecorator.com',
+      'jilliandescribecompany.com/log',
+      'static.ads-twitter.com',
+      'facebook.com/tr',
+      'analytics.google.com',
+      'googletagmanager.com',
+      'google-analytics.com',
+    ],
+  },
+  profiles: [
+    { name: 'lamovie', hosts: ['*.lamovie.link'], mode: 'anti-devtool' },
+    { name: 'vimeos', hosts: ['*.vimeos.net'], mode: 'anti-devtool' },
+  ],
+};
+
+/**
+ * Comprueba si un host coincide con un patrón glob. `*` equivale a cualquier
+ * secuencia de caracteres y `*.dominio.com` incluye también `dominio.com`.
+ */
+export function matchesHostGlob(hostname: string, pattern: string): boolean {
+  const host = hostname.toLowerCase();
+  const glob = pattern.trim().toLowerCase();
+
+  if (glob.startsWith('*.') && host === glob.substring(2)) {
+    return true;
+  }
+
+  const regex = new RegExp(
+    `^${glob.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`,
+  );
+  return regex.test(host);
+}
+
+/**
+ * Valida el contenido de un fichero de perfiles. Lanza ZodError si no es válido.
+ */
+export function parseSiteProfiles(raw: unknown): SiteProfilesFile {
+  return SiteProfilesFileZod.parse(raw ?? {});
+}
+
+/**
+ * Registro de perfiles por sitio: configuración declarativa por dominio que
+ * consultan el resolver, los detectores y los interceptores de requests.
+ */
+export class SiteProfileRegistry {
+  private readonly defaults: SiteProfileSettings;
+  private readonly profiles: SiteProfile[];
+  private readonly defaultStreamPatterns: RegExp[];
+
+  /**
+   * @param antiDevtoolDomainsConfigured Si ANTI_DEVTOOL_DOMAINS está definida,
+   * su lista sustituye a los perfiles integrados en modo `anti-devtool`
+   */
+  constructor(file: SiteProfilesFile = { profiles: [] }, antiDevtoolDomainsConfigured = false) {
+    const builtinDefaults = BUILTIN_SITE_PROFILES.defaults ?? {};
+    const fileDefaults = file.defaults ?? {};
+
+    this.defaults = {
+      ...builtinDefaults,
+      ...fileDefaults,
+      m3u8Patterns: [...(builtinDefaults.m3u8Patterns ?? []), ...(fileDefaults.m3u8Patterns ?? [])],
+      blockRules: [...(builtinDefaults.blockRules ?? []), ...(fileDefaults.blockRules ?? [])],
+      headers: { ...builtinDefaults.headers, ...fileDefaults.headers },
+    };
+    const builtinProfiles = antiDevtoolDomainsConfigured
+      ? BUILTIN_SITE_PROFILES.profiles.filter(profile => profile.mode !== 'anti-devtool')
+      : BUILTIN_SITE_PROFILES.profiles;
+    this.profiles = [...file.profiles, ...builtinProfiles];
+    this.defaultStreamPatterns = (this.defaults.m3u8Patterns ?? []).map(p => new RegExp(p, 'i'));
+  }
+
+  /**
+   * Configuración común a todos los sitios
+   */
+  getDefaults(): SiteProfileSettings {
+    return this.defaults;
+  }
+
+  /**
+   * Patrones de `defaults.m3u8Patterns` ya compilados
+   */
+  getDefaultStreamPatterns(): RegExp[] {
+    return this.defaultStreamPatterns;
+  }
+
+  /**
+   * Devuelve el primer perfil cuyo glob de hosts coincide con la URL
+   */
+  findProfile(url: string): SiteProfile | null {
+    let hostname: string;
+    try {
+      hostname = new URL(url).hostname;
+    } catch {
+      return null;
+    }
+
+    return this.profiles.find(profile => profile.hosts.some(glob => matchesHostGlob(hostname, glob))) ?? null;
+  }
+
+  getProfiles(): SiteProfile[] {
+    return this.profiles;
+  }
+}
+
+let registry: SiteProfileRegistry | undefined;
+
+/**
+ * Carga y valida los perfiles de SITE_PROFILES_PATH (YAML o JSON). Se llama
+ * al arrancar; un fichero inválido detiene el proceso igual que un .env inválido.
+ */
+export function loadSiteProfiles(): SiteProfileRegistry {
+  if (registry) {
+    return registry;
+  }
+
+  const { SITE_PROFILES_PATH: profilesPath, ANTI_DEVTOOL_DOMAINS } = getConfig();
+  const antiDevtoolDomainsConfigured = !!ANTI_DEVTOOL_DOMAINS;
+  if (!profilesPath) {
+    registry = new SiteProfileRegistry(undefined, antiDevtoolDomainsConfigured);
+    return registry;
+  }
+
+  const resolvedPath = path.resolve(process.cwd(), profilesPath);
+  try {
+    const content = fs.readFileSync(resolvedPath, 'utf8');
+    const raw: unknown = resolvedPath.endsWith('.json') ? JSON.parse(content) : parseYaml(content);
+    registry = new SiteProfileRegistry(parseSiteProfiles(raw), antiDevtoolDomainsConfigured);
+    return registry;
+  } catch (error) {
+    console.error(`❌ Invalid site profiles file (${resolvedPath}):`);
+    if (error instanceof z.ZodError) {
+      error.issues.forEach((err) => {
+        console.error(`  ${err.path.join('.')}: ${err.message}`);
+      });
+    } else {
+      console.error(`  ${error instanceof Error ? error.message : String(error)}`);
+    }
+    process.exit(1);
+  }
+}
+
+export function getSiteProfiles(): SiteProfileRegistry {
+  return registry ?? loadSiteProfiles();
+}
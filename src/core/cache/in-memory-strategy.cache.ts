@@ -1,8 +1,13 @@
 import { getLogger } from '../observability/logger.js';
-import { IActivationStrategyCache, ActivationStrategy } from './strategy-cache.interface.js';
+import {
+  IActivationStrategyCache,
+  DomainStrategyStats,
+  StrategyOutcome,
+} from './strategy-cache.interface.js';
+import { applyOutcomes, pruneStaleStats } from './strategy-stats.js';
 
 export class InMemoryStrategyCache implements IActivationStrategyCache {
-  private cache: Map<string, ActivationStrategy> = new Map();
+  private cache: Map<string, DomainStrategyStats> = new Map();
   private readonly logger = getLogger();
 
   async initialize(): Promise<void> {
@@ -11,18 +16,38 @@ export class InMemoryStrategyCache implements IActivationStrategyCache {
     this.logger.info('In-memory strategy cache initialized.');
   }
 
-  async get(domain: string): Promise<ActivationStrategy | null> {
-    const strategy = this.cache.get(domain);
-    if (strategy) {
-      this.logger.debug({ domain, strategy: strategy.name }, 'Strategy cache hit');
-      return strategy;
+  async getStats(domain: string): Promise<DomainStrategyStats | null> {
+    const stats = this.cache.get(domain);
+    if (!stats) {
+      this.logger.debug({ domain }, 'Strategy cache miss');
+      return null;
     }
-    this.logger.debug({ domain }, 'Strategy cache miss');
-    return null;
+
+    const fresh = pruneStaleStats(stats);
+    if (!fresh) {
+      this.cache.delete(domain);
+      return null;
+    }
+    this.logger.debug({ domain, strategies: Object.keys(fresh) }, 'Strategy cache hit');
+    return fresh;
+  }
+
+  async recordOutcomes(domain: string, outcomes: StrategyOutcome[]): Promise<void> {
+    if (outcomes.length === 0) {
+      return;
+    }
+    this.logger.debug({ domain, outcomes }, 'Recording strategy outcomes');
+    this.cache.set(domain, applyOutcomes(this.cache.get(domain) ?? null, outcomes));
   }
 
-  async set(domain: string, strategy: ActivationStrategy): Promise<void> {
-    this.logger.debug({ domain, strategy: strategy.name }, 'Storing strategy in cache');
-    this.cache.set(domain, strategy);
+  async listStats(): Promise<Record<string, DomainStrategyStats>> {
+    const result: Record<string, DomainStrategyStats> = {};
+    for (const domain of this.cache.keys()) {
+      const stats = await this.getStats(domain);
+      if (stats) {
+        result[domain] = stats;
+      }
+    }
+    return result;
   }
 }
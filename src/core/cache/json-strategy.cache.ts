@@ -1,12 +1,17 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { getLogger } from '../observability/logger.js';
-import { IActivationStrategyCache, ActivationStrategy } from './strategy-cache.interface.js';
+import {
+  IActivationStrategyCache,
+  DomainStrategyStats,
+  StrategyOutcome,
+} from './strategy-cache.interface.js';
+import { applyOutcomes, pruneStaleStats } from './strategy-stats.js';
 
 const CACHE_FILE = 'strategy-cache.json';
 
 export class JsonStrategyCache implements IActivationStrategyCache {
-  private cache: Map<string, ActivationStrategy> = new Map();
+  private cache: Map<string, DomainStrategyStats> = new Map();
   private readonly logger = getLogger();
   private cacheFilePath: string;
 
@@ -19,8 +24,10 @@ export class JsonStrategyCache implements IActivationStrategyCache {
     this.logger.info(`Initializing JSON strategy cache from ${this.cacheFilePath}...`);
     try {
       const data = await fs.readFile(this.cacheFilePath, 'utf-8');
-      const parsed = JSON.parse(data);
-      this.cache = new Map(Object.entries(parsed));
+      const parsed = JSON.parse(data) as Record<string, unknown>;
+      // Las entradas del formato anterior ({ name }) no tienen estadísticas y se descartan
+      const entries = Object.entries(parsed).filter(([, value]) => JsonStrategyCache.isDomainStats(value));
+      this.cache = new Map(entries as Array<[string, DomainStrategyStats]>);
       this.logger.info(`JSON strategy cache initialized with ${this.cache.size} entries.`);
     } catch (error: any) {
       if (error.code === 'ENOENT') {
@@ -33,22 +40,47 @@ export class JsonStrategyCache implements IActivationStrategyCache {
     }
   }
 
-  async get(domain: string): Promise<ActivationStrategy | null> {
-    const strategy = this.cache.get(domain);
-    if (strategy) {
-      this.logger.debug({ domain, strategy: strategy.name }, 'Strategy cache hit');
-      return strategy;
+  async getStats(domain: string): Promise<DomainStrategyStats | null> {
+    const stats = this.cache.get(domain);
+    if (!stats) {
+      this.logger.debug({ domain }, 'Strategy cache miss');
+      return null;
     }
-    this.logger.debug({ domain }, 'Strategy cache miss');
-    return null;
+
+    const fresh = pruneStaleStats(stats);
+    if (!fresh) {
+      this.cache.delete(domain);
+      return null;
+    }
+    this.logger.debug({ domain, strategies: Object.keys(fresh) }, 'Strategy cache hit');
+    return fresh;
   }
 
-  async set(domain: string, strategy: ActivationStrategy): Promise<void> {
-    this.logger.debug({ domain, strategy: strategy.name }, 'Storing strategy in cache');
-    this.cache.set(domain, strategy);
+  async recordOutcomes(domain: string, outcomes: StrategyOutcome[]): Promise<void> {
+    if (outcomes.length === 0) {
+      return;
+    }
+    this.logger.debug({ domain, outcomes }, 'Recording strategy outcomes');
+    this.cache.set(domain, applyOutcomes(this.cache.get(domain) ?? null, outcomes));
     await this.persist();
   }
 
+  async listStats(): Promise<Record<string, DomainStrategyStats>> {
+    const result: Record<string, DomainStrategyStats> = {};
+    for (const domain of this.cache.keys()) {
+      const stats = await this.getStats(domain);
+      if (stats) {
+        result[domain] = stats;
+      }
+    }
+    return result;
+  }
+
+  private static isDomainStats(value: unknown): boolean {
+    return typeof value === 'object' && value !== null &&
+      Object.values(value).every(s => typeof s === 'object' && s !== null && 'attempts' in s);
+  }
+
   private async persist(): Promise<void> {
     try {
       const data = JSON.stringify(Object.fromEntries(this.cache), null, 2);
@@ -0,0 +1,113 @@
+import { Redis } from 'ioredis';
+import { getLogger } from '../observability/logger.js';
+import { getRedisClient } from '../redis/redis.client.js';
+import {
+  IActivationStrategyCache,
+  DomainStrategyStats,
+  StrategyOutcome,
+} from './strategy-cache.interface.js';
+import { applyOutcomes, pruneStaleStats, STALE_AFTER_MS } from './strategy-stats.js';
+
+const KEY_PREFIX = 'strategies:';
+const MAX_UPDATE_ATTEMPTS = 5;
+
+/**
+ * Compare-and-set: guarda el nuevo valor solo si la clave no ha cambiado desde
+ * que se leyó (cadena vacía si no existía) y renueva su TTL.
+ */
+const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if (current or '') ~= ARGV[1] then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[2], 'PX', ARGV[3])
+return 1
+`;
+
+/**
+ * Caché de estadísticas de estrategias compartida por la API y los workers.
+ *
+ * - `strategies:<dominio>`: estadísticas JSON del dominio, con TTL igual al
+ *   periodo tras el que se descartan, renovado en cada actualización
+ */
+export class RedisStrategyCache implements IActivationStrategyCache {
+  private readonly logger = getLogger();
+
+  constructor(private readonly redis: Redis = getRedisClient()) {}
+
+  async initialize(): Promise<void> {
+    this.logger.info('Initializing Redis strategy cache...');
+    await this.redis.ping();
+    this.logger.info('Redis strategy cache initialized.');
+  }
+
+  async getStats(domain: string): Promise<DomainStrategyStats | null> {
+    const raw = await this.redis.get(this.domainKey(domain));
+    if (!raw) {
+      this.logger.debug({ domain }, 'Strategy cache miss');
+      return null;
+    }
+
+    const fresh = pruneStaleStats(JSON.parse(raw) as DomainStrategyStats);
+    if (!fresh) {
+      return null;
+    }
+    this.logger.debug({ domain, strategies: Object.keys(fresh) }, 'Strategy cache hit');
+    return fresh;
+  }
+
+  /**
+   * Aplica los resultados con lectura y compare-and-set, reintentando si otro
+   * proceso actualizó el dominio entre medias.
+   */
+  async recordOutcomes(domain: string, outcomes: StrategyOutcome[]): Promise<void> {
+    if (outcomes.length === 0) {
+      return;
+    }
+    this.logger.debug({ domain, outcomes }, 'Recording strategy outcomes');
+
+    const key = this.domainKey(domain);
+    for (let attempt = 1; attempt <= MAX_UPDATE_ATTEMPTS; attempt++) {
+      const raw = await this.redis.get(key);
+      const current = raw ? (JSON.parse(raw) as DomainStrategyStats) : null;
+      const next = applyOutcomes(current, outcomes);
+
+      const stored = await this.redis.eval(
+        COMPARE_AND_SET_SCRIPT,
+        1,
+        key,
+        raw ?? '',
+        JSON.stringify(next),
+        STALE_AFTER_MS,
+      );
+      if (stored === 1) {
+        return;
+      }
+    }
+
+    this.logger.warn({ domain, attempts: MAX_UPDATE_ATTEMPTS }, 'Strategy stats update lost to concurrent writers');
+  }
+
+  async listStats(): Promise<Record<string, DomainStrategyStats>> {
+    const result: Record<string, DomainStrategyStats> = {};
+    let cursor = '0';
+
+    do {
+      const [next, keys] = await this.redis.scan(cursor, 'MATCH', `${KEY_PREFIX}*`, 'COUNT', 100);
+      cursor = next;
+      for (const key of keys) {
+        const domain = key.substring(KEY_PREFIX.length);
+        const stats = await this.getStats(domain);
+        if (stats) {
+          result[domain] = stats;
+        }
+      }
+    } while (cursor !== '0');
+
+    return result;
+  }
+
+  private domainKey(domain: string): string {
+    return `${KEY_PREFIX}${domain.toLowerCase()}`;
+  }
+}
@@ -0,0 +1,98 @@
+import { Redis } from 'ioredis';
+import { getConfig } from '../../config/env.js';
+import { ResolveOptions, ResolveResponse } from '../../types/dto.js';
+import { extractUrlExpiry } from '../../utils/url.js';
+import { buildRequestKey } from '../../utils/request-key.js';
+import { getLogger } from '../observability/logger.js';
+import { getRedisClient } from '../redis/redis.client.js';
+
+const KEY_PREFIX = 'resolvecache:';
+// Margen para que el cliente tenga tiempo de usar la URL antes de que caduque
+const EXPIRY_SAFETY_MARGIN_MS = 30 * 1000;
+
+export interface CachedResolveResult {
+  response: ResolveResponse;
+  expiresAt: string;
+}
+
+export interface ResultCacheTtlLimits {
+  maxTtlMs: number;
+  defaultTtlMs: number;
+}
+
+/**
+ * Caché de resultados de `/api/v1/resolve` en Redis, compartida entre réplicas.
+ *
+ * - `resolvecache:<sha256>`: respuesta JSON con su caducidad; la clave se
+ *   deriva de la URL de la página normalizada y de las opciones que afectan
+ *   a la resolución
+ */
+export class ResolveResultCache {
+  private static instance: ResolveResultCache;
+
+  private constructor(private readonly redis: Redis) {}
+
+  public static getInstance(): ResolveResultCache {
+    if (!ResolveResultCache.instance) {
+      ResolveResultCache.instance = new ResolveResultCache(getRedisClient());
+    }
+    return ResolveResultCache.instance;
+  }
+
+  async get(url: string, options: ResolveOptions): Promise<CachedResolveResult | null> {
+    const raw = await this.redis.get(ResolveResultCache.buildKey(url, options));
+    return raw ? (JSON.parse(raw) as CachedResolveResult) : null;
+  }
+
+  /**
+   * Guarda la respuesta hasta la caducidad de sus manifiestos. Devuelve la
+   * fecha de caducidad o null si la respuesta no se puede cachear.
+   */
+  async set(url: string, options: ResolveOptions, response: ResolveResponse): Promise<string | null> {
+    const config = getConfig();
+    const ttlMs = ResolveResultCache.computeTtl(response, {
+      maxTtlMs: config.RESULT_CACHE_MAX_TTL_MS,
+      defaultTtlMs: config.RESULT_CACHE_DEFAULT_TTL_MS,
+    });
+    if (ttlMs <= 0) {
+      return null;
+    }
+
+    const expiresAt = new Date(Date.now() + ttlMs).toISOString();
+    const entry: CachedResolveResult = { response, expiresAt };
+    await this.redis.set(ResolveResultCache.buildKey(url, options), JSON.stringify(entry), 'PX', ttlMs);
+
+    getLogger().debug({ url, ttlMs, expiresAt }, 'Resolve result cached');
+    return expiresAt;
+  }
+
+  /**
+   * TTL de una respuesta: hasta la caducidad más próxima de sus manifiestos
+   * (menos un margen) o el TTL por defecto si no la indican, limitado por el
+   * máximo. Las respuestas sin streams no se cachean.
+   */
+  static computeTtl(response: ResolveResponse, limits: ResultCacheTtlLimits, now: number = Date.now()): number {
+    if (response.streams.length === 0 || limits.maxTtlMs <= 0) {
+      return 0;
+    }
+
+    const expiries = response.streams
+      .map(stream => extractUrlExpiry(stream.masterUrl))
+      .filter((expiry): expiry is number => expiry !== null);
+
+    const ttlMs = expiries.length > 0
+      ? Math.min(...expiries) - now - EXPIRY_SAFETY_MARGIN_MS
+      : limits.defaultTtlMs;
+
+    return Math.max(0, Math.min(ttlMs, limits.maxTtlMs));
+  }
+
+  /**
+   * Clave de caché: URL sin fragmento y con los parámetros ordenados, más las
+   * opciones que cambian el resultado. `cache` y `playbackLink` se excluyen;
+   * los enlaces de reproducción se firman por petición.
+   */
+  static buildKey(url: string, options: ResolveOptions): string {
+    return `${KEY_PREFIX}${buildRequestKey(url, options, ['cache', 'playbackLink'])}`;
+  }
+}
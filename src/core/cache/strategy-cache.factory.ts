@@ -2,6 +2,7 @@ import { getConfig } from '../../config/env.js';
 import { IActivationStrategyCache } from './strategy-cache.interface.js';
 import { InMemoryStrategyCache } from './in-memory-strategy.cache.js';
 import { JsonStrategyCache } from './json-strategy.cache.js';
+import { RedisStrategyCache } from './redis-strategy.cache.js';
 import { getLogger } from '../observability/logger.js';
 
 export class StrategyCacheFactory {
@@ -16,6 +17,8 @@ export class StrategyCacheFactory {
     switch (cacheType) {
       case 'json':
         return new JsonStrategyCache();
+      case 'redis':
+        return new RedisStrategyCache();
       case 'memory':
         return new InMemoryStrategyCache();
       default:
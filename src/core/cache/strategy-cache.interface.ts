@@ -4,8 +4,34 @@ export interface ActivationStrategy {
   name: ActivationStrategyName;
 }
 
+/**
+ * Estadísticas de una estrategia en un dominio. `attempts` y `successes`
+ * decaen con el tiempo, por eso no son enteros.
+ */
+export interface StrategyStats {
+  attempts: number;
+  successes: number;
+  medianTimeToDetectionMs: number | null;
+  lastSuccessAt: string | null;
+  lastAttemptAt: string;
+  // Últimos tiempos hasta la detección, para la mediana
+  recentDetectionTimesMs: number[];
+}
+
+export type DomainStrategyStats = Partial<Record<ActivationStrategyName, StrategyStats>>;
+
+/**
+ * Resultado de aplicar una estrategia durante una resolución
+ */
+export interface StrategyOutcome {
+  strategy: ActivationStrategyName;
+  success: boolean;
+  timeToDetectionMs?: number;
+}
+
 export interface IActivationStrategyCache {
   initialize(): Promise<void>;
-  get(domain: string): Promise<ActivationStrategy | null>;
-  set(domain: string, strategy: ActivationStrategy): Promise<void>;
+  getStats(domain: string): Promise<DomainStrategyStats | null>;
+  recordOutcomes(domain: string, outcomes: StrategyOutcome[]): Promise<void>;
+  listStats(): Promise<Record<string, DomainStrategyStats>>;
 }
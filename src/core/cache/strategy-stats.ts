@@ -0,0 +1,111 @@
+import type { ActivationStrategyName } from '../resolver/resolver.service.js';
+import type { DomainStrategyStats, StrategyOutcome, StrategyStats } from './strategy-cache.interface.js';
+
+// Los intentos pierden la mitad de su peso cada semana
+const HALF_LIFE_MS = 7 * 24 * 60 * 60 * 1000;
+// Sin intentos en este periodo, la estadística se descarta
+export const STALE_AFTER_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_DETECTION_SAMPLES = 20;
+// Estimación para estrategias sin tiempos registrados
+const DEFAULT_DETECTION_TIME_MS = 3000;
+
+function decayFactor(lastAttemptAt: string, now: number): number {
+  const elapsed = Math.max(0, now - Date.parse(lastAttemptAt));
+  return Math.pow(0.5, elapsed / HALF_LIFE_MS);
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? Math.round((sorted[middle - 1] + sorted[middle]) / 2)
+    : sorted[middle];
+}
+
+/**
+ * Aplica el resultado de un intento a las estadísticas de la estrategia,
+ * decayendo antes los contadores según el tiempo desde el último intento.
+ */
+export function applyOutcome(
+  stats: StrategyStats | undefined,
+  outcome: StrategyOutcome,
+  now: number = Date.now(),
+): StrategyStats {
+  const factor = stats ? decayFactor(stats.lastAttemptAt, now) : 1;
+  const samples = [...(stats?.recentDetectionTimesMs ?? [])];
+  if (outcome.success && outcome.timeToDetectionMs !== undefined) {
+    samples.push(Math.max(0, Math.round(outcome.timeToDetectionMs)));
+  }
+  const recentDetectionTimesMs = samples.slice(-MAX_DETECTION_SAMPLES);
+  const timestamp = new Date(now).toISOString();
+
+  return {
+    attempts: (stats?.attempts ?? 0) * factor + 1,
+    successes: (stats?.successes ?? 0) * factor + (outcome.success ? 1 : 0),
+    medianTimeToDetectionMs: median(recentDetectionTimesMs),
+    lastSuccessAt: outcome.success ? timestamp : stats?.lastSuccessAt ?? null,
+    lastAttemptAt: timestamp,
+    recentDetectionTimesMs,
+  };
+}
+
+/**
+ * Aplica varios resultados a las estadísticas de un dominio
+ */
+export function applyOutcomes(
+  stats: DomainStrategyStats | null,
+  outcomes: StrategyOutcome[],
+  now: number = Date.now(),
+): DomainStrategyStats {
+  const next: DomainStrategyStats = { ...stats };
+  for (const outcome of outcomes) {
+    next[outcome.strategy] = applyOutcome(next[outcome.strategy], outcome, now);
+  }
+  return next;
+}
+
+/**
+ * Elimina las estrategias sin intentos recientes. Devuelve null si no queda ninguna.
+ */
+export function pruneStaleStats(stats: DomainStrategyStats, now: number = Date.now()): DomainStrategyStats | null {
+  const entries = Object.entries(stats).filter(
+    ([, s]) => s && now - Date.parse(s.lastAttemptAt) < STALE_AFTER_MS,
+  );
+  return entries.length > 0 ? (Object.fromEntries(entries) as DomainStrategyStats) : null;
+}
+
+/**
+ * Tiempo esperado hasta detectar con la estrategia: la mediana dividida por la
+ * probabilidad de éxito estimada (con suavizado de Laplace y decaimiento).
+ */
+export function expectedDetectionTime(stats: StrategyStats | undefined, now: number = Date.now()): number {
+  if (!stats) {
+    return DEFAULT_DETECTION_TIME_MS / 0.5;
+  }
+
+  const factor = decayFactor(stats.lastAttemptAt, now);
+  const successRate = (stats.successes * factor + 1) / (stats.attempts * factor + 2);
+  return (stats.medianTimeToDetectionMs ?? DEFAULT_DETECTION_TIME_MS) / successRate;
+}
+
+/**
+ * Ordena las estrategias de menor a mayor tiempo esperado. A igualdad se
+ * conserva el orden recibido, que actúa como orden por defecto.
+ */
+export function rankStrategies(
+  strategies: ActivationStrategyName[],
+  stats: DomainStrategyStats | null,
+  now: number = Date.now(),
+): ActivationStrategyName[] {
+  if (!stats) {
+    return strategies;
+  }
+
+  return strategies
+    .map((strategy, index) => ({ strategy, index, cost: expectedDetectionTime(stats[strategy], now) }))
+    .sort((a, b) => a.cost - b.cost || a.index - b.index)
+    .map(entry => entry.strategy);
+}
@@ -1,4 +1,6 @@
 import pkg from 'prom-client';
+import { getRedisClient } from '../redis/redis.client.js';
+import { SINGLE_FLIGHT_COALESCED_KEY } from '../redis/redis-single-flight.js';
 
 const { Registry, collectDefaultMetrics, Counter, Histogram, Gauge, MetricType } = pkg;
 
@@ -57,6 +59,13 @@ export const hlsStreamsDetected = new Counter({
   registers: [registry],
 });
 
+export const dashStreamsDetected = new Counter({
+  name: 'dash_streams_detected_total',
+  help: 'Total number of DASH streams detected',
+  labelNames: ['is_live', 'is_protected'],
+  registers: [registry],
+});
+
 export const navigationErrors = new Counter({
   name: 'navigation_errors_total',
   help: 'Total number of navigation errors',
@@ -71,6 +80,33 @@ export const securityEvents = new Counter({
   registers: [registry],
 });
 
+export const resultCacheLookups = new Counter({
+  name: 'result_cache_lookups_total',
+  help: 'Total number of resolve result cache lookups',
+  labelNames: ['result'],
+  registers: [registry],
+});
+
+export const resolveCoalesced = new Counter({
+  name: 'resolve_coalesced_total',
+  help: 'Total number of resolve requests served by an in-flight resolve of the same URL in this process',
+  registers: [registry],
+});
+
+// Los workers no exponen métricas: su contador se comparte en Redis y se lee al exportar
+export const resolveCoalescedAcrossWorkers = new Gauge({
+  name: 'resolve_coalesced_workers',
+  help: 'Number of queued jobs served by the in-flight resolve of another worker',
+  registers: [registry],
+  async collect(): Promise<void> {
+    try {
+      this.set(Number(await getRedisClient().get(SINGLE_FLIGHT_COALESCED_KEY)) || 0);
+    } catch {
+      // Sin Redis se conserva el último valor leído
+    }
+  },
+});
+
 // Función para obtener todas las métricas
 export async function getMetrics(): Promise<string> {
   return registry.metrics();
@@ -127,6 +163,13 @@ export function incrementHlsStreams(
   });
 }
 
+export function incrementDashStreams(isLive: boolean, isProtected: boolean): void {
+  dashStreamsDetected.inc({
+    is_live: isLive.toString(),
+    is_protected: isProtected.toString(),
+  });
+}
+
 export function incrementNavigationError(errorType: string): void {
   navigationErrors.inc({ error_type: errorType });
 }
@@ -138,12 +181,21 @@ export function incrementSecurityEvent(
   securityEvents.inc({ event_type: eventType, severity });
 }
 
+export function incrementResultCacheLookup(result: 'hit' | 'miss' | 'error'): void {
+  resultCacheLookups.inc({ result });
+}
+
+export function incrementCoalescedResolve(): void {
+  resolveCoalesced.inc();
+}
+
 // Función para crear snapshot de métricas importantes
 export interface MetricsSnapshot {
   httpRequests: number;
   resolveRequests: number;
   activeBrowserPages: number;
   hlsStreamsDetected: number;
+  dashStreamsDetected: number;
   navigationErrors: number;
   securityEvents: number;
   timestamp: string;
@@ -174,6 +226,7 @@ export async function getMetricsSnapshot(): Promise<MetricsSnapshot> {
     resolveRequests: findMetricValue('resolve_requests_total'),
     activeBrowserPages: findMetricValue('browser_pages_active'),
     hlsStreamsDetected: findMetricValue('hls_streams_detected_total'),
+    dashStreamsDetected: findMetricValue('dash_streams_detected_total'),
     navigationErrors: findMetricValue('navigation_errors_total'),
     securityEvents: findMetricValue('security_events_total'),
     timestamp: new Date().toISOString(),
@@ -0,0 +1,49 @@
+import { resolveUrl } from '../../utils/url.js';
+
+// Atributos URI="..." de tags como EXT-X-KEY, EXT-X-MEDIA, EXT-X-MAP o EXT-X-I-FRAME-STREAM-INF
+const URI_ATTRIBUTE_REGEX = /URI="([^"]*)"/g;
+
+export class ManifestRewriter {
+  /**
+   * Reescribe todas las URIs de una playlist M3U8 (variantes, renditions,
+   * claves, init segments y segmentos) usando la función indicada.
+   * Las URIs relativas se resuelven antes respecto a la URL del manifiesto.
+   */
+  static rewriteM3U8(
+    content: string,
+    manifestUrl: string,
+    toProxyUrl: (absoluteUrl: string) => string,
+  ): string {
+    const rewrite = (uri: string): string => {
+      const absoluteUrl = resolveUrl(uri, manifestUrl);
+      // Esquemas no HTTP (data:, skd:// de FairPlay...) se dejan intactos
+      return /^https?:\/\//i.test(absoluteUrl) ? toProxyUrl(absoluteUrl) : uri;
+    };
+
+    return content
+      .split(/\r?\n/)
+      .map(line => {
+        const trimmed = line.trim();
+        if (!trimmed) {
+          return line;
+        }
+
+        if (trimmed.startsWith('#')) {
+          return trimmed.includes('URI="')
+            ? line.replace(URI_ATTRIBUTE_REGEX, (_match, uri: string) => `URI="${rewrite(uri)}"`)
+            : line;
+        }
+
+        return rewrite(trimmed);
+      })
+      .join('\n');
+  }
+
+  /**
+   * Indica si un contenido es una playlist M3U8 que debe reescribirse
+   */
+  static isM3U8(content: string, contentType?: string): boolean {
+    const ct = (contentType || '').toLowerCase();
+    return ct.includes('mpegurl') || content.trimStart().startsWith('#EXTM3U');
+  }
+}
@@ -0,0 +1,190 @@
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { Cookie } from '../../types/dto.js';
+import { getConfig, isProduction } from '../../config/env.js';
+import { PlaybackSession } from './playback-session.store.js';
+
+const DEFAULT_SESSION_SECRET = 'default-secret-change-in-production';
+
+/**
+ * Contenido firmado de un enlace de reproducción. Se cifra para no exponer
+ * la URL upstream ni sus tokens, cabeceras o cookies.
+ */
+interface SignedPlaybackPayload {
+  u: string;
+  p: string;
+  h: Record<string, string>;
+  c: Cookie[];
+  exp: number;
+  ip?: string;
+}
+
+export interface PlaybackLinkData {
+  url: string;
+  pageUrl: string;
+  headers: Record<string, string>;
+  cookies: Cookie[];
+}
+
+export interface PlaybackLinkSignOptions {
+  ttlSeconds: number;
+  clientIp?: string;
+}
+
+/**
+ * Error de verificación de un enlace de reproducción firmado
+ */
+export class PlaybackLinkError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: 400 | 403 | 410,
+    public readonly reason: 'malformed' | 'invalid_signature' | 'expired' | 'ip_mismatch',
+  ) {
+    super(message);
+    this.name = 'PlaybackLinkError';
+  }
+}
+
+/**
+ * Firma y verifica enlaces de reproducción sin estado usando SESSION_SECRET.
+ *
+ * Formato del token: `<payload cifrado (AES-256-GCM)>.<HMAC-SHA256 del payload cifrado>`.
+ * El HMAC cubre la URL del manifiesto, sus cabeceras y cookies, la caducidad
+ * y la IP del cliente si el enlace está vinculado a ella.
+ */
+export class PlaybackLinkSigner {
+  private static instance: PlaybackLinkSigner;
+  private readonly encryptionKey: Buffer;
+  private readonly signingKey: Buffer;
+  private readonly resourceKey: Buffer;
+
+  constructor(secret: string) {
+    // Claves independientes para cifrado y firma derivadas del mismo secreto
+    this.encryptionKey = crypto.createHash('sha256').update(`playback-enc:${secret}`).digest();
+    this.signingKey = crypto.createHash('sha256').update(`playback-sig:${secret}`).digest();
+    this.resourceKey = crypto.createHash('sha256').update(`playback-res:${secret}`).digest();
+  }
+
+  /**
+   * @throws Error en producción si SESSION_SECRET falta o conserva el valor por
+   * defecto: cualquiera podría falsificar enlaces. Se crea al registrar las
+   * rutas, así que el servidor no llega a arrancar.
+   */
+  public static getInstance(): PlaybackLinkSigner {
+    if (!PlaybackLinkSigner.instance) {
+      const secret = getConfig().SESSION_SECRET;
+      if ((!secret || secret === DEFAULT_SESSION_SECRET) && isProduction()) {
+        throw new Error('SESSION_SECRET must be set to a non-default value in production');
+      }
+      PlaybackLinkSigner.instance = new PlaybackLinkSigner(secret);
+    }
+    return PlaybackLinkSigner.instance;
+  }
+
+  /**
+   * Indica si un token de reproducción es un enlace firmado (frente a un token de sesión)
+   */
+  static isSignedToken(token: string): boolean {
+    return token.includes('.');
+  }
+
+  /**
+   * Genera un token firmado y cifrado para los datos de reproducción
+   */
+  sign(data: PlaybackLinkData, options: PlaybackLinkSignOptions): { token: string; expiresAt: number } {
+    const expiresAt = Date.now() + options.ttlSeconds * 1000;
+    const payload: SignedPlaybackPayload = {
+      u: data.url,
+      p: data.pageUrl,
+      h: data.headers,
+      c: data.cookies,
+      exp: Math.floor(expiresAt / 1000),
+      ip: options.clientIp,
+    };
+
+    const encrypted = this.encrypt(zlib.deflateRawSync(JSON.stringify(payload)));
+    return {
+      token: `${encrypted}.${this.hmac(encrypted)}`,
+      expiresAt: payload.exp * 1000,
+    };
+  }
+
+  /**
+   * Verifica un token firmado y devuelve la sesión de reproducción que contiene.
+   * @throws PlaybackLinkError si el token está mal formado, manipulado, caducado
+   * o vinculado a otra IP.
+   */
+  verify(token: string, clientIp: string): PlaybackSession {
+    const [encrypted, signature, ...rest] = token.split('.');
+    if (!encrypted || !signature || rest.length > 0) {
+      throw new PlaybackLinkError('El enlace de reproducción está mal formado', 400, 'malformed');
+    }
+
+    const expected = Buffer.from(this.hmac(encrypted));
+    const provided = Buffer.from(signature);
+    if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+      throw new PlaybackLinkError('La firma del enlace de reproducción no es válida', 403, 'invalid_signature');
+    }
+
+    let payload: SignedPlaybackPayload;
+    try {
+      payload = JSON.parse(zlib.inflateRawSync(this.decrypt(encrypted)).toString('utf8'));
+    } catch {
+      throw new PlaybackLinkError('La firma del enlace de reproducción no es válida', 403, 'invalid_signature');
+    }
+
+    if (payload.exp * 1000 <= Date.now()) {
+      throw new PlaybackLinkError('El enlace de reproducción ha caducado', 410, 'expired');
+    }
+
+    if (payload.ip && payload.ip !== clientIp) {
+      throw new PlaybackLinkError('El enlace de reproducción no es válido para esta IP', 403, 'ip_mismatch');
+    }
+
+    return {
+      url: payload.u,
+      pageUrl: payload.p,
+      headers: payload.h,
+      cookies: payload.c,
+      createdAt: 0,
+      expiresAt: payload.exp * 1000,
+    };
+  }
+
+  /**
+   * Firma una URL upstream de un manifiesto reescrito para el token que lo
+   * sirve: el proxy solo acepta URIs que salieron de los manifiestos de esa sesión
+   */
+  signResource(token: string, url: string): string {
+    return crypto.createHmac('sha256', this.resourceKey).update(`${token}\n${url}`).digest('base64url');
+  }
+
+  /**
+   * Comprueba la firma de una URL upstream pedida al proxy con un token
+   */
+  verifyResource(token: string, url: string, signature: string): boolean {
+    const expected = Buffer.from(this.signResource(token, url));
+    const provided = Buffer.from(signature);
+    return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+  }
+
+  private hmac(value: string): string {
+    return crypto.createHmac('sha256', this.signingKey).update(value).digest('base64url');
+  }
+
+  private encrypt(plain: Buffer): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    const ciphertext = Buffer.concat([cipher.update(plain), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+  }
+
+  private decrypt(encoded: string): Buffer {
+    const raw = Buffer.from(encoded, 'base64url');
+    const iv = raw.subarray(0, 12);
+    const authTag = raw.subarray(12, 28);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey, iv);
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([decipher.update(raw.subarray(28)), decipher.final()]);
+  }
+}
@@ -0,0 +1,153 @@
+import axios from 'axios';
+import { Readable } from 'stream';
+import { getConfig } from '../../config/env.js';
+import { getLogger } from '../observability/logger.js';
+import { HeadersManager, buildCookieHeader } from '../../utils/headers.js';
+import { sanitizeUrlForLogging } from '../../utils/url.js';
+import { ManifestRewriter } from './manifest-rewriter.js';
+import { PlaybackSession } from './playback-session.store.js';
+import { SsrfGuard } from '../security/ssrf-guard.js';
+
+// Cabeceras de la respuesta upstream que se reenvían al cliente
+const FORWARDED_RESPONSE_HEADERS = [
+  'content-type',
+  'content-length',
+  'content-range',
+  'accept-ranges',
+  'cache-control',
+  'last-modified',
+  'etag',
+];
+
+// Cabeceras capturadas en el navegador que prevalecen sobre las contextuales
+const CAPTURED_HEADER_OVERRIDES = ['referer', 'origin', 'user-agent'];
+
+/**
+ * Respuesta del proxy: o bien un manifiesto reescrito, o bien un stream
+ * del recurso upstream (segmentos, claves...)
+ */
+export type PlaybackProxyResponse =
+  | { kind: 'manifest'; status: number; body: string }
+  | { kind: 'stream'; status: number; headers: Record<string, string>; stream: Readable };
+
+export class PlaybackProxyService {
+  private config = getConfig();
+
+  /**
+   * Obtiene un recurso upstream con las cabeceras y cookies de la sesión.
+   * Las playlists M3U8 se devuelven con todas sus URIs apuntando de nuevo al
+   * proxy; el resto de recursos se transmiten tal cual.
+   * @param session Sesión de reproducción.
+   * @param targetUrl URL upstream a obtener.
+   * @param toProxyUrl Construye la URL del proxy para una URL upstream.
+   * @param range Cabecera Range del cliente (opcional).
+   */
+  async fetch(
+    session: PlaybackSession,
+    targetUrl: string,
+    toProxyUrl: (absoluteUrl: string) => string,
+    range?: string,
+  ): Promise<PlaybackProxyResponse> {
+    const ssrfGuard = SsrfGuard.getInstance();
+    await ssrfGuard.assertPublicUrl(targetUrl);
+
+    const headers = this.buildUpstreamHeaders(session, targetUrl);
+    if (range) {
+      headers['range'] = range;
+    }
+
+    const response = await axios.get<Readable>(targetUrl, {
+      headers,
+      timeout: this.config.M3U8_DOWNLOAD_TIMEOUT_MS,
+      responseType: 'stream',
+      validateStatus: () => true,
+      ...ssrfGuard.getAxiosConfig(),
+    });
+
+    // axios sigue las redirecciones: las URIs relativas se resuelven contra la URL final
+    const finalUrl: string = response.request?.res?.responseUrl ?? targetUrl;
+    const contentType = String(response.headers['content-type'] || '');
+    const looksLikeManifest =
+      ManifestRewriter.isM3U8('', contentType) || /\.m3u8?$/i.test(new URL(finalUrl).pathname);
+
+    if (response.status < 400 && looksLikeManifest) {
+      const content = await this.readStream(response.data, this.config.PLAYBACK_MAX_MANIFEST_BYTES);
+      if (ManifestRewriter.isM3U8(content, contentType)) {
+        getLogger().debug({ url: sanitizeUrlForLogging(finalUrl) }, 'Rewriting proxied manifest');
+        return {
+          kind: 'manifest',
+          status: response.status,
+          body: ManifestRewriter.rewriteM3U8(content, finalUrl, toProxyUrl),
+        };
+      }
+      // No era una playlist: se devuelve el contenido leído sin modificar
+      return {
+        kind: 'stream',
+        status: response.status,
+        headers: this.pickResponseHeaders(response.headers),
+        stream: Readable.from([Buffer.from(content)]),
+      };
+    }
+
+    return {
+      kind: 'stream',
+      status: response.status,
+      headers: this.pickResponseHeaders(response.headers),
+      stream: response.data,
+    };
+  }
+
+  /**
+   * Construye las cabeceras para la petición upstream a partir del contexto
+   * de la página y de las cabeceras capturadas durante la resolución.
+   */
+  private buildUpstreamHeaders(session: PlaybackSession, targetUrl: string): Record<string, string> {
+    const captured: Record<string, string> = {};
+    for (const [key, value] of Object.entries(session.headers)) {
+      captured[key.toLowerCase()] = value;
+    }
+
+    const headers = HeadersManager.buildContextualHeaders(session.pageUrl, targetUrl, {
+      userAgent: captured['user-agent'] || this.config.USER_AGENT,
+      cookie: buildCookieHeader(session.cookies, targetUrl),
+    }).getAll();
+
+    for (const name of CAPTURED_HEADER_OVERRIDES) {
+      if (captured[name]) {
+        headers[name] = captured[name];
+      }
+    }
+
+    return headers;
+  }
+
+  private pickResponseHeaders(upstream: Record<string, unknown>): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const name of FORWARDED_RESPONSE_HEADERS) {
+      const value = upstream[name];
+      if (value !== undefined && value !== null) {
+        headers[name] = String(value);
+      }
+    }
+    return headers;
+  }
+
+  /**
+   * Lee un manifiesto completo en memoria
+   * @throws Error si supera maxBytes; la ruta lo responde como 502
+   */
+  private async readStream(stream: Readable, maxBytes: number): Promise<string> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of stream) {
+      const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+      size += buffer.length;
+      if (size > maxBytes) {
+        stream.destroy();
+        throw new Error(`Manifest exceeds ${maxBytes} bytes`);
+      }
+      chunks.push(buffer);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  }
+}
@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+import { Cookie } from '../../types/dto.js';
+import { getConfig } from '../../config/env.js';
+import { getLogger } from '../observability/logger.js';
+
+/**
+ * Contexto necesario para reproducir un manifiesto fuera del navegador
+ */
+export interface PlaybackSession {
+  url: string;
+  pageUrl: string;
+  headers: Record<string, string>;
+  cookies: Cookie[];
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Almacén en memoria de sesiones de reproducción indexadas por token.
+ * Las sesiones caducan tras PLAYBACK_SESSION_TTL_MS.
+ */
+export class PlaybackSessionStore {
+  private static instance: PlaybackSessionStore;
+  private sessions: Map<string, PlaybackSession> = new Map();
+  private readonly ttlMs: number;
+
+  private constructor(ttlMs: number) {
+    this.ttlMs = ttlMs;
+  }
+
+  public static getInstance(): PlaybackSessionStore {
+    if (!PlaybackSessionStore.instance) {
+      PlaybackSessionStore.instance = new PlaybackSessionStore(getConfig().PLAYBACK_SESSION_TTL_MS);
+    }
+    return PlaybackSessionStore.instance;
+  }
+
+  /**
+   * Registra una sesión y devuelve su token
+   */
+  create(data: Omit<PlaybackSession, 'createdAt' | 'expiresAt'>): { token: string; session: PlaybackSession } {
+    this.prune();
+
+    const token = crypto.randomBytes(24).toString('base64url');
+    const now = Date.now();
+    const session: PlaybackSession = {
+      ...data,
+      createdAt: now,
+      expiresAt: now + this.ttlMs,
+    };
+
+    this.sessions.set(token, session);
+    getLogger().debug({ expiresAt: session.expiresAt }, 'Playback session created');
+
+    return { token, session };
+  }
+
+  get(token: string): PlaybackSession | null {
+    const session = this.sessions.get(token);
+    if (!session) {
+      return null;
+    }
+
+    if (session.expiresAt <= Date.now()) {
+      this.sessions.delete(token);
+      return null;
+    }
+
+    return session;
+  }
+
+  /**
+   * Elimina las sesiones caducadas
+   */
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, session] of this.sessions) {
+      if (session.expiresAt <= now) {
+        this.sessions.delete(token);
+      }
+    }
+  }
+}
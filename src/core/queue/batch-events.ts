@@ -0,0 +1,267 @@
+import { QueueEvents, QueueEventsListener } from 'bullmq';
+import { BatchSummary, BulkJobResult } from '../../types/dto.js';
+import { getLogger } from '../observability/logger.js';
+import { BATCH_CANCELLED_MESSAGE, BatchStore } from './batch.store.js';
+import { buildBatchJobId } from './bulk-jobs.js';
+import { QueueService } from './queue.service.js';
+
+export type BatchEventType = 'job-active' | 'job-completed' | 'job-failed' | 'job-cancelled' | 'batch-completed';
+
+// Evento propio publicado en el stream de la cola al cancelar un job que no llegó a ejecutarse
+export const JOB_CANCELLED_QUEUE_EVENT = 'batch-job-cancelled';
+
+interface BatchQueueEventsListener extends QueueEventsListener {
+  [JOB_CANCELLED_QUEUE_EVENT]: (args: { jobId: string }, id: string) => void;
+}
+
+export interface BatchEvent {
+  // `<ms>-<seq>`, usado como Last-Event-ID: posición en el stream de eventos de
+  // BullMQ o, en los jobs terminados, fin del job y posición de la URL en el lote
+  id: string;
+  event: BatchEventType;
+  data: Record<string, unknown>;
+}
+
+export interface BatchEventStreamDeps {
+  batchStore: BatchStore;
+  queueService: QueueService;
+}
+
+const STREAM_EVENT_ID = /^(\d+)-(\d+)$/;
+
+// El worker guarda el resultado justo después de que BullMQ publique el evento del job
+const STORED_RESULT_RETRY_MS = 100;
+const STORED_RESULT_ATTEMPTS = 30;
+
+/**
+ * Serializa un evento en formato Server-Sent Events
+ */
+export function formatSseEvent(event: BatchEvent): string {
+  return `id: ${event.id}\nevent: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+/**
+ * Milisegundos de un ID del stream de eventos (`<ms>-<seq>`), o null si no
+ * es un ID válido.
+ */
+export function parseStreamEventTime(eventId: string | undefined): number | null {
+  const match = eventId ? STREAM_EVENT_ID.exec(eventId) : null;
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Compara dos IDs `<ms>-<seq>` válidos
+ */
+function compareEventIds(a: string, b: string): number {
+  const [, msA, seqA] = STREAM_EVENT_ID.exec(a)!;
+  const [, msB, seqB] = STREAM_EVENT_ID.exec(b)!;
+  return Number(msA) - Number(msB) || Number(seqA) - Number(seqB);
+}
+
+/**
+ * Progreso de un lote en vivo a partir de los QueueEvents de `hls-resolver`.
+ *
+ * Al conectar se reenvían los jobs ya terminados desde el registro del lote.
+ * Con Last-Event-ID solo se reenvían los terminados después de ese evento y
+ * los eventos se leen desde esa posición del stream; sin él, desde el final.
+ * Los jobs reenviados no se repiten al llegar su evento en vivo. Los eventos
+ * de jobs terminados llevan el resultado que guardó el worker en el registro
+ * y un ID propio de cada job, para reanudar sin duplicados. El stream acaba
+ * con `batch-completed` cuando todos los jobs han terminado.
+ */
+export class BatchEventStream {
+  private queueEvents?: QueueEvents;
+  private readonly jobUrls = new Map<string, string>();
+  private readonly urlPositions = new Map<string, number>();
+  private readonly finishedJobs = new Map<string, BulkJobResult['status']>();
+  // Jobs terminados ya enviados; finishedJobs se actualiza antes de que salga su envío
+  private reportedJobs = 0;
+  // Serializa los envíos; la lectura de resultados es asíncrona
+  private pending: Promise<void> = Promise.resolve();
+  private closed = false;
+
+  constructor(
+    private readonly summary: BatchSummary,
+    private readonly deps: BatchEventStreamDeps,
+  ) {}
+
+  async start(
+    lastEventId: string | undefined,
+    send: (event: BatchEvent) => void,
+    end: () => void,
+  ): Promise<void> {
+    const { batchId } = this.summary;
+    const { batchStore, queueService } = this.deps;
+
+    const urls = await batchStore.getUrls(batchId);
+    urls.forEach((url, position) => {
+      this.jobUrls.set(buildBatchJobId(batchId, url), url);
+      this.urlPositions.set(url, position);
+    });
+
+    const resumeAfter = lastEventId && parseStreamEventTime(lastEventId) !== null ? lastEventId : null;
+    const streamPosition = resumeAfter ?? (await queueService.getLastEventId());
+    // La posición se fija antes de leer el registro para no perder los eventos intermedios
+    this.queueEvents = queueService.createQueueEvents(streamPosition);
+
+    const { results } = await batchStore.getResults(batchId, 0, this.summary.total);
+    const replayed: BatchEvent[] = [];
+    for (const result of results) {
+      if (result.status === 'pending') {
+        continue;
+      }
+      const jobId = buildBatchJobId(batchId, result.url);
+      this.finishedJobs.set(jobId, result.status);
+      const event = this.finishedJobEvent(jobId, result, streamPosition);
+      if (resumeAfter === null || compareEventIds(event.id, resumeAfter) > 0) {
+        replayed.push(event);
+      }
+    }
+    replayed.sort((a, b) => compareEventIds(a.id, b.id)).forEach(send);
+
+    this.reportedJobs = this.finishedJobs.size;
+    if (this.isBatchFinished()) {
+      send(this.batchCompletedEvent(streamPosition));
+      await this.close();
+      end();
+      return;
+    }
+
+    // El cliente pudo desconectarse mientras se reenviaba el registro
+    if (this.closed) {
+      await this.queueEvents.close();
+      return;
+    }
+
+    this.queueEvents.on('active', ({ jobId }, id) => {
+      const url = this.jobUrls.get(jobId);
+      if (url && !this.finishedJobs.has(jobId)) {
+        this.enqueue(async () => send({ id, event: 'job-active', data: { jobId, url, status: 'active' } }));
+      }
+    });
+
+    this.queueEvents.on('completed', ({ jobId }, id) => {
+      this.onJobEnded(jobId, { status: 'completed' }, id, send, end);
+    });
+
+    this.queueEvents.on('failed', ({ jobId, failedReason }, id) => {
+      const status = failedReason === BATCH_CANCELLED_MESSAGE ? 'cancelled' : 'failed';
+      this.onJobEnded(jobId, { status, error: failedReason }, id, send, end);
+    });
+
+    this.queueEvents.on<BatchQueueEventsListener, typeof JOB_CANCELLED_QUEUE_EVENT>(
+      JOB_CANCELLED_QUEUE_EVENT,
+      ({ jobId }, id) => this.onJobEnded(jobId, { status: 'cancelled', error: BATCH_CANCELLED_MESSAGE }, id, send, end),
+    );
+
+    this.queueEvents.run().catch(error => {
+      if (!this.closed) {
+        getLogger().error({ batchId, error }, 'Batch event stream failed');
+        void this.close().finally(end);
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    await this.queueEvents?.close();
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.pending = this.pending
+      .then(() => (this.closed ? undefined : task()))
+      .catch(error => getLogger().warn({ batchId: this.summary.batchId, error }, 'Failed to send batch event'));
+  }
+
+  /**
+   * Envía el resultado guardado de un job terminado. Si el registro no lo
+   * tiene a tiempo se envía lo que trae el evento; el job cuenta como
+   * terminado aunque falle el envío.
+   */
+  private onJobEnded(
+    jobId: string,
+    outcome: { status: 'completed' } | { status: 'failed' | 'cancelled'; error: string },
+    id: string,
+    send: (event: BatchEvent) => void,
+    end: () => void,
+  ): void {
+    const url = this.jobUrls.get(jobId);
+    if (!url || this.finishedJobs.has(jobId)) {
+      return;
+    }
+
+    this.finishedJobs.set(jobId, outcome.status);
+    this.enqueue(async () => {
+      try {
+        const stored = await this.waitForStoredResult(url);
+        if (stored) {
+          this.finishedJobs.set(jobId, stored.status);
+        }
+        send(
+          stored
+            ? this.finishedJobEvent(jobId, stored, id)
+            : { id, event: `job-${outcome.status}`, data: { jobId, url, ...outcome } },
+        );
+      } finally {
+        this.finishIfDone(id, send, end);
+      }
+    });
+  }
+
+  private async waitForStoredResult(url: string): Promise<BulkJobResult | null> {
+    for (let attempt = 1; attempt <= STORED_RESULT_ATTEMPTS && !this.closed; attempt++) {
+      const result = await this.deps.batchStore.getJobResult(this.summary.batchId, url);
+      if (result && result.status !== 'pending') {
+        return result;
+      }
+      await new Promise(resolve => setTimeout(resolve, STORED_RESULT_RETRY_MS));
+    }
+    if (this.closed) {
+      return null;
+    }
+    getLogger().warn({ batchId: this.summary.batchId, url }, 'Stored batch job result not found');
+    return null;
+  }
+
+  /**
+   * Evento de un job terminado con ID `<fin del job>-<posición de la URL>`,
+   * único en el lote y ordenado igual al reenviar que en vivo
+   */
+  private finishedJobEvent(jobId: string, result: BulkJobResult, fallbackId: string): BatchEvent {
+    const finishedAt = result.finishedAt ? Date.parse(result.finishedAt) : NaN;
+    const id = Number.isNaN(finishedAt) ? fallbackId : `${finishedAt}-${this.urlPositions.get(result.url) ?? 0}`;
+    return { id, event: `job-${result.status}` as BatchEventType, data: { jobId, ...result } };
+  }
+
+  private finishIfDone(id: string, send: (event: BatchEvent) => void, end: () => void): void {
+    this.reportedJobs++;
+    if (this.isBatchFinished()) {
+      send(this.batchCompletedEvent(id));
+      void this.close().finally(end);
+    }
+  }
+
+  private isBatchFinished(): boolean {
+    return this.reportedJobs >= this.summary.total;
+  }
+
+  private batchCompletedEvent(id: string): BatchEvent {
+    const statuses = [...this.finishedJobs.values()];
+    const count = (status: BulkJobResult['status']): number => statuses.filter(value => value === status).length;
+    return {
+      id,
+      event: 'batch-completed',
+      data: {
+        batchId: this.summary.batchId,
+        total: this.summary.total,
+        completed: count('completed'),
+        failed: count('failed'),
+        cancelled: count('cancelled'),
+        durationMs: this.summary.durationMs ?? Date.now() - Date.parse(this.summary.createdAt),
+      },
+    };
+  }
+}
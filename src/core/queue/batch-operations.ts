@@ -0,0 +1,197 @@
+import { BatchSummary, BulkJobOptions } from '../../types/dto.js';
+import { getLogger } from '../observability/logger.js';
+import { WebhookService } from '../webhooks/webhook.service.js';
+import { JOB_CANCELLED_QUEUE_EVENT } from './batch-events.js';
+import { BATCH_CANCELLED_MESSAGE, BatchStore } from './batch.store.js';
+import { BulkJobSpec, buildBatchJobId, createBulkJob, mergeBulkJobOptions } from './bulk-jobs.js';
+import { QueueService } from './queue.service.js';
+
+// Estados de BullMQ en los que un job aún no ha empezado y se puede eliminar
+const QUEUED_JOB_STATES = new Set(['waiting', 'delayed', 'prioritized', 'waiting-children']);
+
+/**
+ * Error de una operación sobre un lote: no existe o su estado no la permite
+ */
+export class BatchOperationError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: 404 | 409,
+  ) {
+    super(message);
+    this.name = 'BatchOperationError';
+  }
+}
+
+export interface BatchOperationResult {
+  summary: BatchSummary;
+  affectedJobs: number;
+}
+
+/**
+ * Cancelación, pausa, reanudación y reintento de los lotes.
+ *
+ * BullMQ no permite pausar parte de una cola, así que pausar un lote elimina
+ * sus jobs en espera y reanudarlo los vuelve a encolar con el mismo jobId.
+ * Cancelar guarda los jobs pendientes como `cancelled`, elimina los que están
+ * en espera y pide a los workers que aborten los activos.
+ */
+export class BatchOperations {
+  private static instance: BatchOperations;
+
+  constructor(
+    private readonly batchStore: BatchStore,
+    private readonly queueService: QueueService,
+    private readonly webhookService: WebhookService,
+  ) {}
+
+  public static getInstance(): BatchOperations {
+    if (!BatchOperations.instance) {
+      BatchOperations.instance = new BatchOperations(
+        BatchStore.getInstance(),
+        QueueService.getInstance(),
+        WebhookService.getInstance(),
+      );
+    }
+    return BatchOperations.instance;
+  }
+
+  async cancel(batchId: string): Promise<BatchOperationResult> {
+    const summary = await this.requireStatus(batchId, ['PENDING', 'PROCESSING', 'PAUSED'], 'cancelar');
+    await this.batchStore.setState(batchId, 'cancelled');
+    await this.batchStore.publishCancellation(batchId);
+
+    let affectedJobs = 0;
+    for (const url of await this.getPendingUrls(summary)) {
+      // Se guarda antes de eliminar el job para que un job que ya empezó no
+      // cuente como completado
+      const batch = await this.batchStore.recordJobResult(batchId, url, {
+        status: 'cancelled',
+        error: BATCH_CANCELLED_MESSAGE,
+      });
+      if (!batch) {
+        continue;
+      }
+
+      affectedJobs++;
+      const jobId = buildBatchJobId(batchId, url);
+      await this.removeQueuedJob(jobId);
+      await this.queueService.publishEvent(JOB_CANCELLED_QUEUE_EVENT, { jobId });
+      await this.webhookService.notifyIfBatchFinished(batchId, batch);
+    }
+
+    getLogger().info({ batchId, affectedJobs }, 'Bulk batch cancelled');
+    return this.result(batchId, affectedJobs);
+  }
+
+  async pause(batchId: string): Promise<BatchOperationResult> {
+    const summary = await this.requireStatus(batchId, ['PENDING', 'PROCESSING'], 'pausar');
+    await this.batchStore.setState(batchId, 'paused');
+
+    // Los jobs que ya están activos terminan con normalidad
+    let affectedJobs = 0;
+    for (const url of await this.getPendingUrls(summary)) {
+      if (await this.removeQueuedJob(buildBatchJobId(batchId, url))) {
+        affectedJobs++;
+      }
+    }
+
+    getLogger().info({ batchId, affectedJobs }, 'Bulk batch paused');
+    return this.result(batchId, affectedJobs);
+  }
+
+  async resume(batchId: string): Promise<BatchOperationResult> {
+    const summary = await this.requireStatus(batchId, ['PAUSED'], 'reanudar');
+    await this.batchStore.setState(batchId, null);
+
+    const urls = await this.getPendingUrls(summary);
+    const options = await this.batchStore.getJobOptions(batchId, urls);
+    let affectedJobs = 0;
+    for (const [index, url] of urls.entries()) {
+      // Los jobs que seguían activos al pausar conservan su job en la cola
+      if (!(await this.queueService.getJob(buildBatchJobId(batchId, url)))) {
+        await this.queueService.addJob(createBulkJob(batchId, { url, options: options[index] }, summary.priority));
+        affectedJobs++;
+      }
+    }
+
+    getLogger().info({ batchId, affectedJobs }, 'Bulk batch resumed');
+    return this.result(batchId, affectedJobs);
+  }
+
+  /**
+   * Vuelve a encolar los jobs fallidos, opcionalmente con otras opciones que
+   * se combinan con las que tenía cada uno. Un lote que terminó estando
+   * pausado deja de estarlo, ya que sus jobs vuelven a la cola.
+   */
+  async retryFailed(batchId: string, overrides?: BulkJobOptions): Promise<BatchOperationResult> {
+    const summary = await this.requireStatus(batchId, ['PROCESSING', 'COMPLETED'], 'reintentar');
+    const { results } = await this.batchStore.getResults(batchId, 0, summary.total);
+    const specs: BulkJobSpec[] = results
+      .filter(result => result.status === 'failed')
+      .map(result => ({ url: result.url, options: mergeBulkJobOptions(result.options, overrides) }));
+
+    if (specs.length > 0) {
+      // El job fallido conserva su jobId: hay que eliminarlo antes de volver a encolarlo
+      await Promise.all(specs.map(spec => this.removeJob(buildBatchJobId(batchId, spec.url))));
+      await this.batchStore.setState(batchId, null);
+      await this.batchStore.setJobOptions(batchId, specs);
+      await this.batchStore.reopenJobs(batchId, specs.map(spec => spec.url));
+      await Promise.all(specs.map(spec => this.queueService.addJob(createBulkJob(batchId, spec, summary.priority))));
+    }
+
+    getLogger().info({ batchId, affectedJobs: specs.length }, 'Failed jobs of bulk batch re-enqueued');
+    return this.result(batchId, specs.length);
+  }
+
+  private async requireBatch(batchId: string): Promise<BatchSummary> {
+    const summary = await this.batchStore.getSummary(batchId);
+    if (!summary) {
+      throw new BatchOperationError(`No se encontró un lote con el ID: ${batchId}`, 404);
+    }
+    return summary;
+  }
+
+  private async requireStatus(
+    batchId: string,
+    allowed: BatchSummary['status'][],
+    action: string,
+  ): Promise<BatchSummary> {
+    const summary = await this.requireBatch(batchId);
+    if (!allowed.includes(summary.status)) {
+      throw new BatchOperationError(`No se puede ${action} un lote en estado ${summary.status}`, 409);
+    }
+    return summary;
+  }
+
+  private async getPendingUrls(summary: BatchSummary): Promise<string[]> {
+    const { results } = await this.batchStore.getResults(summary.batchId, 0, summary.total);
+    return results.filter(result => result.status === 'pending').map(result => result.url);
+  }
+
+  /**
+   * Elimina el job si aún no ha empezado. Devuelve si se eliminó.
+   */
+  private async removeQueuedJob(jobId: string): Promise<boolean> {
+    const job = await this.queueService.getJob(jobId);
+    if (!job || !QUEUED_JOB_STATES.has(await job.getState())) {
+      return false;
+    }
+    return this.removeJob(jobId);
+  }
+
+  private async removeJob(jobId: string): Promise<boolean> {
+    try {
+      const job = await this.queueService.getJob(jobId);
+      await job?.remove();
+      return Boolean(job);
+    } catch (error) {
+      // Un job que un worker acaba de tomar está bloqueado y no se puede eliminar
+      getLogger().warn({ jobId, error }, 'Could not remove bulk job');
+      return false;
+    }
+  }
+
+  private async result(batchId: string, affectedJobs: number): Promise<BatchOperationResult> {
+    return { summary: await this.requireBatch(batchId), affectedJobs };
+  }
+}
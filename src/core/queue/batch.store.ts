@@ -0,0 +1,485 @@
+import { Redis } from 'ioredis';
+import { getConfig } from '../../config/env.js';
+import {
+  BatchSummary,
+  BulkJobOptions,
+  BulkJobResult,
+  BulkPriority,
+  ResolveResponse,
+  ResolverErrorCode,
+  WebhookDelivery,
+} from '../../types/dto.js';
+import { getRedisClient } from '../redis/redis.client.js';
+import { BulkJobSpec } from './bulk-jobs.js';
+
+const KEY_PREFIX = 'bulk:batch:';
+const INDEX_KEY = 'bulk:batches';
+const MAX_RECORDED_DELIVERIES = 200;
+// Canal por el que la API pide a los workers abortar los jobs activos de un lote
+const CANCELLATION_CHANNEL = 'bulk:cancellations';
+
+export const BATCH_CANCELLED_MESSAGE = 'Batch cancelled';
+
+/**
+ * Guarda el resultado final de un job y actualiza los contadores del lote,
+ * marcándolo como terminado cuando todos sus jobs han acabado. Un resultado
+ * ya guardado no se vuelve a contar. Solo la llamada que termina el lote
+ * recibe finished=1. Devuelve {finished, completados, fallidos, cancelados}, con
+ * finished=-1 si el lote no existe y -2 si el resultado ya estaba guardado.
+ */
+const RECORD_JOB_RESULT_SCRIPT = `
+local batchKey = KEYS[1]
+local resultsKey = KEYS[2]
+if redis.call('EXISTS', batchKey) == 0 then
+  return {-1, 0, 0, 0}
+end
+if redis.call('HSETNX', resultsKey, ARGV[3], ARGV[4]) == 0 then
+  return {-2, 0, 0, 0}
+end
+redis.call('EXPIRE', resultsKey, ARGV[5])
+redis.call('HINCRBY', batchKey, ARGV[1], 1)
+if tonumber(redis.call('HGET', batchKey, 'active') or '0') > 0 then
+  redis.call('HINCRBY', batchKey, 'active', -1)
+end
+local completed = tonumber(redis.call('HGET', batchKey, 'completed') or '0')
+local failed = tonumber(redis.call('HGET', batchKey, 'failed') or '0')
+local cancelled = tonumber(redis.call('HGET', batchKey, 'cancelled') or '0')
+local total = tonumber(redis.call('HGET', batchKey, 'total'))
+local finished = 0
+if completed + failed + cancelled >= total and redis.call('HSETNX', batchKey, 'finishedAt', ARGV[2]) == 1 then
+  finished = 1
+end
+return {finished, completed, failed, cancelled}
+`;
+
+/**
+ * Descarta el resultado guardado de las URLs indicadas para volver a
+ * procesarlas: descuenta su estado y deja el lote sin terminar. Devuelve
+ * cuántas se reabrieron.
+ */
+const REOPEN_JOBS_SCRIPT = `
+local reopened = 0
+for _, url in ipairs(ARGV) do
+  local raw = redis.call('HGET', KEYS[2], url)
+  if raw then
+    local entry = cjson.decode(raw)
+    redis.call('HDEL', KEYS[2], url)
+    redis.call('HINCRBY', KEYS[1], entry.status, -1)
+    reopened = reopened + 1
+  end
+end
+if reopened > 0 then
+  redis.call('HDEL', KEYS[1], 'finishedAt')
+end
+return reopened
+`;
+
+/**
+ * Ajusta el contador de jobs activos sin bajar de cero
+ */
+const ADJUST_ACTIVE_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then
+  return 0
+end
+local active = tonumber(redis.call('HGET', KEYS[1], 'active') or '0') + tonumber(ARGV[1])
+if active < 0 then
+  active = 0
+end
+redis.call('HSET', KEYS[1], 'active', active)
+return active
+`;
+
+export interface BatchWebhook {
+  callbackUrl: string;
+  callbackSecret: string;
+}
+
+export interface CreateBatchInput {
+  batchId: string;
+  jobs: BulkJobSpec[];
+  ownerId: string;
+  priority: BulkPriority;
+  webhook?: BatchWebhook;
+}
+
+export type BatchJobOutcome =
+  | { status: 'completed'; result: ResolveResponse }
+  | { status: 'failed' | 'cancelled'; error: string; errorCode?: ResolverErrorCode };
+
+// Estado fijado por las operaciones sobre el lote; sin estado, el lote avanza con normalidad
+export type BatchState = 'paused' | 'cancelled';
+
+export interface BatchJobResult {
+  batchFinished: boolean;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  total: number;
+  createdAt: number;
+  hasWebhook: boolean;
+}
+
+export interface BatchResultsPage {
+  total: number;
+  results: BulkJobResult[];
+}
+
+/**
+ * Registro de los lotes de resolución en Redis, independiente de la
+ * retención de BullMQ.
+ *
+ * - `bulk:batch:<id>`: hash con propietario, prioridad, total, creación y fin, estado
+ *   (pausado o cancelado), contadores de jobs activos, completados, fallidos
+ *   y cancelados y, si lo hay, el webhook del lote
+ * - `bulk:batch:<id>:urls`: URLs del lote en el orden en que se enviaron
+ * - `bulk:batch:<id>:options`: opciones efectivas (JSON) de las URLs que las tienen
+ * - `bulk:batch:<id>:results`: resultado final de cada job (JSON) por URL
+ * - `bulk:batch:<id>:deliveries`: intentos de entrega del webhook (JSON)
+ * - `bulk:batches` y `bulk:batches:<propietario>`: índices por fecha de creación
+ * - `bulk:cancellations`: canal pub/sub para abortar los jobs activos de un lote
+ *
+ * Las claves caducan tras BULK_BATCH_RETENTION_SECONDS.
+ */
+export class BatchStore {
+  private static instance: BatchStore;
+
+  private constructor(
+    private readonly redis: Redis,
+    private readonly retentionSeconds: number,
+  ) {}
+
+  public static getInstance(): BatchStore {
+    if (!BatchStore.instance) {
+      BatchStore.instance = new BatchStore(getRedisClient(), getConfig().BULK_BATCH_RETENTION_SECONDS);
+    }
+    return BatchStore.instance;
+  }
+
+  async create(input: CreateBatchInput): Promise<void> {
+    const { batchId, jobs, ownerId, priority, webhook } = input;
+    const key = this.batchKey(batchId);
+    const now = Date.now();
+    const fields: Record<string, string | number> = {
+      ownerId,
+      priority,
+      total: jobs.length,
+      createdAt: now,
+      active: 0,
+      completed: 0,
+      failed: 0,
+      cancelled: 0,
+    };
+    if (webhook) {
+      fields.callbackUrl = webhook.callbackUrl;
+      fields.callbackSecret = webhook.callbackSecret;
+    }
+
+    // Las entradas de los índices cuyo lote ya caducó se eliminan al crear otro
+    const expiredBefore = now - this.retentionSeconds * 1000;
+    const transaction = this.redis
+      .multi()
+      .hset(key, fields)
+      .expire(key, this.retentionSeconds)
+      .rpush(`${key}:urls`, ...jobs.map(job => job.url))
+      .expire(`${key}:urls`, this.retentionSeconds);
+
+    const jobOptions = jobs.filter(job => job.options);
+    if (jobOptions.length > 0) {
+      transaction
+        .hset(`${key}:options`, Object.fromEntries(jobOptions.map(job => [job.url, JSON.stringify(job.options)])))
+        .expire(`${key}:options`, this.retentionSeconds);
+    }
+
+    await transaction
+      .zadd(INDEX_KEY, now, batchId)
+      .zadd(this.ownerIndexKey(ownerId), now, batchId)
+      .zremrangebyscore(INDEX_KEY, 0, expiredBefore)
+      .zremrangebyscore(this.ownerIndexKey(ownerId), 0, expiredBefore)
+      .exec();
+  }
+
+  async getSummary(batchId: string): Promise<BatchSummary | null> {
+    const fields = await this.redis.hgetall(this.batchKey(batchId));
+    if (!fields.total) {
+      return null;
+    }
+    return BatchStore.toSummary(batchId, fields);
+  }
+
+  /**
+   * Lista los lotes del más reciente al más antiguo. Sin propietario se
+   * listan todos.
+   */
+  async list(offset: number, limit: number, ownerId?: string): Promise<{ total: number; batches: BatchSummary[] }> {
+    const indexKey = ownerId ? this.ownerIndexKey(ownerId) : INDEX_KEY;
+    const expiredBefore = Date.now() - this.retentionSeconds * 1000;
+    await this.redis.zremrangebyscore(indexKey, 0, expiredBefore);
+
+    const [total, batchIds] = await Promise.all([
+      this.redis.zcard(indexKey),
+      this.redis.zrevrange(indexKey, offset, offset + limit - 1),
+    ]);
+
+    const pipeline = this.redis.pipeline();
+    batchIds.forEach(batchId => pipeline.hgetall(this.batchKey(batchId)));
+    const replies = (await pipeline.exec()) ?? [];
+
+    const batches: BatchSummary[] = [];
+    replies.forEach(([error, fields], index) => {
+      const record = fields as Record<string, string> | null;
+      if (!error && record?.total) {
+        batches.push(BatchStore.toSummary(batchIds[index], record));
+      }
+    });
+
+    return { total, batches };
+  }
+
+  async getOwner(batchId: string): Promise<string | null> {
+    return this.redis.hget(this.batchKey(batchId), 'ownerId');
+  }
+
+  async getUrls(batchId: string): Promise<string[]> {
+    return this.redis.lrange(`${this.batchKey(batchId)}:urls`, 0, -1);
+  }
+
+  /**
+   * Página de resultados en el orden de las URLs del lote. Los jobs que aún
+   * no han terminado aparecen como `pending`.
+   */
+  async getResults(batchId: string, offset: number, limit: number): Promise<BatchResultsPage> {
+    const key = this.batchKey(batchId);
+    const [total, urls] = await Promise.all([
+      this.redis.llen(`${key}:urls`),
+      this.redis.lrange(`${key}:urls`, offset, offset + limit - 1),
+    ]);
+    if (urls.length === 0) {
+      return { total, results: [] };
+    }
+
+    const [stored, options] = await Promise.all([
+      this.redis.hmget(`${key}:results`, ...urls),
+      this.redis.hmget(`${key}:options`, ...urls),
+    ]);
+    return {
+      total,
+      results: urls.map((url, index) => {
+        const raw = stored[index];
+        const result: BulkJobResult = raw ? (JSON.parse(raw) as BulkJobResult) : { url, status: 'pending' };
+        const rawOptions = options[index];
+        if (rawOptions) {
+          result.options = JSON.parse(rawOptions) as BulkJobOptions;
+        }
+        return result;
+      }),
+    };
+  }
+
+  /**
+   * Resultado guardado del job de una URL del lote, o null si aún no ha terminado
+   */
+  async getJobResult(batchId: string, url: string): Promise<BulkJobResult | null> {
+    const key = this.batchKey(batchId);
+    const [raw, rawOptions] = await Promise.all([
+      this.redis.hget(`${key}:results`, url),
+      this.redis.hget(`${key}:options`, url),
+    ]);
+    if (!raw) {
+      return null;
+    }
+    const result = JSON.parse(raw) as BulkJobResult;
+    if (rawOptions) {
+      result.options = JSON.parse(rawOptions) as BulkJobOptions;
+    }
+    return result;
+  }
+
+  async markJobActive(batchId: string): Promise<void> {
+    await this.redis.eval(ADJUST_ACTIVE_SCRIPT, 1, this.batchKey(batchId), 1);
+  }
+
+  /**
+   * El job falló pero se reintentará: deja de contar como activo
+   */
+  async markJobRetrying(batchId: string): Promise<void> {
+    await this.redis.eval(ADJUST_ACTIVE_SCRIPT, 1, this.batchKey(batchId), -1);
+  }
+
+  /**
+   * Guarda el resultado final de un job del lote. Devuelve null si el lote no
+   * existe (p. ej. ya caducado) o si el resultado del job ya estaba guardado.
+   */
+  async recordJobResult(
+    batchId: string,
+    url: string,
+    outcome: BatchJobOutcome,
+  ): Promise<BatchJobResult | null> {
+    const key = this.batchKey(batchId);
+    const entry: BulkJobResult = { url, ...outcome, finishedAt: new Date().toISOString() };
+    const [finished, completed, failed, cancelled] = (await this.redis.eval(
+      RECORD_JOB_RESULT_SCRIPT,
+      2,
+      key,
+      `${key}:results`,
+      outcome.status,
+      Date.now(),
+      url,
+      JSON.stringify(entry),
+      this.retentionSeconds,
+    )) as [number, number, number, number];
+
+    if (finished < 0) {
+      return null;
+    }
+
+    const [total, createdAt, callbackUrl] = await this.redis.hmget(key, 'total', 'createdAt', 'callbackUrl');
+    return {
+      batchFinished: finished === 1,
+      completed,
+      failed,
+      cancelled,
+      total: Number(total),
+      createdAt: Number(createdAt),
+      hasWebhook: Boolean(callbackUrl),
+    };
+  }
+
+  /**
+   * Vuelve a abrir los jobs de las URLs indicadas descartando su resultado
+   */
+  async reopenJobs(batchId: string, urls: string[]): Promise<number> {
+    const key = this.batchKey(batchId);
+    return (await this.redis.eval(REOPEN_JOBS_SCRIPT, 2, key, `${key}:results`, ...urls)) as number;
+  }
+
+  async getState(batchId: string): Promise<BatchState | null> {
+    return (await this.redis.hget(this.batchKey(batchId), 'state')) as BatchState | null;
+  }
+
+  async setState(batchId: string, state: BatchState | null): Promise<void> {
+    const key = this.batchKey(batchId);
+    if (state) {
+      await this.redis.hset(key, 'state', state);
+    } else {
+      await this.redis.hdel(key, 'state');
+    }
+  }
+
+  async getJobOptions(batchId: string, urls: string[]): Promise<(BulkJobOptions | undefined)[]> {
+    const raw = await this.redis.hmget(`${this.batchKey(batchId)}:options`, ...urls);
+    return raw.map(entry => (entry ? (JSON.parse(entry) as BulkJobOptions) : undefined));
+  }
+
+  async setJobOptions(batchId: string, jobs: BulkJobSpec[]): Promise<void> {
+    const key = `${this.batchKey(batchId)}:options`;
+    const withOptions = jobs.filter(job => job.options);
+    if (withOptions.length === 0) {
+      return;
+    }
+    await this.redis
+      .multi()
+      .hset(key, Object.fromEntries(withOptions.map(job => [job.url, JSON.stringify(job.options)])))
+      .expire(key, this.retentionSeconds)
+      .exec();
+  }
+
+  /**
+   * Pide a los workers que aborten los jobs activos del lote
+   */
+  async publishCancellation(batchId: string): Promise<void> {
+    await this.redis.publish(CANCELLATION_CHANNEL, batchId);
+  }
+
+  /**
+   * Escucha las cancelaciones con una conexión propia. Devuelve la función
+   * que cierra la suscripción.
+   */
+  async subscribeToCancellations(onCancel: (batchId: string) => void): Promise<() => Promise<void>> {
+    const subscriber = this.redis.duplicate();
+    subscriber.on('message', (channel: string, batchId: string) => {
+      if (channel === CANCELLATION_CHANNEL) {
+        onCancel(batchId);
+      }
+    });
+    await subscriber.subscribe(CANCELLATION_CHANNEL);
+    return async () => {
+      await subscriber.quit();
+    };
+  }
+
+  async getWebhook(batchId: string): Promise<BatchWebhook | null> {
+    const [callbackUrl, callbackSecret] = await this.redis.hmget(
+      this.batchKey(batchId),
+      'callbackUrl',
+      'callbackSecret',
+    );
+    return callbackUrl && callbackSecret ? { callbackUrl, callbackSecret } : null;
+  }
+
+  async recordDelivery(batchId: string, delivery: WebhookDelivery): Promise<void> {
+    const key = `${this.batchKey(batchId)}:deliveries`;
+    await this.redis
+      .multi()
+      .rpush(key, JSON.stringify(delivery))
+      .ltrim(key, -MAX_RECORDED_DELIVERIES, -1)
+      .expire(key, this.retentionSeconds)
+      .exec();
+  }
+
+  async getDeliveries(batchId: string): Promise<WebhookDelivery[]> {
+    const raw = await this.redis.lrange(`${this.batchKey(batchId)}:deliveries`, 0, -1);
+    return raw.map(entry => JSON.parse(entry) as WebhookDelivery);
+  }
+
+  /**
+   * Resumen de un lote a partir de los campos de su hash
+   */
+  static toSummary(batchId: string, fields: Record<string, string>): BatchSummary {
+    const total = Number(fields.total);
+    const active = Number(fields.active ?? 0);
+    const completed = Number(fields.completed ?? 0);
+    const failed = Number(fields.failed ?? 0);
+    const cancelled = Number(fields.cancelled ?? 0);
+    const finished = completed + failed + cancelled;
+    const createdAt = Number(fields.createdAt);
+    const finishedAt = fields.finishedAt ? Number(fields.finishedAt) : null;
+
+    let status: BatchSummary['status'] = 'PROCESSING';
+    if (fields.state === 'cancelled') {
+      status = 'CANCELLED';
+    } else if (finishedAt !== null) {
+      status = 'COMPLETED';
+    } else if (fields.state === 'paused') {
+      status = 'PAUSED';
+    } else if (active + finished === 0) {
+      status = 'PENDING';
+    }
+
+    return {
+      batchId,
+      status,
+      // Los lotes registrados antes de existir la prioridad no la guardan
+      priority: (fields.priority as BulkPriority | undefined) ?? 'normal',
+      total,
+      counts: {
+        waiting: Math.max(0, total - active - finished),
+        active,
+        completed,
+        failed,
+        cancelled,
+      },
+      progress: total > 0 ? Math.round((finished / total) * 100) : 100,
+      createdAt: new Date(createdAt).toISOString(),
+      finishedAt: finishedAt !== null ? new Date(finishedAt).toISOString() : undefined,
+      durationMs: finishedAt !== null ? finishedAt - createdAt : undefined,
+    };
+  }
+
+  private batchKey(batchId: string): string {
+    return `${KEY_PREFIX}${batchId}`;
+  }
+
+  private ownerIndexKey(ownerId: string): string {
+    return `${INDEX_KEY}:${ownerId}`;
+  }
+}
@@ -0,0 +1,86 @@
+import crypto from 'crypto';
+import { BulkJobOptions, BulkPriority, BulkUrlEntry } from '../../types/dto.js';
+import { IJob } from '../contracts/queue.service.js';
+import { MAX_RESOLVE_ATTEMPTS } from '../resolver/resolver-errors.js';
+
+const HLS_RESOLVER_JOB = 'hls-resolve-job';
+// Estrategia de backoff registrada por el worker (resolverBackoffStrategy)
+const RESOLVER_BACKOFF = 'resolver';
+
+// En BullMQ un número menor se procesa antes
+const BULK_JOB_PRIORITIES: Record<BulkPriority, number> = {
+  high: 1,
+  normal: 5,
+  low: 10,
+};
+
+export interface BulkJobSpec {
+  url: string;
+  // Ausente cuando ni el lote ni la URL indican opciones
+  options?: BulkJobOptions;
+}
+
+export interface BulkJobData extends BulkJobSpec {
+  batchId: string;
+}
+
+/**
+ * ID del job de una URL del lote. Es determinista para que una URL no se
+ * encole dos veces en el mismo lote.
+ */
+export function buildBatchJobId(batchId: string, url: string): string {
+  return `${batchId}-${crypto.createHash('sha256').update(url).digest('hex')}`;
+}
+
+/**
+ * Job de la cola `hls-resolver` para una URL del lote, con la prioridad del
+ * lote. Un job con el mismo ID solo se puede volver a encolar después de
+ * eliminar el anterior.
+ */
+export function createBulkJob(batchId: string, spec: BulkJobSpec, priority: BulkPriority): IJob<BulkJobData> {
+  return {
+    name: HLS_RESOLVER_JOB,
+    data: { url: spec.url, batchId, options: spec.options },
+    opts: {
+      jobId: buildBatchJobId(batchId, spec.url),
+      priority: BULK_JOB_PRIORITIES[priority],
+      // El worker decide con la política del código de error si se reintenta
+      attempts: MAX_RESOLVE_ATTEMPTS,
+      backoff: { type: RESOLVER_BACKOFF },
+    },
+  };
+}
+
+/**
+ * Combina las opciones del lote con las de una URL. Las de la URL tienen
+ * prioridad; las cabeceras extra se combinan en lugar de sustituirse.
+ */
+export function mergeBulkJobOptions(
+  defaults: BulkJobOptions | undefined,
+  overrides: BulkJobOptions | undefined,
+): BulkJobOptions | undefined {
+  if (!defaults && !overrides) {
+    return undefined;
+  }
+
+  const merged: BulkJobOptions = { ...defaults, ...overrides };
+  if (defaults?.extraHeaders && overrides?.extraHeaders) {
+    merged.extraHeaders = { ...defaults.extraHeaders, ...overrides.extraHeaders };
+  }
+  return merged;
+}
+
+/**
+ * Un job por URL con sus opciones efectivas. Las URLs repetidas comparten
+ * job, así que la primera aparición determina sus opciones.
+ */
+export function buildBulkJobSpecs(entries: BulkUrlEntry[], defaults?: BulkJobOptions): BulkJobSpec[] {
+  const specs = new Map<string, BulkJobSpec>();
+  for (const entry of entries) {
+    const { url, options } = typeof entry === 'string' ? { url: entry, options: undefined } : entry;
+    if (!specs.has(url)) {
+      specs.set(url, { url, options: mergeBulkJobOptions(defaults, options) });
+    }
+  }
+  return [...specs.values()];
+}
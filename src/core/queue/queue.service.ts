@@ -1,23 +1,27 @@
-import { Queue, Job } from 'bullmq';
+import { Queue, Job, QueueEvents, QueueEventsProducer } from 'bullmq';
 import { IQueueService, IJob } from '../contracts/queue.service.js';
 import { getConfig, EnvConfig } from '../../config/env.js';
 import { ConnectionOptions } from 'tls';
 
 const HLS_RESOLVER_QUEUE = 'hls-resolver';
+// Longitud máxima por defecto del stream de eventos de BullMQ; los eventos propios no deben recortarlo más
+const MAX_QUEUE_EVENTS = 10000;
 
 export class QueueService implements IQueueService {
   private static instance: QueueService;
   private queue: Queue;
+  private connection: ConnectionOptions;
+  private eventsProducer?: QueueEventsProducer;
 
   private constructor(config: EnvConfig) {
     const redisUrl = new URL(config.REDIS_URL);
-    const connection: ConnectionOptions = {
+    this.connection = {
       host: redisUrl.hostname,
       port: parseInt(redisUrl.port, 10),
       // Añade aquí más opciones si tu Redis requiere autenticación o SSL
     };
 
-    this.queue = new Queue(HLS_RESOLVER_QUEUE, { connection });
+    this.queue = new Queue(HLS_RESOLVER_QUEUE, { connection: this.connection });
   }
 
   public static getInstance(): QueueService {
@@ -38,9 +42,42 @@ export class QueueService implements IQueueService {
   }
 
   public async close(): Promise<void> {
+    await this.eventsProducer?.close();
     await this.queue.close();
   }
 
+  /**
+   * ID del último evento del stream de eventos de la cola, o '0-0' si está vacío
+   */
+  public async getLastEventId(): Promise<string> {
+    const client = await this.queue.client;
+    const [last] = await client.xrevrange(this.queue.keys.events, '+', '-', 'COUNT', 1);
+    return last ? last[0] : '0-0';
+  }
+
+  /**
+   * Crea un lector de eventos de la cola que empieza después de `lastEventId`.
+   * Usa su propia conexión bloqueante; se arranca con `run()` y debe cerrarse.
+   */
+  public createQueueEvents(lastEventId: string): QueueEvents {
+    return new QueueEvents(HLS_RESOLVER_QUEUE, {
+      connection: this.connection,
+      lastEventId,
+      autorun: false,
+    });
+  }
+
+  /**
+   * Publica un evento propio en el stream de eventos de la cola para los
+   * lectores de QueueEvents
+   */
+  public async publishEvent(eventName: string, args: Record<string, string>): Promise<void> {
+    if (!this.eventsProducer) {
+      this.eventsProducer = new QueueEventsProducer(HLS_RESOLVER_QUEUE, { connection: this.connection });
+    }
+    await this.eventsProducer.publishEvent({ eventName, ...args }, MAX_QUEUE_EVENTS);
+  }
+
   public getQueue(): Queue {
     return this.queue;
   }
@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+import { Redis } from 'ioredis';
+import { getLogger } from '../observability/logger.js';
+
+const KEY_PREFIX = 'semaphore:';
+
+/**
+ * Descarta las reservas caducadas y añade una nueva si queda hueco.
+ * ARGV: ahora, caducidad de la reserva, límite, token, TTL de la clave (ms)
+ */
+const ACQUIRE_SCRIPT = `
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', ARGV[1])
+if redis.call('ZCARD', KEYS[1]) >= tonumber(ARGV[3]) then
+  return 0
+end
+redis.call('ZADD', KEYS[1], ARGV[2], ARGV[4])
+redis.call('PEXPIRE', KEYS[1], ARGV[5])
+return 1
+`;
+
+/**
+ * Renueva la reserva solo si sigue existiendo
+ */
+const EXTEND_SCRIPT = `
+if redis.call('ZSCORE', KEYS[1], ARGV[2]) then
+  redis.call('ZADD', KEYS[1], ARGV[1], ARGV[2])
+  return redis.call('PEXPIRE', KEYS[1], ARGV[3])
+end
+return 0
+`;
+
+export interface RedisSemaphoreOptions {
+  // Reservas simultáneas permitidas por clave
+  limit: number;
+  // Caducidad de una reserva; se renueva mientras su dueño sigue trabajando
+  leaseTtlMs: number;
+}
+
+/**
+ * Semáforo compartido entre procesos: como mucho `limit` reservas
+ * simultáneas por clave.
+ *
+ * - `semaphore:<clave>`: sorted set de reservas puntuadas por su caducidad
+ *
+ * Las reservas de un proceso que muere sin liberarlas caducan solas tras
+ * `leaseTtlMs`.
+ */
+export class RedisSemaphore {
+  constructor(
+    private readonly redis: Redis,
+    private readonly options: RedisSemaphoreOptions,
+  ) {}
+
+  /**
+   * Reserva un hueco sin esperar. Devuelve la función que lo libera, o null
+   * si la clave ya está al límite.
+   */
+  async tryAcquire(key: string): Promise<(() => Promise<void>) | null> {
+    const semaphoreKey = `${KEY_PREFIX}${key}`;
+    const token = crypto.randomUUID();
+    const { limit, leaseTtlMs } = this.options;
+    const now = Date.now();
+
+    const acquired = await this.redis.eval(
+      ACQUIRE_SCRIPT,
+      1,
+      semaphoreKey,
+      now,
+      now + leaseTtlMs,
+      limit,
+      token,
+      leaseTtlMs,
+    );
+    if (acquired !== 1) {
+      return null;
+    }
+
+    const heartbeat = setInterval(() => {
+      this.redis
+        .eval(EXTEND_SCRIPT, 1, semaphoreKey, Date.now() + leaseTtlMs, token, leaseTtlMs)
+        .catch(error => getLogger().warn({ semaphoreKey, error }, 'Failed to extend semaphore lease'));
+    }, Math.max(1000, Math.floor(leaseTtlMs / 3)));
+
+    return async () => {
+      clearInterval(heartbeat);
+      await this.redis
+        .zrem(semaphoreKey, token)
+        .catch(error => getLogger().warn({ semaphoreKey, error }, 'Failed to release semaphore lease'));
+    };
+  }
+}
@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import { Redis } from 'ioredis';
+import { getLogger } from '../observability/logger.js';
+
+const KEY_PREFIX = 'singleflight:';
+// Contador compartido de ejecuciones servidas por el resultado de otro proceso
+export const SINGLE_FLIGHT_COALESCED_KEY = `${KEY_PREFIX}coalesced`;
+
+/**
+ * Libera el lock solo si sigue perteneciendo a quien lo adquirió
+ */
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Renueva el TTL del lock solo si sigue perteneciendo a quien lo adquirió
+ */
+const EXTEND_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+export interface RedisSingleFlightOptions {
+  // TTL del lock; se renueva mientras el líder sigue trabajando
+  lockTtlMs: number;
+  // Tiempo que se conserva el resultado para los procesos que esperan
+  resultTtlMs: number;
+  // Espera máxima de un seguidor antes de ejecutar la tarea por su cuenta
+  waitTimeoutMs: number;
+  pollIntervalMs: number;
+}
+
+export interface SingleFlightResult<T> {
+  value: T;
+  coalesced: boolean;
+}
+
+/**
+ * Agrupa entre procesos las ejecuciones de una misma tarea con un lock en Redis.
+ *
+ * - `singleflight:lock:<clave>`: lock del proceso que ejecuta la tarea
+ * - `singleflight:result:<clave>`: resultado JSON publicado para los que esperan
+ * - `singleflight:coalesced`: número de ejecuciones evitadas
+ *
+ * Solo se comparten los éxitos: si el líder falla, el lock se libera y el
+ * siguiente proceso en espera ejecuta la tarea.
+ */
+export class RedisSingleFlight {
+  constructor(
+    private readonly redis: Redis,
+    private readonly options: RedisSingleFlightOptions,
+  ) {}
+
+  async run<T>(key: string, task: () => Promise<T>): Promise<SingleFlightResult<T>> {
+    const lockKey = `${KEY_PREFIX}lock:${key}`;
+    const resultKey = `${KEY_PREFIX}result:${key}`;
+    const token = crypto.randomUUID();
+    const deadline = Date.now() + this.options.waitTimeoutMs;
+
+    while (Date.now() < deadline) {
+      const shared = await this.redis.get(resultKey);
+      if (shared) {
+        this.redis
+          .incr(SINGLE_FLIGHT_COALESCED_KEY)
+          .catch(error => getLogger().warn({ error }, 'Failed to count coalesced execution'));
+        return { value: JSON.parse(shared) as T, coalesced: true };
+      }
+
+      const acquired = await this.redis.set(lockKey, token, 'PX', this.options.lockTtlMs, 'NX');
+      if (acquired === 'OK') {
+        return { value: await this.runAsLeader(lockKey, resultKey, token, task), coalesced: false };
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.options.pollIntervalMs));
+    }
+
+    getLogger().warn({ key, waitTimeoutMs: this.options.waitTimeoutMs }, 'Single-flight wait timed out, running task');
+    return { value: await task(), coalesced: false };
+  }
+
+  private async runAsLeader<T>(lockKey: string, resultKey: string, token: string, task: () => Promise<T>): Promise<T> {
+    const heartbeat = setInterval(() => {
+      this.redis
+        .eval(EXTEND_LOCK_SCRIPT, 1, lockKey, token, this.options.lockTtlMs)
+        .catch(error => getLogger().warn({ lockKey, error }, 'Failed to extend single-flight lock'));
+    }, Math.max(1000, Math.floor(this.options.lockTtlMs / 3)));
+
+    try {
+      const value = await task();
+      await this.redis
+        .set(resultKey, JSON.stringify(value), 'PX', this.options.resultTtlMs)
+        .catch(error => getLogger().warn({ resultKey, error }, 'Failed to publish single-flight result'));
+      return value;
+    } finally {
+      clearInterval(heartbeat);
+      await this.redis
+        .eval(RELEASE_LOCK_SCRIPT, 1, lockKey, token)
+        .catch(error => getLogger().warn({ lockKey, error }, 'Failed to release single-flight lock'));
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { Redis } from 'ioredis';
+import { getConfig } from '../../config/env.js';
+import { getLogger } from '../observability/logger.js';
+
+let redisInstance: Redis | null = null;
+
+/**
+ * Cliente Redis compartido por los componentes que necesitan estado entre
+ * réplicas (rate limiting, caches...). Se crea de forma perezosa a partir de REDIS_URL.
+ */
+export function getRedisClient(): Redis {
+  if (!redisInstance) {
+    redisInstance = new Redis(getConfig().REDIS_URL, {
+      // Fallar rápido en vez de encolar comandos indefinidamente si Redis no responde
+      maxRetriesPerRequest: 1,
+    });
+
+    redisInstance.on('error', (error) => {
+      getLogger().warn({ error: error.message }, 'Redis connection error');
+    });
+  }
+  return redisInstance;
+}
+
+/**
+ * Cierra la conexión compartida con Redis si existe
+ */
+export async function closeRedisClient(): Promise<void> {
+  if (redisInstance) {
+    await redisInstance.quit();
+    redisInstance = null;
+  }
+}
@@ -0,0 +1,227 @@
+import type { ElementHandle, Frame, HTTPRequest, KeyInput, Page } from 'puppeteer';
+import {
+  ActivationRecipe,
+  RecipeReport,
+  RecipeSnippetName,
+  RecipeStep,
+} from '../../types/dto.js';
+import { getLogger } from '../observability/logger.js';
+
+const DEFAULT_STEP_TIMEOUT_MS = 5000;
+const MAX_SEEN_REQUESTS = 1000;
+
+/**
+ * Fragmentos que una receta puede ejecutar por nombre. Se evalúan dentro de
+ * la página, así que no pueden referenciar nada del ámbito de Node.
+ */
+const RECIPE_SNIPPETS: Record<RecipeSnippetName, () => number> = {
+  // Elimina capas fijas que cubren la mayor parte del viewport sin contener el reproductor
+  'remove-overlays': () => {
+    let removed = 0;
+    for (const el of Array.from(document.querySelectorAll<HTMLElement>('body *'))) {
+      const style = window.getComputedStyle(el);
+      if ((style.position !== 'fixed' && style.position !== 'absolute') || !(parseInt(style.zIndex, 10) > 100)) {
+        continue;
+      }
+      const rect = el.getBoundingClientRect();
+      if (
+        rect.width >= window.innerWidth * 0.5 &&
+        rect.height >= window.innerHeight * 0.5 &&
+        !el.querySelector('video, iframe')
+      ) {
+        el.remove();
+        removed++;
+      }
+    }
+    return removed;
+  },
+  'play-videos': () => {
+    const videos = Array.from(document.querySelectorAll('video'));
+    videos.forEach(video => {
+      video.muted = true;
+      video.play().catch(() => {});
+    });
+    return videos.length;
+  },
+  'scroll-to-player': () => {
+    const player = document.querySelector('video') ?? document.querySelector('iframe');
+    player?.scrollIntoView({ block: 'center' });
+    return player ? 1 : 0;
+  },
+  'accept-cookies': () => {
+    const labels = ['accept', 'accept all', 'aceptar', 'aceptar todo', 'agree', 'i agree', 'ok', 'entendido'];
+    for (const el of Array.from(document.querySelectorAll<HTMLElement>('button, a[role="button"], [role="button"]'))) {
+      const text = (el.innerText || '').trim().toLowerCase();
+      if (labels.includes(text)) {
+        el.click();
+        return 1;
+      }
+    }
+    return 0;
+  },
+};
+
+export interface RecipeRunResult {
+  report: RecipeReport;
+  clicks: number;
+}
+
+/**
+ * Ejecuta una receta de activación declarativa paso a paso sobre una página,
+ * midiendo la duración de cada paso.
+ */
+export class ActivationRecipeRunner {
+  private clicks = 0;
+  private seenRequests: string[] = [];
+
+  /**
+   * @param getCandidateCount Número de manifiestos detectados hasta el momento
+   */
+  constructor(
+    private readonly page: Page,
+    private readonly sessionId: string,
+    private readonly getCandidateCount: () => number,
+  ) {}
+
+  async run(recipe: ActivationRecipe): Promise<RecipeRunResult> {
+    const initialCandidates = this.getCandidateCount();
+    const steps: RecipeReport['steps'] = [];
+    let aborted = false;
+    let detected = false;
+
+    // Las requests se registran desde el inicio para que waitForNetwork
+    // encuentre también las que llegaron durante pasos anteriores
+    const onRequest = (request: HTTPRequest): void => {
+      this.seenRequests.push(request.url());
+      if (this.seenRequests.length > MAX_SEEN_REQUESTS) {
+        this.seenRequests.shift();
+      }
+    };
+    this.page.on('request', onRequest);
+
+    try {
+      for (const [index, step] of recipe.steps.entries()) {
+        if (aborted || (detected && recipe.stopOnDetection)) {
+          steps.push({ index, action: step.action, status: 'skipped', durationMs: 0 });
+          continue;
+        }
+
+        const startTime = Date.now();
+        try {
+          await this.executeStep(step);
+          steps.push({ index, action: step.action, status: 'ok', durationMs: Date.now() - startTime });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          steps.push({ index, action: step.action, status: 'failed', durationMs: Date.now() - startTime, error: message });
+          getLogger().debug(
+            { sessionId: this.sessionId, index, action: step.action, err: message },
+            'Recipe step failed',
+          );
+          if (!step.optional) {
+            aborted = true;
+          }
+        }
+
+        detected = this.getCandidateCount() > initialCandidates;
+      }
+    } finally {
+      this.page.off('request', onRequest);
+    }
+
+    const report: RecipeReport = { name: recipe.name, completed: !aborted, detected, steps };
+    getLogger().info(
+      { sessionId: this.sessionId, recipe: recipe.name, completed: report.completed, detected, clicks: this.clicks },
+      'Activation recipe finished',
+    );
+
+    return { report, clicks: this.clicks };
+  }
+
+  private async executeStep(step: RecipeStep): Promise<void> {
+    const timeout = step.timeoutMs ?? DEFAULT_STEP_TIMEOUT_MS;
+
+    switch (step.action) {
+      case 'click':
+        await this.clickElement(this.page.mainFrame(), step.selector, step.index ?? 0, timeout);
+        return;
+      case 'clickInFrame': {
+        const frame = await this.resolveFrame(step.frameSelector, timeout);
+        await this.clickElement(frame, step.selector, step.index ?? 0, timeout);
+        return;
+      }
+      case 'waitForSelector': {
+        const frame = step.frameSelector ? await this.resolveFrame(step.frameSelector, timeout) : this.page.mainFrame();
+        const handle = await frame.waitForSelector(step.selector, { timeout });
+        await handle?.dispose();
+        return;
+      }
+      case 'waitForNetwork':
+        await this.waitForNetwork(new RegExp(step.urlPattern, 'i'), timeout);
+        return;
+      case 'evaluate': {
+        const frame = step.frameSelector ? await this.resolveFrame(step.frameSelector, timeout) : this.page.mainFrame();
+        await frame.evaluate(RECIPE_SNIPPETS[step.snippet]);
+        return;
+      }
+      case 'press':
+        await this.page.keyboard.press(step.key as KeyInput);
+        return;
+      case 'scroll':
+        if (step.selector) {
+          const handle = await this.page.waitForSelector(step.selector, { timeout });
+          await handle?.evaluate(node => node.scrollIntoView({ block: 'center' }));
+          await handle?.dispose();
+        } else {
+          await this.page.evaluate((deltaY: number | null) => {
+            window.scrollBy(0, deltaY ?? window.innerHeight);
+          }, step.deltaY ?? null);
+        }
+        return;
+      case 'wait':
+        await this.page.waitForTimeout(step.ms);
+        return;
+    }
+  }
+
+  private async clickElement(frame: Frame, selector: string, index: number, timeout: number): Promise<void> {
+    await frame.waitForSelector(selector, { timeout });
+    const elements: ElementHandle[] = await frame.$$(selector);
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      const element = elements[index];
+      if (!element) {
+        throw new Error(`No element at index ${index} for selector ${selector} (found ${elements.length})`);
+      }
+
+      await Promise.race([
+        element.click(),
+        new Promise((_, reject) => {
+          timer = setTimeout(() => reject(new Error('Click timeout')), timeout);
+        }),
+      ]);
+      this.clicks++;
+    } finally {
+      clearTimeout(timer);
+      await Promise.all(elements.map(element => element.dispose().catch(() => {})));
+    }
+  }
+
+  private async resolveFrame(frameSelector: string, timeout: number): Promise<Frame> {
+    const handle = await this.page.waitForSelector(frameSelector, { timeout });
+    const frame = await handle?.contentFrame();
+    await handle?.dispose();
+
+    if (!frame) {
+      throw new Error(`No frame found for selector ${frameSelector}`);
+    }
+    return frame;
+  }
+
+  private async waitForNetwork(pattern: RegExp, timeout: number): Promise<void> {
+    if (this.seenRequests.some(url => pattern.test(url))) {
+      return;
+    }
+    await this.page.waitForRequest(request => pattern.test(request.url()), { timeout });
+  }
+}
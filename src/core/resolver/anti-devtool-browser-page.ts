@@ -5,6 +5,7 @@ import { getLogger } from '../observability/logger.js';
 import { getConfig } from '../../config/env.js';
 import { applyAntiDevtoolProtection } from './bypasses/anti-devtool-bypass.js';
 import { RequestInterceptorFactory } from './interceptors/request-interceptor.js';
+import { SsrfGuard } from '../security/ssrf-guard.js';
 
 // HACK: Estandarizar la importación de puppeteer-extra para compatibilidad CJS/ESM
 const puppeteer = (puppeteerDefault as any).default ?? puppeteerDefault;
@@ -23,6 +24,10 @@ export interface AntiDevtoolPageOptions {
     width: number;
     height: number;
   };
+  extraHeaders?: Record<string, string>;
+  // Reglas de bloqueo adicionales del perfil del sitio
+  blockRules?: string[];
+  proxyUrl?: string | null;
 }
 
 /**
@@ -98,6 +103,11 @@ export class AntiDevtoolBrowserPage {
         ],
       };
 
+      const proxy = options.proxyUrl ? new URL(options.proxyUrl) : null;
+      if (proxy) {
+        launchOptions.args?.push(`--proxy-server=${proxy.protocol}//${proxy.hostname}:${proxy.port}`);
+      }
+
       // Lanzar navegador temporal para esta petición
       this.browser = await puppeteer.launch(launchOptions);
       
@@ -113,6 +123,10 @@ export class AntiDevtoolBrowserPage {
       // Crear página
       this.page = await this.browser.newPage();
 
+      if (proxy?.username && proxy.password) {
+        await this.page.authenticate({ username: proxy.username, password: proxy.password });
+      }
+
       // Configurar la página
       await this.configurePage(options);
 
@@ -162,8 +176,8 @@ export class AntiDevtoolBrowserPage {
     // 5. ⭐ CRÍTICO: Configurar request interceptor UNIFICADO
     await this.page.setRequestInterception(true);
     
-    const interceptor = RequestInterceptorFactory.createAntiDevtool(this.sessionId);
-    this.page.on('request', interceptor.getHandler());
+    const interceptor = RequestInterceptorFactory.createAntiDevtool(this.sessionId, options.blockRules);
+    this.page.on('request', SsrfGuard.getInstance().wrapRequestHandler(interceptor.getHandler()));
     
     getLogger().debug(
       { sessionId: this.sessionId },
@@ -175,6 +189,7 @@ export class AntiDevtoolBrowserPage {
       'Accept-Language': 'es-ES,es;q=0.9,en;q=0.8',
       'Accept-Encoding': 'gzip, deflate, br',
       'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+      ...options.extraHeaders,
     });
 
     // 7. Manejar errores de página
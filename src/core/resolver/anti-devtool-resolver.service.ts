@@ -3,8 +3,12 @@ import { AntiDevtoolBrowserPage } from './anti-devtool-browser-page.js';
 import { AggressiveHLSDetector } from './detectors/aggressive-hls-detector.js';
 import { getLogger } from '../observability/logger.js';
 import { getConfig } from '../../config/env.js';
-import { ResolveHLSResponse, Manifest } from '../../types/dto.js';
-import { sanitizeUrlForLogging } from '../../utils/url.js';
+import { ResolveHLSResponse, Manifest, Cookie, ActivationRecipe, RecipeReport } from '../../types/dto.js';
+import { sanitizeUrlForLogging, isDASHUrl } from '../../utils/url.js';
+import { getTargetId } from '../../utils/cdp.js';
+import { closePageOnAbort, MOBILE_EMULATION } from './browser.pool.js';
+import { ActivationRecipeRunner } from './activation-recipe.runner.js';
+import type { Page } from 'puppeteer';
 
 /**
  * Opciones para resolver con anti-devtool
@@ -13,8 +17,30 @@ export interface AntiDevtoolResolveOptions {
   url: string;
   timeoutMs?: number;
   waitAfterClick?: number;
+  // Clics adicionales si el primero no destapa ningún manifiesto
   clickRetries?: number;
+  // Límite de la activación y la espera de detección (desde el fin de la navegación)
+  maxWaitMs?: number;
+  // false: se agota cada espera para recoger todos los manifiestos
+  abortAfterFirst?: boolean;
+  captureBodies?: boolean;
+  emulateMobile?: boolean;
+  m3u8Patterns?: string[];
+  // Patrones del perfil de sitio, sin distinguir mayúsculas
+  profilePatterns?: string[];
+  recipe?: ActivationRecipe;
+  debug?: boolean;
   userAgent?: string;
+  viewport?: {
+    width: number;
+    height: number;
+  };
+  extraHeaders?: Record<string, string>;
+  waitUntil?: 'domcontentloaded' | 'networkidle2' | 'networkidle0';
+  blockRules?: string[];
+  proxyUrl?: string | null;
+  // Al abortarse se cierra la página y la resolución falla
+  signal?: AbortSignal;
 }
 
 /**
@@ -30,6 +56,9 @@ export interface AntiDevtoolResolveOptions {
 export class AntiDevtoolResolverService {
   private config = getConfig();
 
+  // Intervalo con el que se consulta el detector durante las esperas
+  private static DETECTION_POLL_MS = 250;
+
   /**
    * Resuelve una URL de un sitio con bloqueador anti-devtool
    */
@@ -39,6 +68,10 @@ export class AntiDevtoolResolverService {
     const timings = { total: 0, navigation: 0, activation: 0, detection: 0 };
     let clicksPerformed = 0;
     let manifests: Manifest[] = [];
+    let requiredHeaders: Record<string, string> = {};
+    let requiredCookies: Cookie[] = [];
+    let recipeReport: RecipeReport | undefined;
+    const abortAfterFirst = options.abortAfterFirst ?? true;
 
     const sanitizedUrl = sanitizeUrlForLogging(options.url);
     getLogger().info(
@@ -48,6 +81,7 @@ export class AntiDevtoolResolverService {
 
     let browserPage: AntiDevtoolBrowserPage | undefined;
     let detector: AggressiveHLSDetector | undefined;
+    let stopAbortListener = (): void => undefined;
 
     try {
       // 1. Crear página especializada con protección anti-devtool
@@ -56,19 +90,42 @@ export class AntiDevtoolResolverService {
         url: options.url,
         sessionId,
         userAgent: options.userAgent,
+        viewport: options.viewport,
+        extraHeaders: options.extraHeaders,
+        blockRules: options.blockRules,
+        proxyUrl: options.proxyUrl,
       });
 
       // 2. Configurar detector agresivo
-      detector = new AggressiveHLSDetector(sessionId);
+      detector = new AggressiveHLSDetector(sessionId, {
+        m3u8Patterns: options.m3u8Patterns,
+        profilePatterns: options.profilePatterns,
+        captureBodies: options.captureBodies,
+      });
       const page = browserPage.getPage();
+      stopAbortListener = closePageOnAbort(page, options.signal);
       await detector.setup(page);
+      const targetId = (await getTargetId(page.target())) || sessionId;
+
+      if (options.emulateMobile) {
+        await page.emulate(MOBILE_EMULATION);
+      }
+
+      if (options.debug) {
+        page.on('console', m =>
+          console.log('[page.console]', m.type?.(), m.text?.()),
+        );
+        page.on('pageerror', e =>
+          console.error('[page.error]', e?.message || String(e)),
+        );
+      }
 
       // 3. ⚡ OPTIMIZACIÓN: Navegar con waitUntil más rápido
       // networkidle0 espera que no haya requests por 500ms (lento)
       // domcontentloaded es suficiente para estos sitios
       const navStartTime = Date.now();
       await browserPage.navigateTo(options.url, {
-        waitUntil: 'domcontentloaded', // Más rápido que networkidle0
+        waitUntil: options.waitUntil || 'domcontentloaded', // Más rápido que networkidle0
         timeout: options.timeoutMs || 30000,
       });
       timings.navigation = Date.now() - navStartTime;
@@ -78,9 +135,12 @@ export class AntiDevtoolResolverService {
         '✅ Navigation completed, starting player interaction',
       );
 
-      // 4. ⚡ OPTIMIZACIÓN: Espera mínima inicial (reducida de 3000ms a 1500ms)
-      await page.waitForTimeout(1500);
+      // maxWaitMs acota todo lo que ocurre tras la navegación
+      const deadline = options.maxWaitMs ? Date.now() + options.maxWaitMs : Infinity;
+      const remaining = (ms: number): number => Math.max(0, Math.min(ms, deadline - Date.now()));
 
+      // 4. ⚡ OPTIMIZACIÓN: Espera mínima inicial (reducida de 3000ms a 1500ms)
+      await page.waitForTimeout(remaining(1500));
       // 5. ⚡ OPTIMIZACIÓN CRÍTICA: Extraer HLS del DOM TEMPRANO
       // El M3U8 a menudo ya está en el DOM después de navegar, sin necesidad de click
       const earlyHlsFromDOM = await page.evaluate(() => {
@@ -88,7 +148,7 @@ export class AntiDevtoolResolverService {
         const videos = document.querySelectorAll('video');
         videos.forEach(video => {
           const src = (video as HTMLVideoElement).src;
-          if (src && (src.includes('.m3u8') || src.includes('hls'))) {
+          if (src && (src.includes('.m3u8') || src.includes('.mpd') || src.includes('hls'))) {
             results.push(src);
           }
         });
@@ -108,59 +168,71 @@ export class AntiDevtoolResolverService {
         );
       }
 
-      // 6. Intentar encontrar y clickear el reproductor
+      // 6. Activar el reproductor: receta (petición o perfil) y/o clics con reintentos
       const activationStartTime = Date.now();
-      
-      // Selectores comprehensivos para reproductores
-      const playerSelector =
-        '#player, video, .player, [id*="player"], [class*="player"]';
 
-      try {
-        // ⚡ OPTIMIZACIÓN: Reducir timeout si ya tenemos HLS
-        const selectorTimeout = hasEarlyHLS ? 3000 : 10000;
-        await page.waitForSelector(playerSelector, { timeout: selectorTimeout });
-        await page.click(playerSelector);
-        clicksPerformed++;
-        
-        getLogger().info(
-          { sessionId },
-          '✓ Click en reproductor',
-        );
-      } catch (e) {
-        // Fallback: Click en el centro de la ventana
-        const dimensions = await page.evaluate(() => ({
-          width: window.innerWidth,
-          height: window.innerHeight,
-        }));
-
-        await page.mouse.click(dimensions.width / 2, dimensions.height / 2);
-        clicksPerformed++;
-        
-        getLogger().info(
-          { sessionId },
-          '✓ Click en centro (fallback)',
-        );
+      if (options.debug) {
+        try {
+          await page.screenshot({ path: `./debug-before-click.png` });
+        } catch {
+          // La captura de depuración no debe interrumpir la resolución
+        }
       }
 
-      timings.activation = Date.now() - activationStartTime;
+      if (options.recipe) {
+        const runner = new ActivationRecipeRunner(page, sessionId, () => detector!.getManifestCount());
+        const recipeResult = await runner.run(options.recipe);
+        recipeReport = recipeResult.report;
+        clicksPerformed += recipeResult.clicks;
+      }
 
       // 7. ⚡ OPTIMIZACIÓN: Espera inteligente basada en early detection
       // Si ya encontramos HLS antes del click, reducir espera dramáticamente
       const baseWaitTime = options.waitAfterClick || 8000;
       const optimizedWaitTime = hasEarlyHLS ? Math.min(2000, baseWaitTime) : baseWaitTime;
-      
-      getLogger().debug(
-        {
-          sessionId,
-          baseWaitTime,
-          optimizedWaitTime,
-          hasEarlyHLS,
-          reason: hasEarlyHLS ? 'HLS found early, using reduced wait' : 'No early HLS, using full wait',
-        },
-        `Waiting ${optimizedWaitTime}ms for HLS streams to load...`,
-      );
-      
-      await page.waitForTimeout(optimizedWaitTime);
+
+      // Con receta, los clics estándar solo se usan si la receta lo permite y no detectó nada
+      const runClicks = !options.recipe || (options.recipe.fallback && !recipeReport?.detected);
+      const attempts = runClicks ? 1 + Math.max(0, options.clickRetries ?? 0) : 0;
+
+      for (let attempt = 0; attempt < attempts; attempt++) {
+        // Tras el primer clic solo se reintenta si no hay nada y queda tiempo
+        if (attempt > 0 && (hasEarlyHLS || detector.getManifestCount() > 0 || remaining(optimizedWaitTime) === 0)) {
+          break;
+        }
+
+        // ⚡ OPTIMIZACIÓN: Reducir timeout si ya tenemos HLS
+        await this.clickPlayer(page, sessionId, remaining(hasEarlyHLS ? 3000 : 10000));
+        clicksPerformed++;
+
+        getLogger().debug(
+          {
+            sessionId,
+            attempt: attempt + 1,
+            baseWaitTime,
+            optimizedWaitTime,
+            hasEarlyHLS,
+            reason: hasEarlyHLS ? 'HLS found early, using reduced wait' : 'No early HLS, using full wait',
+          },
+          `Waiting up to ${optimizedWaitTime}ms for HLS streams to load...`,
+        );
+
+        await this.waitForManifests(page, detector, remaining(optimizedWaitTime), abortAfterFirst);
+      }
+
+      if (options.debug) {
+        try {
+          await page.screenshot({ path: `./debug-after-click.png` });
+        } catch {
+          // La captura de depuración no debe interrumpir la resolución
+        }
+      }
+
+      if (options.captureBodies) {
+        await detector.waitForPendingBodies(this.config.M3U8_DOWNLOAD_TIMEOUT_MS);
+      }
+
+      timings.activation = Date.now() - activationStartTime;
 
       // 8. ⚡ OPTIMIZACIÓN: Extraer HLS del DOM (combinando early + final)
       const domExtractionStartTime = Date.now();
@@ -176,7 +248,7 @@ export class AntiDevtoolResolverService {
         const videos = document.querySelectorAll('video');
         videos.forEach(video => {
           const src = (video as HTMLVideoElement).src;
-          if (src && (src.includes('.m3u8') || src.includes('hls'))) {
+          if (src && (src.includes('.m3u8') || src.includes('.mpd') || src.includes('hls'))) {
             results.videoSrcs.push(src);
           }
         });
@@ -185,7 +257,7 @@ export class AntiDevtoolResolverService {
         const sources = document.querySelectorAll('source');
         sources.forEach(source => {
           const src = (source as HTMLSourceElement).src;
-          if (src && (src.includes('.m3u8') || src.includes('hls'))) {
+          if (src && (src.includes('.m3u8') || src.includes('.mpd') || src.includes('hls'))) {
             results.sourceSrcs.push(src);
           }
         });
@@ -222,28 +294,58 @@ export class AntiDevtoolResolverService {
       hlsFromDOM.videoSrcs.forEach(url => allM3u8Urls.add(url));
       hlsFromDOM.sourceSrcs.forEach(url => allM3u8Urls.add(url));
       
-      // Agregar URLs de requests HTTP
+      // Agregar URLs de requests HTTP (HLS y DASH)
       detectionResult.allM3u8Urls.forEach(url => allM3u8Urls.add(url));
+      detectionResult.mpdUrls.forEach(url => allM3u8Urls.add(url));
       
       if (allM3u8Urls.size > 0) {
-        manifests = Array.from(allM3u8Urls).map((url) => ({
-          url: url,
-          status: 200,
-          contentType: 'application/vnd.apple.mpegurl',
-          fromTargetId: sessionId,
-          timestamp: Date.now(),
-        }));
+        // Status y content-type reales de la respuesta capturada; las URLs que
+        // solo aparecen en el DOM no tienen respuesta observada (status 0)
+        const responses = new Map(
+          detector.getAllCaptures()
+            .filter(c => c.type === 'response')
+            .map(c => [c.url, c] as const),
+        );
+
+        manifests = Array.from(allM3u8Urls).map((url) => {
+          const response = responses.get(url);
+          return {
+            url: url,
+            status: response?.status ?? 0,
+            contentType: response?.contentType
+              || (isDASHUrl(url) ? 'application/dash+xml' : 'application/vnd.apple.mpegurl'),
+            fromTargetId: targetId,
+            timestamp: response?.timestampResponse ?? Date.now(),
+            ...(options.captureBodies ? { body: detector!.getBody(url) } : {}),
+          };
+        });
 
         getLogger().info(
           {
             sessionId,
             manifestsFound: manifests.length,
             fromDOM: hlsFromDOM.videoSrcs.length + hlsFromDOM.sourceSrcs.length,
-            fromHTTP: detectionResult.allM3u8Urls.length,
+            fromHTTP: detectionResult.allM3u8Urls.length + detectionResult.mpdUrls.length,
             urls: Array.from(allM3u8Urls),
           },
           '🎉 Anti-Devtool resolve successful - HLS found!',
         );
+
+        // Contexto necesario para reproducir los manifiestos fuera del navegador
+        requiredHeaders = {
+          'Referer': options.url,
+          'Origin': new URL(options.url).origin,
+          'User-Agent': await page.evaluate(() => navigator.userAgent),
+        };
+        requiredCookies = (await page.cookies()).map((cookie) => ({
+          name: cookie.name,
+          value: cookie.value,
+          domain: cookie.domain,
+          path: cookie.path,
+          expires: cookie.expires ? Math.floor(cookie.expires) : undefined,
+          httpOnly: cookie.httpOnly,
+          secure: cookie.secure,
+        }));
       } else {
         getLogger().warn(
           {
@@ -263,6 +365,7 @@ export class AntiDevtoolResolverService {
       throw error;
     } finally {
       // Cleanup
+      stopAbortListener();
       if (detector) {
         try {
           await detector.dispose();
@@ -297,9 +400,65 @@ export class AntiDevtoolResolverService {
       timings,
       clicksPerformed,
       targetsObserved: 1,
+      sessionId,
+      requiredHeaders,
+      requiredCookies,
+      recipe: recipeReport,
     };
   }
 
+  /**
+   * Clic en el reproductor o, si no aparece a tiempo, en el centro de la ventana
+   */
+  private async clickPlayer(page: Page, sessionId: string, selectorTimeout: number): Promise<void> {
+    // Selectores comprehensivos para reproductores
+    const playerSelector =
+      '#player, video, .player, [id*="player"], [class*="player"]';
+
+    try {
+      await page.waitForSelector(playerSelector, { timeout: selectorTimeout });
+      await page.click(playerSelector);
+
+      getLogger().info(
+        { sessionId },
+        '✓ Click en reproductor',
+      );
+    } catch (e) {
+      // Fallback: Click en el centro de la ventana
+      const dimensions = await page.evaluate(() => ({
+        width: window.innerWidth,
+        height: window.innerHeight,
+      }));
+
+      await page.mouse.click(dimensions.width / 2, dimensions.height / 2);
+
+      getLogger().info(
+        { sessionId },
+        '✓ Click en centro (fallback)',
+      );
+    }
+  }
+
+  /**
+   * Espera timeoutMs; con abortAfterFirst termina en cuanto hay un manifiesto
+   */
+  private async waitForManifests(
+    page: Page,
+    detector: AggressiveHLSDetector,
+    timeoutMs: number,
+    abortAfterFirst: boolean,
+  ): Promise<void> {
+    if (!abortAfterFirst) {
+      await page.waitForTimeout(timeoutMs);
+      return;
+    }
+
+    const deadline = Date.now() + timeoutMs;
+    while (detector.getManifestCount() === 0 && Date.now() < deadline) {
+      await page.waitForTimeout(Math.min(AntiDevtoolResolverService.DETECTION_POLL_MS, deadline - Date.now()));
+    }
+  }
+
   /**
    * Genera un ID de sesión único
    */
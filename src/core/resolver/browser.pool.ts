@@ -14,6 +14,9 @@ import {
   incrementNavigationError 
 } from '../observability/metrics.js';
 import { getConfig } from '../../config/env.js';
+import { getSiteProfiles } from '../../config/site-profiles.js';
+import { SsrfGuard } from '../security/ssrf-guard.js';
+import { PoolExhaustedError } from './resolver-errors.js';
 
 // HACK: Estandarizar la importación de puppeteer-extra para compatibilidad CJS/ESM
 const puppeteer = (puppeteerDefault as any).default ?? puppeteerDefault;
@@ -146,36 +149,76 @@ export class BrowserPool {
   }
 
   /**
-   * Obtiene una página del pool con límite de concurrencia
+   * Obtiene una página del pool. Cada página ocupa uno de los
+   * `maxConcurrentPages` huecos hasta que se libera; si no queda ninguno libre
+   * en `acquireTimeoutMs`, falla con PoolExhaustedError.
    */
   async getPage(): Promise<BrowserPage> {
     if (this.isShuttingDown) {
-      throw new Error('Browser pool is shutting down');
+      throw new PoolExhaustedError('Browser pool is shutting down');
     }
 
-    return this.pageLimit(async () => {
-      try {
-        const browser = await this.getAvailableBrowser();
-        const page = await browser.newPage();
-        
-        this.activePagesCount++;
-        updateBrowserPages(this.activePagesCount);
-        incrementBrowserPages('created');
-
-        // Configurar página
-        await this.configurePage(page);
+    const { acquireTimeoutMs } = this.options;
+    let gaveUp = false;
+
+    return new Promise<BrowserPage>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        gaveUp = true;
+        getLogger().warn(
+          { acquireTimeoutMs, activePagesCount: this.activePagesCount },
+          'Timed out waiting for a browser page',
+        );
+        reject(new PoolExhaustedError(`No browser page available after ${acquireTimeoutMs}ms`));
+      }, acquireTimeoutMs);
+
+      void this.pageLimit(async () => {
+        clearTimeout(timer);
+        // Quien esperaba ya recibió POOL_EXHAUSTED: el hueco pasa al siguiente
+        if (gaveUp) {
+          return;
+        }
 
-        getLogger().debug({ activePagesCount: this.activePagesCount }, 'Page created from pool');
+        let page: Page;
+        try {
+          page = await this.createPage();
+        } catch (error) {
+          reject(error);
+          return;
+        }
 
-        return new BrowserPage(page, () => this.releasePage());
-      } catch (error) {
-        incrementBrowserPages('error');
-        getLogger().error({ error }, 'Failed to create page from pool');
-        throw error;
-      }
+        // El hueco sigue ocupado hasta que se libera la página
+        await new Promise<void>(release => {
+          resolve(new BrowserPage(page, () => {
+            this.releasePage();
+            release();
+          }));
+        });
+      });
     });
   }
 
+  private async createPage(): Promise<Page> {
+    try {
+      const browser = await this.getAvailableBrowser();
+      const page = await browser.newPage();
+
+      this.activePagesCount++;
+      updateBrowserPages(this.activePagesCount);
+      incrementBrowserPages('created');
+
+      // Configurar página
+      await this.configurePage(page);
+
+      getLogger().debug({ activePagesCount: this.activePagesCount }, 'Page created from pool');
+
+      return page;
+    } catch (error) {
+      incrementBrowserPages('error');
+      getLogger().error({ error }, 'Failed to create page from pool');
+      throw error;
+    }
+  }
+
   /**
    * Configura una página con las opciones por defecto
    */
@@ -215,30 +258,18 @@ export class BrowserPool {
     // Interceptar requests para optimización y bloqueo de anuncios
     await page.setRequestInterception(true);
     
-    page.on('request', (request) => {
+    const siteProfiles = getSiteProfiles();
+    const blockRules = (siteProfiles.getDefaults().blockRules ?? []).map(rule => rule.toLowerCase());
+    const streamPatterns = siteProfiles.getDefaultStreamPatterns();
+
+    page.on('request', SsrfGuard.getInstance().wrapRequestHandler((request) => {
       try {
         const resourceType = request.resourceType();
         const url = request.url().toLowerCase();
+        const isStreamCdn = streamPatterns.some(pattern => pattern.test(url));
         
-        // Lista de dominios de anuncios conocidos
-        const adDomains = [
-          'ads-twitter.com',
-          'imasdk.googleapis.com',
-          'googleads.com',
-          'googlesyndication.com',
-          'doubleclick.net',
-          'ptichoolsougn.net',
-          'campfirecroutondecorator.com',
-          'jilliandescribecompany.com/log',
-          'static.ads-twitter.com',
-          'facebook.com/tr',
-          'analytics.google.com',
-          'googletagmanager.com',
-          'google-analytics.com'
-        ];
-        
-        // Bloquear dominios de anuncios
-        if (adDomains.some(domain => url.includes(domain))) {
+        // Bloquear dominios de anuncios (defaults.blockRules de los perfiles de sitio)
+        if (blockRules.some(rule => url.includes(rule))) {
           request.abort().catch(() => {});
           return;
         }
@@ -263,7 +294,7 @@ export class BrowserPool {
           url.includes('manifest') ||
           url.includes('playlist') ||
           url.includes('hls') ||
-          url.includes('orbitcache.com') ||
+          isStreamCdn ||
           url.includes('urlset') ||
           resourceType === 'media' ||
           resourceType === 'xhr' ||
@@ -272,7 +303,7 @@ export class BrowserPool {
           resourceType === 'script'
         ) {
           // Log HLS/streaming resources
-          if (url.includes('m3u8') || url.includes('hls') || url.includes('orbitcache')) {
+          if (url.includes('m3u8') || url.includes('hls') || isStreamCdn) {
             getLogger().info({ url, resourceType }, 'Allowing potential HLS resource');
           }
           request.continue().catch(() => {});
@@ -296,7 +327,7 @@ export class BrowserPool {
           // Fallback silencioso
         }
       }
-    });
+    }));
 
     // Manejar errores de página
     page.on('error', (error) => {
@@ -400,6 +431,8 @@ export class BrowserPage {
   private page: Page;
   private releaseCallback: () => void;
   private isReleased = false;
+  // Respuesta del documento de la última navegación
+  private documentResponse: { status: number; headers: Record<string, string> } | null = null;
 
   constructor(page: Page, releaseCallback: () => void) {
     this.page = page;
@@ -429,10 +462,11 @@ export class BrowserPage {
     const page = this.getPage();
     
     try {
-      await page.goto(url, {
+      const response = await page.goto(url, {
         waitUntil: options?.waitUntil || 'domcontentloaded',
         timeout: options?.timeout || 30000,
       });
+      this.documentResponse = response ? { status: response.status(), headers: response.headers() } : null;
     } catch (error) {
       incrementNavigationError('navigation_failed');
       getLogger().error({ error, url }, 'Navigation failed');
@@ -440,6 +474,14 @@ export class BrowserPage {
     }
   }
 
+  /**
+   * Código y cabeceras de la respuesta del documento tras navegar, o null si
+   * no hubo respuesta (p. ej. navegación a un ancla)
+   */
+  getDocumentResponse(): { status: number; headers: Record<string, string> } | null {
+    return this.documentResponse;
+  }
+
   /**
    * Espera por un tiempo específico
    */
@@ -478,3 +520,41 @@ export class BrowserPage {
     }
   }
 }
+
+/**
+ * Dispositivo que se emula con emulateMobile (iPhone en vertical)
+ */
+export const MOBILE_EMULATION = {
+  userAgent:
+    'Mozilla/5.0 (iPhone; CPU iPhone OS 14_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/14.0 Mobile/15E148 Safari/604.1',
+  viewport: {
+    width: 390,
+    height: 844,
+    deviceScaleFactor: 3,
+    isMobile: true,
+    hasTouch: true,
+    isLandscape: false,
+  },
+};
+
+/**
+ * Cierra la página cuando se aborta la señal, de modo que la navegación o la
+ * espera en curso fallen enseguida. Devuelve la función que deja de escuchar.
+ */
+export function closePageOnAbort(page: Page, signal?: AbortSignal): () => void {
+  if (!signal) {
+    return () => undefined;
+  }
+
+  const close = (): void => {
+    if (!page.isClosed()) {
+      page.close().catch(error => getLogger().debug({ error }, 'Failed to close aborted page'));
+    }
+  };
+  if (signal.aborted) {
+    close();
+    return () => undefined;
+  }
+  signal.addEventListener('abort', close, { once: true });
+  return () => signal.removeEventListener('abort', close);
+}
@@ -1,5 +1,6 @@
 import type { Page, HTTPResponse, HTTPRequest } from 'puppeteer';
 import { getLogger } from '../../observability/logger.js';
+import { getSiteProfiles } from '../../../config/site-profiles.js';
 
 /**
  * Candidato HLS capturado de forma agresiva
@@ -15,11 +16,24 @@ export interface AggressiveHLSCandidate {
   contentType?: string;
 }
 
+/**
+ * Opciones del cliente que afectan a la captura
+ */
+export interface AggressiveHLSDetectorOptions {
+  // Expresiones regulares del cliente; las URLs que coinciden cuentan como manifiesto
+  m3u8Patterns?: string[];
+  // Patrones del perfil de sitio (sin distinguir mayúsculas)
+  profilePatterns?: string[];
+  // Guardar el body de los manifiestos tal y como los recibió el navegador
+  captureBodies?: boolean;
+}
+
 /**
  * Resultado de la detección agresiva
  */
 export interface AggressiveDetectionResult {
   allM3u8Urls: string[];
+  mpdUrls: string[];
   masterPlaylist: string | null;
   indexPlaylists: string[];
   otherM3u8: string[];
@@ -43,9 +57,26 @@ export class AggressiveHLSDetector {
   private captured: AggressiveHLSCandidate[] = [];
   private sessionId: string;
   private page?: Page;
+  private readonly patterns: RegExp[];
+  private readonly captureBodies: boolean;
+  private readonly bodies = new Map<string, string>();
+  private readonly pendingBodies = new Set<Promise<void>>();
 
-  constructor(sessionId: string) {
+  constructor(sessionId: string, options: AggressiveHLSDetectorOptions = {}) {
     this.sessionId = sessionId;
+    this.captureBodies = options.captureBodies ?? false;
+    // Igual que en el detector estándar, un patrón inválido del cliente no coincide con nada
+    this.patterns = [
+      ...getSiteProfiles().getDefaultStreamPatterns(),
+      ...(options.profilePatterns ?? []).map((pattern) => new RegExp(pattern, 'i')),
+      ...(options.m3u8Patterns ?? []).flatMap((pattern) => {
+        try {
+          return [new RegExp(pattern)];
+        } catch {
+          return [];
+        }
+      }),
+    ];
   }
 
   /**
@@ -117,6 +148,10 @@ export class AggressiveHLSDetector {
             },
             '⭐ HLS-related response captured',
           );
+
+          if (this.captureBodies && this.isManifestUrl(url) && !this.bodies.has(url)) {
+            this.captureBody(url, response);
+          }
         }
         // ⚡ OPTIMIZACIÓN: Removido logging de responses no-HLS para mejor performance
       } catch (error) {
@@ -133,16 +168,48 @@ export class AggressiveHLSDetector {
     );
   }
 
+  private captureBody(url: string, response: HTTPResponse): void {
+    const pending = response
+      .text()
+      .then((body) => {
+        this.bodies.set(url, body);
+      })
+      .catch((error) => getLogger().debug({ sessionId: this.sessionId, url, error }, 'Failed to capture manifest body'))
+      .finally(() => this.pendingBodies.delete(pending));
+    this.pendingBodies.add(pending);
+  }
+
+  /**
+   * Manifiesto HLS o DASH, o URL que coincide con los patrones del cliente
+   */
+  private isManifestUrl(url: string): boolean {
+    const u = url.toLowerCase();
+    return u.includes('.m3u8') || u.includes('.mpd') || this.matchesPattern(url);
+  }
+
+  private matchesPattern(url: string): boolean {
+    return this.patterns.some((pattern) => pattern.test(url));
+  }
+
   /**
    * Verifica si una URL está relacionada con HLS
    */
   private isHLSRelated(url: string): boolean {
     const u = url.toLowerCase();
+
+    if (this.matchesPattern(url)) {
+      return true;
+    }
     
     // Patrones de M3U8
     if (u.includes('.m3u8')) {
       return true;
     }
+
+    // Manifiestos MPEG-DASH
+    if (u.includes('.mpd')) {
+      return true;
+    }
     
     // Patrones de segmentos HLS
     if (u.includes('.ts')) {
@@ -203,8 +270,15 @@ export class AggressiveHLSDetector {
       );
     }
 
-    // Clasificar M3U8s
-    const m3u8Urls = [...new Set(allUrls.filter((u) => u.includes('.m3u8')))];
+    // Clasificar manifiestos DASH
+    const mpdUrls = [...new Set(allUrls.filter((u) => u.toLowerCase().includes('.mpd')))];
+
+    // Clasificar M3U8s; las URLs de los patrones del cliente cuentan como tales
+    const m3u8Urls = [
+      ...new Set(
+        allUrls.filter((u) => u.includes('.m3u8') || (this.matchesPattern(u) && !mpdUrls.includes(u))),
+      ),
+    ];
 
     // Clasificar segmentos .ts
     const tsUrls = [
@@ -236,8 +310,8 @@ export class AggressiveHLSDetector {
       (u) => !u.includes('master.m3u8') && !u.includes('index'),
     );
 
-    const total = m3u8Urls.length + tsUrls.length;
-    const success = m3u8Urls.length > 0;
+    const total = m3u8Urls.length + mpdUrls.length + tsUrls.length;
+    const success = m3u8Urls.length > 0 || mpdUrls.length > 0;
 
     const result: AggressiveDetectionResult = {
       success,
@@ -248,8 +322,9 @@ export class AggressiveHLSDetector {
       segmentsSample: tsUrls.slice(0, 3),
       totalSegments: tsUrls.length,
       allM3u8Urls: m3u8Urls,
+      mpdUrls,
       message: success
-        ? `Encontrados ${m3u8Urls.length} archivos .m3u8 y ${tsUrls.length} segmentos`
+        ? `Encontrados ${m3u8Urls.length} archivos .m3u8, ${mpdUrls.length} .mpd y ${tsUrls.length} segmentos`
         : 'No se encontraron archivos HLS',
     };
 
@@ -259,6 +334,7 @@ export class AggressiveHLSDetector {
         result: {
           success: result.success,
           m3u8Count: m3u8Urls.length,
+          mpdCount: mpdUrls.length,
           segmentsCount: tsUrls.length,
           masterPlaylist: result.masterPlaylist,
         },
@@ -269,6 +345,38 @@ export class AggressiveHLSDetector {
     return result;
   }
 
+  /**
+   * Número de manifiestos distintos detectados hasta el momento
+   */
+  getManifestCount(): number {
+    return new Set(this.captured.map((c) => c.url).filter((url) => this.isManifestUrl(url))).size;
+  }
+
+  /**
+   * Espera, como mucho timeoutMs, a que terminen de leerse los bodies pendientes
+   */
+  async waitForPendingBodies(timeoutMs: number): Promise<void> {
+    if (this.pendingBodies.size === 0) return;
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, timeoutMs);
+    });
+
+    try {
+      await Promise.race([Promise.allSettled(Array.from(this.pendingBodies)), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Body capturado de un manifiesto (solo con captureBodies)
+   */
+  getBody(url: string): string | undefined {
+    return this.bodies.get(url);
+  }
+
   /**
    * Obtiene el número de candidatos capturados
    */
@@ -300,6 +408,7 @@ export class AggressiveHLSDetector {
         this.page.removeAllListeners('response');
       }
       this.captured = [];
+      this.bodies.clear();
     } catch (error) {
       getLogger().error(
         { sessionId: this.sessionId, error },
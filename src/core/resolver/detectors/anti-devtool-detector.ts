@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { getLogger } from '../../observability/logger.js';
+import { SsrfGuard } from '../../security/ssrf-guard.js';
 
 /**
  * Patrones conocidos de scripts anti-devtool
@@ -111,8 +112,12 @@ export class AntiDevtoolDetector {
     url: string,
   ): Promise<AntiDevtoolDetectionResult> {
     try {
+      const ssrfGuard = SsrfGuard.getInstance();
+      await ssrfGuard.assertPublicUrl(url);
+
       // Request rápido con timeout corto
       const response = await axios.get(url, {
+        ...ssrfGuard.getAxiosConfig(),
         timeout: 5000,
         maxRedirects: 5,
         headers: {
@@ -17,16 +17,32 @@ import {
 
 import { getLogger } from '../../observability/logger.js';
 import { BrowserPage } from '../browser.pool.js';
+import { isDASHUrl, isProgressiveUrl } from '../../../utils/url.js';
+import { getSessionTargetId } from '../../../utils/cdp.js';
+import { getSiteProfiles } from '../../../config/site-profiles.js';
+
+// Content-Types de manifiestos MPEG-DASH
+const DASH_CONTENT_TYPES = ['application/dash+xml'];
+
+// Content-Types de vídeo progresivo (fichero completo servido por HTTP)
+const PROGRESSIVE_CONTENT_TYPES = ['video/mp4', 'video/webm'];
+// Segmentos fMP4/CMAF de HLS y DASH, nunca vídeo progresivo
+const MEDIA_SEGMENT_PATH = /\.(m4s|m4f|cmf[vat])$/i;
+// Rangos de bytes en la query (byte-range addressing de algunos CDN)
+const BYTE_RANGE_QUERY = /[?&](?:range|bytes|byterange)=\d+-\d+/i;
 
 // Forma unificada mínima para responses provenientes de CDP
 type CdpResponse = {
   url: string;
   status: number;
   headers: Record<string, string>;
+  resourceType?: string;
+  targetId?: string;
 };
 
 export class HLSDetector {
   private candidates: Map<string, HLSCandidate> = new Map();
+  private progressiveCandidates: Map<string, HLSCandidate> = new Map();
   private context: DetectionContext;
 
   private collectedHeaders: Record<string, string> = {};
@@ -35,11 +51,20 @@ export class HLSDetector {
   // referencias para cleanup
   private browser?: Browser;
   private page?: Page;
+  private mainTargetId?: string;
   private targetCreatedHandler?: (t: Target) => void;
   private cdpSessions: Set<CDPSession> = new Set();
+  private pendingBodyCaptures: Set<Promise<void>> = new Set();
+
+  // Patrones de los perfiles de sitio (defaults + perfil de la URL)
+  private profilePatterns: RegExp[];
 
   constructor(context: DetectionContext) {
     this.context = context;
+    this.profilePatterns = [
+      ...getSiteProfiles().getDefaultStreamPatterns(),
+      ...(context.profile?.m3u8Patterns ?? []).map(pattern => new RegExp(pattern, 'i')),
+    ];
   }
 
   /**
@@ -68,6 +93,14 @@ export class HLSDetector {
 
         await session.send('Network.enable');
 
+        const targetId = await getSessionTargetId(session);
+        if (target === this.page?.target()) {
+          this.mainTargetId = targetId;
+        }
+
+        // requestId -> url de los manifiestos cuyo body hay que capturar
+        const pendingBodies = new Map<string, string>();
+
         session.on(
           'Network.responseReceived',
           (evt: Protocol.Network.ResponseReceivedEvent) => {
@@ -75,11 +108,42 @@ export class HLSDetector {
             const url  = evt.response.url || '';
             const type = String(evt.type || '');
             // Traza del recurso (XHR/Fetch/Media suelen ser señales más “limpias” de HLS)
-            if (this.isHlsManifest(url, hdrs['content-type'] || '')) {
+            if (this.isStreamManifest(url, hdrs['content-type'] || '')) {
               try { getLogger().debug({ sessionId: this.context.sessionId, type, url }, 'HLS CDP candidate'); } catch {}
             }
-            const cdpRes: CdpResponse = { url, status: evt.response.status, headers: hdrs };
+            const cdpRes: CdpResponse = {
+              url,
+              status: evt.response.status,
+              headers: hdrs,
+              resourceType: type,
+              targetId,
+            };
             this.handleResponse(cdpRes);
+
+            if (this.context.options?.captureBodies && this.candidates.has(url)) {
+              pendingBodies.set(evt.requestId, url);
+            }
+          },
+        );
+
+        // El body solo está disponible cuando la carga ha terminado
+        session.on(
+          'Network.loadingFinished',
+          (evt: Protocol.Network.LoadingFinishedEvent) => {
+            const url = pendingBodies.get(evt.requestId);
+            if (!url) return;
+            pendingBodies.delete(evt.requestId);
+
+            const capture = this.captureResponseBody(session, evt.requestId, url);
+            this.pendingBodyCaptures.add(capture);
+            void capture.finally(() => this.pendingBodyCaptures.delete(capture));
+          },
+        );
+
+        session.on(
+          'Network.loadingFailed',
+          (evt: Protocol.Network.LoadingFailedEvent) => {
+            pendingBodies.delete(evt.requestId);
           },
         );
 
@@ -143,23 +207,36 @@ export class HLSDetector {
         ? (response as HTTPResponse).headers()
         : (response as CdpResponse).headers;
 
+      const resourceType: string = isPptr
+        ? (response as HTTPResponse).request().resourceType()
+        : (response as CdpResponse).resourceType || '';
+
+      const fromTargetId = isPptr ? this.mainTargetId : (response as CdpResponse).targetId;
+
       const headers = this.normalizeHeaders(headersObj || {});
       const contentType = headers['content-type'] || '';
       const isHLS = this.isHlsManifest(url, contentType);
+      const isDASH = this.isDashManifest(url, contentType);
 
-      // Solo log responses HLS o potencialmente importantes
-      if (isHLS || url.toLowerCase().includes('m3u8') || url.toLowerCase().includes('hls')) {
+      // Solo log responses HLS/DASH o potencialmente importantes
+      if (isHLS || isDASH || url.toLowerCase().includes('m3u8') || url.toLowerCase().includes('hls')) {
         getLogger().info({
           sessionId: this.context.sessionId,
           url,
           status,
           contentType,
-          isHLS
-        }, 'Potential HLS Response detected');
+          isHLS,
+          isDASH,
+        }, 'Potential stream manifest response detected');
       }
 
-      if (isHLS && status >= 200 && status < 400) {
-        this.addCandidate(url, contentType);
+      if ((isHLS || isDASH) && status >= 200 && status < 400) {
+        this.addCandidate(url, contentType, status, fromTargetId);
+      } else if (
+        status >= 200 && status < 300 &&
+        this.isProgressiveMedia(url, contentType, status, resourceType, headers)
+      ) {
+        this.addProgressiveCandidate(url, headers, status, fromTargetId);
       }
     } catch (error) {
       const safeUrl =
@@ -173,6 +250,52 @@ export class HLSDetector {
     }
   }
 
+  /**
+   * Obtiene vía CDP el body del manifiesto tal y como lo recibió el navegador,
+   * evitando volver a descargarlo (URLs ligadas a token o IP).
+   */
+  private async captureResponseBody(
+    session: CDPSession,
+    requestId: string,
+    url: string,
+  ): Promise<void> {
+    try {
+      const { body, base64Encoded } = await session.send('Network.getResponseBody', { requestId });
+      const candidate = this.candidates.get(url);
+      if (!candidate) return;
+
+      candidate.body = base64Encoded ? Buffer.from(body, 'base64').toString('utf8') : body;
+
+      getLogger().debug(
+        { sessionId: this.context.sessionId, url, bodyLength: candidate.body.length },
+        'Manifest body captured via CDP',
+      );
+    } catch (error) {
+      getLogger().debug(
+        { error, sessionId: this.context.sessionId, url },
+        'Failed to capture manifest body via CDP',
+      );
+    }
+  }
+
+  /**
+   * Espera a que terminen las capturas de body en curso (con límite de tiempo).
+   */
+  async waitForPendingBodies(timeoutMs: number): Promise<void> {
+    if (this.pendingBodyCaptures.size === 0) return;
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, timeoutMs);
+    });
+
+    try {
+      await Promise.race([Promise.allSettled(Array.from(this.pendingBodyCaptures)), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   /**
    * Maneja requests HTTP para detectar candidatos HLS y capturar headers relevantes.
    */
@@ -182,7 +305,7 @@ export class HLSDetector {
       const headers = this.normalizeHeaders(request.headers() || {});
 
       if (this.isHLSCandidate(url)) {
-        this.addCandidate(url, headers['content-type'] || '');
+        this.addCandidate(url, headers['content-type'] || '', undefined, this.mainTargetId);
         getLogger().debug(
           { sessionId: this.context.sessionId, url, method: request.method() },
           'HLS candidate from request',
@@ -245,7 +368,7 @@ export class HLSDetector {
         secure: cookie.secure,
       }));
 
-      for (const candidate of this.candidates.values()) {
+      for (const candidate of [...this.candidates.values(), ...this.progressiveCandidates.values()]) {
         candidate.cookies = this.collectedCookies;
       }
 
@@ -278,13 +401,11 @@ export class HLSDetector {
       'index.m3u8',
       'master.m3u8',
       '/engine/hls',
-      'orbitcache.com',
       'urlset/index',
-      'hls2-c',
     ];
     
     // Verificar patrones de URL
-    if (hlsUrlPatterns.some(pattern => u.includes(pattern))) {
+    if (hlsUrlPatterns.some(pattern => u.includes(pattern)) || this.matchesProfilePatterns(url)) {
       return true;
     }
     
@@ -299,6 +420,81 @@ export class HLSDetector {
     return hlsContentTypes.some(type => ct.includes(type));
   }
 
+  /**
+   * Heurística de detección de manifiestos MPEG-DASH por URL y content-type.
+   */
+  private isDashManifest(url: string, contentType: string): boolean {
+    const ct = (contentType || '').toLowerCase();
+    return isDASHUrl(url) || DASH_CONTENT_TYPES.some(type => ct.includes(type));
+  }
+
+  /**
+   * Manifiesto de streaming de cualquier tipo soportado (HLS o DASH).
+   */
+  private isStreamManifest(url: string, contentType: string): boolean {
+    return this.isHlsManifest(url, contentType) || this.isDashManifest(url, contentType);
+  }
+
+  /**
+   * Heurística de detección de vídeo progresivo (MP4/WebM directo): por
+   * content-type, o por URL cuando llega como recurso media o respuesta parcial.
+   * Se descartan los segmentos de HLS/DASH: extensiones fMP4/CMAF, rangos en la
+   * query y trozos acotados pedidos por XHR/fetch (MSE), ya que el elemento
+   * <video> pide los ficheros progresivos con rangos abiertos.
+   */
+  private isProgressiveMedia(
+    url: string,
+    contentType: string,
+    status: number,
+    resourceType: string,
+    headers: Record<string, string>,
+  ): boolean {
+    const isMediaResource = resourceType.toLowerCase() === 'media';
+    if (this.isMediaSegmentUrl(url) || (!isMediaResource && this.isPartialRange(headers))) {
+      return false;
+    }
+
+    if (HLSDetector.isProgressiveContentType(contentType)) {
+      return true;
+    }
+
+    return (isMediaResource || status === 206) && isProgressiveUrl(url);
+  }
+
+  private isMediaSegmentUrl(url: string): boolean {
+    if (BYTE_RANGE_QUERY.test(url)) {
+      return true;
+    }
+    try {
+      return MEDIA_SEGMENT_PATH.test(new URL(url).pathname);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Respuesta parcial que no llega hasta el final del fichero (Content-Range: bytes 0-1023/123456)
+   */
+  private isPartialRange(headers: Record<string, string>): boolean {
+    const match = /bytes\s+(\d+)-(\d+)\/(\d+)/i.exec(headers['content-range'] || '');
+    return !!match && Number(match[2]) + 1 < Number(match[3]);
+  }
+
+  /**
+   * Indica si un content-type corresponde a vídeo progresivo.
+   */
+  static isProgressiveContentType(contentType?: string): boolean {
+    const ct = (contentType || '').toLowerCase();
+    return PROGRESSIVE_CONTENT_TYPES.some(type => ct.startsWith(type));
+  }
+
+  /**
+   * Indica si la URL coincide con algún patrón m3u8 de los perfiles de sitio.
+   */
+  private matchesProfilePatterns(url: string): boolean {
+    return this.profilePatterns.some(pattern => pattern.test(url));
+  }
+
   /**
    * Candidato por URL/CT y patrones opcionales del contexto.
    */
@@ -315,12 +511,14 @@ export class HLSDetector {
       'index.m3u8',
       'master.m3u8',
       '/engine/hls',
-      'orbitcache.com',
       'urlset/index',
-      'hls2-c',
     ];
     
-    if (hlsUrlPatterns.some(pattern => u.includes(pattern))) {
+    if (hlsUrlPatterns.some(pattern => u.includes(pattern)) || this.matchesProfilePatterns(url)) {
+      return true;
+    }
+
+    if (isDASHUrl(url)) {
       return true;
     }
 
@@ -333,6 +531,7 @@ export class HLSDetector {
         'audio/x-mpegurl',
       ];
       if (hlsContentTypes.some((t) => ct.includes(t))) return true;
+      if (DASH_CONTENT_TYPES.some((t) => ct.includes(t))) return true;
     }
 
     if (this.context.options?.m3u8Patterns) {
@@ -351,8 +550,19 @@ export class HLSDetector {
   /**
    * Añade un candidato HLS si no existe ya.
    */
-  private addCandidate(url: string, contentType: string): void {
-    if (this.candidates.has(url)) return;
+  private addCandidate(
+    url: string,
+    contentType: string,
+    status?: number,
+    fromTargetId?: string,
+  ): void {
+    const existing = this.candidates.get(url);
+    if (existing) {
+      // Un candidato visto primero como request se completa con su respuesta
+      existing.status = existing.status ?? status;
+      existing.fromTargetId = existing.fromTargetId ?? fromTargetId;
+      return;
+    }
 
     const newCandidate: HLSCandidate = {
       url,
@@ -361,6 +571,8 @@ export class HLSDetector {
       cookies: [],
       detectedAt: Date.now(),
       source: 'response',
+      status,
+      fromTargetId,
     };
 
     this.candidates.set(url, newCandidate);
@@ -371,6 +583,58 @@ export class HLSDetector {
     );
   }
 
+  /**
+   * Añade o completa un candidato de vídeo progresivo. El reproductor suele
+   * pedir el mismo fichero varias veces por rangos, así que se fusiona la
+   * información de todas las respuestas.
+   */
+  private addProgressiveCandidate(
+    url: string,
+    headers: Record<string, string>,
+    status: number,
+    fromTargetId?: string,
+  ): void {
+    const contentType = HLSDetector.isProgressiveContentType(headers['content-type'])
+      ? headers['content-type']!.split(';')[0]!.trim()
+      : url.toLowerCase().includes('.webm') ? 'video/webm' : 'video/mp4';
+
+    // En respuestas parciales el tamaño total viene en Content-Range (bytes 0-1023/123456)
+    const totalFromRange = /\/(\d+)\s*$/.exec(headers['content-range'] || '')?.[1];
+    const lengthHeader = status === 200 ? headers['content-length'] : undefined;
+    const parsedLength = parseInt(totalFromRange || lengthHeader || '', 10);
+    const contentLength = isNaN(parsedLength) ? undefined : parsedLength;
+
+    const acceptsRanges =
+      status === 206 ||
+      !!headers['content-range'] ||
+      (headers['accept-ranges'] || '').toLowerCase() === 'bytes';
+
+    const existing = this.progressiveCandidates.get(url);
+    if (existing) {
+      existing.contentLength = existing.contentLength ?? contentLength;
+      existing.acceptsRanges = existing.acceptsRanges || acceptsRanges;
+      return;
+    }
+
+    this.progressiveCandidates.set(url, {
+      url,
+      contentType,
+      headers: {},
+      cookies: [],
+      detectedAt: Date.now(),
+      source: 'response',
+      contentLength,
+      acceptsRanges,
+      status,
+      fromTargetId,
+    });
+
+    getLogger().debug(
+      { sessionId: this.context.sessionId, url, contentType, contentLength, acceptsRanges },
+      'Progressive media candidate detected',
+    );
+  }
+
   /**
    * Normaliza headers a un shape plano string:string.
    */
@@ -422,6 +686,16 @@ export class HLSDetector {
     return Array.from(this.candidates.values());
   }
 
+  /**
+   * Candidatos de vídeo progresivo; se usan como fallback cuando no hay manifiestos.
+   * Excluye los ficheros que cuelgan de la ruta de algún manifiesto detectado.
+   */
+  getProgressiveCandidates(): HLSCandidate[] {
+    const manifestDirs = this.getCandidates().map(candidate => candidate.url.split(/[?#]/)[0]!.replace(/[^/]*$/, ''));
+    return Array.from(this.progressiveCandidates.values())
+      .filter(candidate => !manifestDirs.some(dir => candidate.url.startsWith(dir)));
+  }
+
   getRequiredHeaders(): Record<string, string> {
     return { ...this.collectedHeaders };
   }
@@ -476,12 +750,14 @@ export class HLSDetector {
       }
       
       this.cdpSessions.clear();
+      this.pendingBodyCaptures.clear();
     } catch (error) {
       try {
         getLogger().error({ error, sessionId: this.context.sessionId }, 'Error in HLSDetector dispose');
       } catch {}
     } finally {
       this.candidates.clear();
+      this.progressiveCandidates.clear();
       this.collectedHeaders = {};
       this.collectedCookies = [];
     }
@@ -1,5 +1,6 @@
 import type { HTTPRequest } from 'puppeteer';
 import { getLogger } from '../../observability/logger.js';
+import { getSiteProfiles } from '../../../config/site-profiles.js';
 
 /**
  * Tipo de acción para el interceptor
@@ -190,10 +191,11 @@ export class RequestInterceptorFactory {
   /**
    * Crea un interceptor con protección anti-devtool
    */
-  static createAntiDevtool(sessionId?: string): RequestInterceptor {
+  static createAntiDevtool(sessionId?: string, profileBlockRules: string[] = []): RequestInterceptor {
     return new RequestInterceptor({
       rules: [
         RequestInterceptorFactory.createAntiDevtoolBlockRule(), // Prioridad más alta
+        RequestInterceptorFactory.createProfileBlockRule(profileBlockRules),
         RequestInterceptorFactory.createAdBlockRule(),
         RequestInterceptorFactory.createTrackingBlockRule(),
         RequestInterceptorFactory.createOptimizationRule(),
@@ -235,22 +237,31 @@ export class RequestInterceptorFactory {
     };
   }
 
+  /**
+   * Regla para bloquear las URLs de `blockRules` del perfil del sitio
+   */
+  private static createProfileBlockRule(blockRules: string[]): InterceptRule {
+    const patterns = blockRules.map(rule => rule.toLowerCase());
+
+    return {
+      name: 'site-profile-blocker',
+      priority: 950,
+      test: (request: HTTPRequest) => {
+        const url = request.url().toLowerCase();
+        return patterns.some(pattern => url.includes(pattern));
+      },
+      handle: () => ({
+        action: InterceptAction.ABORT,
+        reason: 'Blocked by site profile',
+      }),
+    };
+  }
+
   /**
    * Regla para bloquear anuncios
    */
   private static createAdBlockRule(): InterceptRule {
-    const adDomains = [
-      'ads-twitter.com',
-      'imasdk.googleapis.com',
-      'googleads.com',
-      'googlesyndication.com',
-      'doubleclick.net',
-      'ptichoolsougn.net',
-      'campfirecroutondecorator.com',
-      'jilliandescribecompany.com/log',
-      'static.ads-twitter.com',
-      'facebook.com/tr',
-    ];
+    const adDomains = (getSiteProfiles().getDefaults().blockRules ?? []).map(rule => rule.toLowerCase());
 
     return {
       name: 'ad-blocker',
@@ -302,6 +313,8 @@ export class RequestInterceptorFactory {
    * Regla para optimización de recursos (bloquear imágenes innecesarias)
    */
   private static createOptimizationRule(): InterceptRule {
+    const streamPatterns = getSiteProfiles().getDefaultStreamPatterns();
+
     return {
       name: 'optimization',
       priority: 100,
@@ -316,7 +329,7 @@ export class RequestInterceptorFactory {
           url.includes('manifest') ||
           url.includes('playlist') ||
           url.includes('hls') ||
-          url.includes('orbitcache.com') ||
+          streamPatterns.some(pattern => pattern.test(url)) ||
           url.includes('urlset') ||
           resourceType === 'media' ||
           resourceType === 'xhr' ||
@@ -1,4 +1,13 @@
-import { StreamVariant, StreamEncryption, ParsedM3U8 } from '../../../types/dto.js';
+import {
+  StreamVariant,
+  StreamEncryption,
+  Rendition,
+  ParsedM3U8,
+  ParsedMediaPlaylist,
+  MediaSegment,
+  MediaInitSection,
+  ByteRange,
+} from '../../../types/dto.js';
 import { getLogger } from '../../observability/logger.js';
 
 export class M3U8Parser {
@@ -12,6 +21,7 @@ export class M3U8Parser {
       isLive: true, // Por defecto asumimos live hasta encontrar EXT-X-ENDLIST
       isLowLatency: false,
       variants: [],
+      renditions: [],
       mediaPlaylists: [],
       encryption: undefined,
     };
@@ -48,9 +58,12 @@ export class M3U8Parser {
       } else if (line.startsWith('#EXT-X-KEY:')) {
         result.encryption = this.parseEncryption(line, baseUrl);
       } else if (line.startsWith('#EXT-X-MEDIA:')) {
-        const mediaUrl = this.parseMedia(line);
-        if (mediaUrl) {
-          result.mediaPlaylists.push(this.resolveUrl(mediaUrl, baseUrl));
+        const rendition = this.parseMedia(line, baseUrl);
+        if (rendition) {
+          result.renditions.push(rendition);
+          if (rendition.uri) {
+            result.mediaPlaylists.push(rendition.uri);
+          }
         }
       }
     }
@@ -60,6 +73,7 @@ export class M3U8Parser {
         isLive: result.isLive,
         isLowLatency: result.isLowLatency,
         variantsCount: result.variants.length,
+        renditionsCount: result.renditions.length,
         mediaPlaylistsCount: result.mediaPlaylists.length,
         hasEncryption: !!result.encryption,
       }
@@ -68,6 +82,164 @@ export class M3U8Parser {
     return result;
   }
 
+  /**
+   * Parsea una media playlist completa: segmentos, duraciones y secuencias.
+   * Los tags que afectan a varios segmentos (EXT-X-KEY, EXT-X-MAP) se arrastran
+   * hasta que otro tag del mismo tipo los reemplace.
+   */
+  static parseMediaPlaylist(content: string, baseUrl: string): ParsedMediaPlaylist {
+    const lines = content.split('\n').map(line => line.trim()).filter(Boolean);
+
+    const result: ParsedMediaPlaylist = {
+      mediaSequence: 0,
+      discontinuitySequence: 0,
+      endList: false,
+      segments: [],
+      totalDuration: 0,
+    };
+
+    let pending: Partial<MediaSegment> = {};
+    let currentKey: StreamEncryption | undefined;
+    let currentMap: MediaInitSection | undefined;
+    let nextSequence: number | undefined;
+    let discontinuitySequence: number | undefined;
+    // Fin del último sub-rango, para BYTERANGE sin offset explícito
+    let lastByteRangeEnd: { uri: string; end: number } | undefined;
+
+    for (const line of lines) {
+      if (!line.startsWith('#')) {
+        // Es la URI del segmento que cierra los tags acumulados
+        if (pending.duration === undefined) {
+          continue;
+        }
+
+        nextSequence ??= result.mediaSequence;
+        discontinuitySequence ??= result.discontinuitySequence;
+
+        const uri = this.resolveUrl(line, baseUrl);
+        const segment: MediaSegment = {
+          uri,
+          duration: pending.duration,
+          sequence: nextSequence++,
+          discontinuity: pending.discontinuity || false,
+          discontinuitySequence,
+        };
+
+        if (pending.title) segment.title = pending.title;
+        if (pending.programDateTime) segment.programDateTime = pending.programDateTime;
+        if (currentMap) segment.map = currentMap;
+        if (currentKey && currentKey.method !== 'NONE') segment.encryption = currentKey;
+
+        if (pending.byteRange) {
+          const byteRange = { ...pending.byteRange };
+          if (byteRange.offset === undefined && lastByteRangeEnd?.uri === uri) {
+            byteRange.offset = lastByteRangeEnd.end;
+          }
+          segment.byteRange = byteRange;
+          lastByteRangeEnd = byteRange.offset !== undefined
+            ? { uri, end: byteRange.offset + byteRange.length }
+            : undefined;
+        } else {
+          lastByteRangeEnd = undefined;
+        }
+
+        result.segments.push(segment);
+        pending = {};
+        continue;
+      }
+
+      if (line.startsWith('#EXTINF:')) {
+        const value = line.substring('#EXTINF:'.length);
+        const commaIndex = value.indexOf(',');
+        const durationStr = commaIndex >= 0 ? value.substring(0, commaIndex) : value;
+        const duration = parseFloat(durationStr);
+        pending.duration = isNaN(duration) ? 0 : duration;
+        const title = commaIndex >= 0 ? value.substring(commaIndex + 1).trim() : '';
+        if (title) pending.title = title;
+      } else if (line.startsWith('#EXT-X-TARGETDURATION:')) {
+        const targetDuration = parseInt(line.split(':')[1] || '', 10);
+        if (!isNaN(targetDuration)) result.targetDuration = targetDuration;
+      } else if (line.startsWith('#EXT-X-MEDIA-SEQUENCE:')) {
+        const mediaSequence = parseInt(line.split(':')[1] || '', 10);
+        if (!isNaN(mediaSequence)) result.mediaSequence = mediaSequence;
+      } else if (line.startsWith('#EXT-X-DISCONTINUITY-SEQUENCE:')) {
+        const sequence = parseInt(line.split(':')[1] || '', 10);
+        if (!isNaN(sequence)) result.discontinuitySequence = sequence;
+      } else if (line === '#EXT-X-DISCONTINUITY') {
+        pending.discontinuity = true;
+        discontinuitySequence = (discontinuitySequence ?? result.discontinuitySequence) + 1;
+      } else if (line.startsWith('#EXT-X-PROGRAM-DATE-TIME:')) {
+        pending.programDateTime = line.substring('#EXT-X-PROGRAM-DATE-TIME:'.length);
+      } else if (line.startsWith('#EXT-X-BYTERANGE:')) {
+        pending.byteRange = this.parseByteRange(line.substring('#EXT-X-BYTERANGE:'.length));
+      } else if (line.startsWith('#EXT-X-MAP:')) {
+        currentMap = this.parseMap(line, baseUrl);
+      } else if (line.startsWith('#EXT-X-KEY:')) {
+        currentKey = this.parseEncryption(line, baseUrl);
+      } else if (line.startsWith('#EXT-X-VERSION:')) {
+        const version = parseInt(line.split(':')[1] || '', 10);
+        if (!isNaN(version)) result.version = version;
+      } else if (line.startsWith('#EXT-X-PLAYLIST-TYPE:')) {
+        const playlistType = line.split(':')[1];
+        if (playlistType === 'VOD' || playlistType === 'EVENT') {
+          result.playlistType = playlistType;
+        }
+      } else if (line.startsWith('#EXT-X-ENDLIST')) {
+        result.endList = true;
+      }
+    }
+
+    result.totalDuration = result.segments.reduce((sum, s) => sum + s.duration, 0);
+
+    getLogger().debug({
+      mediaPlaylist: {
+        segmentsCount: result.segments.length,
+        totalDuration: result.totalDuration,
+        targetDuration: result.targetDuration,
+        mediaSequence: result.mediaSequence,
+        endList: result.endList,
+      }
+    }, 'Parsed M3U8 media playlist');
+
+    return result;
+  }
+
+  /**
+   * Parsea el valor de EXT-X-BYTERANGE (<length>[@<offset>])
+   */
+  private static parseByteRange(value: string): ByteRange | undefined {
+    const [lengthStr, offsetStr] = value.replace(/"/g, '').split('@');
+    const length = parseInt(lengthStr || '', 10);
+    if (isNaN(length)) {
+      return undefined;
+    }
+
+    const byteRange: ByteRange = { length };
+    if (offsetStr !== undefined) {
+      const offset = parseInt(offsetStr, 10);
+      if (!isNaN(offset)) byteRange.offset = offset;
+    }
+    return byteRange;
+  }
+
+  /**
+   * Parsea la línea EXT-X-MAP (sección de inicialización de fMP4)
+   */
+  private static parseMap(line: string, baseUrl: string): MediaInitSection | undefined {
+    const attributes = this.parseAttributes(line);
+
+    const uriValue = attributes['URI'];
+    if (!uriValue) {
+      return undefined;
+    }
+
+    const map: MediaInitSection = { uri: this.resolveUrl(uriValue, baseUrl) };
+    if (attributes['BYTERANGE']) {
+      map.byteRange = this.parseByteRange(attributes['BYTERANGE']);
+    }
+    return map;
+  }
+
   /**
    * Parsea la línea EXT-X-STREAM-INF
    */
@@ -95,6 +267,24 @@ export class M3U8Parser {
       }
     }
     
+    if (attributes['AUDIO']) {
+      variant.audioGroupId = attributes['AUDIO'];
+    }
+
+    if (attributes['VIDEO']) {
+      variant.videoGroupId = attributes['VIDEO'];
+    }
+
+    if (attributes['SUBTITLES']) {
+      variant.subtitlesGroupId = attributes['SUBTITLES'];
+    }
+
+    // CLOSED-CAPTIONS=NONE (sin comillas) indica explícitamente que no hay captions
+    const closedCaptions = attributes['CLOSED-CAPTIONS'];
+    if (closedCaptions && closedCaptions !== 'NONE') {
+      variant.closedCaptionsGroupId = closedCaptions;
+    }
+
     if (attributes['FRAME-RATE']) {
       const frameRateStr = attributes['FRAME-RATE'];
       if(frameRateStr) {
@@ -135,17 +325,39 @@ export class M3U8Parser {
   }
 
   /**
-   * Parsea la línea EXT-X-MEDIA para extraer URL de media
+   * Parsea la línea EXT-X-MEDIA como una rendición alternativa (audio, vídeo,
+   * subtítulos o closed captions) perteneciente a un GROUP-ID
    */
-  private static parseMedia(line: string): string | undefined {
+  private static parseMedia(line: string, baseUrl: string): Rendition | undefined {
     const attributes = this.parseAttributes(line);
-    
-    const uriValue = attributes['URI'];
-    if (uriValue) {
-      return uriValue.replace(/"/g, '');
+
+    const type = attributes['TYPE'] as Rendition['type'] | undefined;
+    const groupId = attributes['GROUP-ID'];
+    if (!type || !['AUDIO', 'VIDEO', 'SUBTITLES', 'CLOSED-CAPTIONS'].includes(type) || !groupId) {
+      return undefined;
     }
-    
-    return undefined;
+
+    const rendition: Rendition = {
+      type,
+      groupId,
+      name: attributes['NAME'] || groupId,
+      default: attributes['DEFAULT'] === 'YES',
+      autoselect: attributes['AUTOSELECT'] === 'YES',
+      forced: attributes['FORCED'] === 'YES',
+    };
+
+    if (attributes['LANGUAGE']) rendition.language = attributes['LANGUAGE'];
+    if (attributes['ASSOC-LANGUAGE']) rendition.assocLanguage = attributes['ASSOC-LANGUAGE'];
+    if (attributes['CHANNELS']) rendition.channels = attributes['CHANNELS'];
+    if (attributes['INSTREAM-ID']) rendition.instreamId = attributes['INSTREAM-ID'];
+    if (attributes['CHARACTERISTICS']) rendition.characteristics = attributes['CHARACTERISTICS'];
+
+    // Las closed captions van embebidas en el vídeo y nunca llevan URI
+    if (attributes['URI'] && type !== 'CLOSED-CAPTIONS') {
+      rendition.uri = this.resolveUrl(attributes['URI'], baseUrl);
+    }
+
+    return rendition;
   }
 
   /**
@@ -157,8 +369,8 @@ export class M3U8Parser {
     // Extraer la parte después del ':'
     const attributePart = line.split(':').slice(1).join(':');
     
-    // Regex para parsear atributos key=value
-    const regex = /([A-Z0-9-]+)=([^,]+)/g;
+    // Regex para parsear atributos key=value; los valores entre comillas pueden contener comas
+    const regex = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
     let match;
     
     while ((match = regex.exec(attributePart)) !== null) {
@@ -0,0 +1,313 @@
+import { XMLParser } from 'fast-xml-parser';
+import {
+  ContentProtection,
+  DashAdaptationSet,
+  DashPeriod,
+  DashRepresentation,
+  ParsedMPD,
+} from '../../../types/dto.js';
+import { getLogger } from '../../observability/logger.js';
+
+type XmlNode = Record<string, unknown>;
+
+// Elementos que pueden repetirse y que siempre tratamos como arrays
+const ARRAY_ELEMENTS = new Set([
+  'Period',
+  'AdaptationSet',
+  'Representation',
+  'ContentProtection',
+  'BaseURL',
+]);
+
+// System IDs de DRM conocidos (urn:uuid:<id>)
+const DRM_SYSTEMS: Record<string, string> = {
+  'edef8ba9-79d6-4ace-a3c8-27dcd51d21ed': 'widevine',
+  '9a04f079-9840-4286-ab92-e65be0885f95': 'playready',
+  '94ce86fb-07ff-4f43-adb8-93d2fa968ca2': 'fairplay',
+  'e2719d58-a985-b3c9-781a-b030af78d30e': 'clearkey',
+  '1077efec-c0b2-4d02-ace3-3c1e52e2fb4b': 'clearkey',
+};
+
+const MP4_PROTECTION_SCHEME = 'urn:mpeg:dash:mp4protection:2011';
+
+export class MPDParser {
+  private static xmlParser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    removeNSPrefix: true,
+    parseAttributeValue: false,
+    parseTagValue: false,
+    isArray: (name) => ARRAY_ELEMENTS.has(name),
+  });
+
+  /**
+   * Parsea un manifiesto MPEG-DASH y extrae periodos, adaptation sets,
+   * representaciones e información de protección de contenido
+   */
+  static parseManifest(content: string, baseUrl: string): ParsedMPD {
+    const document = this.xmlParser.parse(content) as XmlNode;
+    const mpd = document['MPD'] as XmlNode | undefined;
+
+    if (!mpd) {
+      throw new Error('Invalid MPD manifest: missing MPD root element');
+    }
+
+    const mpdBaseUrl = this.resolveBaseUrl(mpd, baseUrl);
+
+    const result: ParsedMPD = {
+      isLive: this.attr(mpd, 'type') === 'dynamic',
+      mediaPresentationDuration: this.parseDuration(this.attr(mpd, 'mediaPresentationDuration')),
+      minBufferTime: this.parseDuration(this.attr(mpd, 'minBufferTime')),
+      timeShiftBufferDepth: this.parseDuration(this.attr(mpd, 'timeShiftBufferDepth')),
+      periods: this.children(mpd, 'Period').map(period => this.parsePeriod(period, mpdBaseUrl)),
+      contentProtection: [],
+    };
+
+    // Resumen deduplicado de los sistemas de protección de todo el manifiesto
+    result.contentProtection = this.dedupeProtection(
+      result.periods.flatMap(period => period.adaptationSets.flatMap(set => set.contentProtection)),
+    );
+
+    getLogger().debug({
+      manifest: {
+        isLive: result.isLive,
+        periodsCount: result.periods.length,
+        duration: result.mediaPresentationDuration,
+        protectionSystems: result.contentProtection.map(p => p.system || p.schemeIdUri),
+      }
+    }, 'Parsed MPD manifest');
+
+    return result;
+  }
+
+  /**
+   * Parsea un elemento Period
+   */
+  private static parsePeriod(period: XmlNode, parentBaseUrl: string): DashPeriod {
+    const periodBaseUrl = this.resolveBaseUrl(period, parentBaseUrl);
+
+    return {
+      id: this.attr(period, 'id'),
+      start: this.parseDuration(this.attr(period, 'start')),
+      duration: this.parseDuration(this.attr(period, 'duration')),
+      adaptationSets: this.children(period, 'AdaptationSet')
+        .map(set => this.parseAdaptationSet(set, periodBaseUrl)),
+    };
+  }
+
+  /**
+   * Parsea un AdaptationSet; los atributos comunes (mimeType, codecs...) se
+   * heredan en las representaciones que no los redefinen
+   */
+  private static parseAdaptationSet(set: XmlNode, parentBaseUrl: string): DashAdaptationSet {
+    const setBaseUrl = this.resolveBaseUrl(set, parentBaseUrl);
+    const mimeType = this.attr(set, 'mimeType');
+
+    const protections = this.children(set, 'ContentProtection')
+      .map(cp => this.parseContentProtection(cp));
+
+    const representations = this.children(set, 'Representation').map(representation => {
+      // La protección puede declararse también a nivel de Representation
+      for (const cp of this.children(representation, 'ContentProtection')) {
+        protections.push(this.parseContentProtection(cp));
+      }
+      return this.parseRepresentation(representation, set, setBaseUrl);
+    });
+
+    // Sin contentType ni mimeType en el set, el tipo sale de sus representaciones
+    const contentType = this.attr(set, 'contentType')
+      || mimeType?.split('/')[0]
+      || representations.find(representation => representation.mimeType)?.mimeType?.split('/')[0];
+
+    return {
+      id: this.attr(set, 'id'),
+      contentType,
+      mimeType,
+      lang: this.attr(set, 'lang'),
+      contentProtection: this.dedupeProtection(protections),
+      representations,
+    };
+  }
+
+  /**
+   * Parsea un elemento Representation
+   */
+  private static parseRepresentation(
+    representation: XmlNode,
+    set: XmlNode,
+    parentBaseUrl: string,
+  ): DashRepresentation {
+    const inherited = (name: string): string | undefined =>
+      this.attr(representation, name) ?? this.attr(set, name);
+
+    const result: DashRepresentation = {
+      id: this.attr(representation, 'id'),
+      codecs: inherited('codecs'),
+      mimeType: inherited('mimeType'),
+    };
+
+    const bandwidth = parseInt(this.attr(representation, 'bandwidth') || '', 10);
+    if (!isNaN(bandwidth)) {
+      result.bandwidth = bandwidth;
+    }
+
+    const width = parseInt(inherited('width') || '', 10);
+    const height = parseInt(inherited('height') || '', 10);
+    if (!isNaN(width) && !isNaN(height)) {
+      result.resolution = { width, height };
+    }
+
+    const frameRate = this.parseFrameRate(inherited('frameRate'));
+    if (frameRate !== undefined) {
+      result.frameRate = frameRate;
+    }
+
+    const audioSamplingRate = parseInt(inherited('audioSamplingRate') || '', 10);
+    if (!isNaN(audioSamplingRate)) {
+      result.audioSamplingRate = audioSamplingRate;
+    }
+
+    if (this.children(representation, 'BaseURL').length > 0) {
+      result.baseUrl = this.resolveBaseUrl(representation, parentBaseUrl);
+    }
+
+    return result;
+  }
+
+  /**
+   * Parsea un ContentProtection identificando el sistema DRM, el KID por
+   * defecto, el PSSH y la URL de licencia si vienen declarados
+   */
+  private static parseContentProtection(cp: XmlNode): ContentProtection {
+    const schemeIdUri = this.attr(cp, 'schemeIdUri') || '';
+    const protection: ContentProtection = { schemeIdUri };
+
+    const lowerScheme = schemeIdUri.toLowerCase();
+    if (lowerScheme === MP4_PROTECTION_SCHEME) {
+      protection.system = 'cenc';
+    } else if (lowerScheme.startsWith('urn:uuid:')) {
+      const system = DRM_SYSTEMS[lowerScheme.substring('urn:uuid:'.length)];
+      if (system) protection.system = system;
+    }
+
+    const value = this.attr(cp, 'value');
+    if (value) protection.value = value;
+
+    const defaultKid = this.attr(cp, 'default_KID');
+    if (defaultKid) protection.defaultKid = defaultKid;
+
+    const pssh = this.text(cp['pssh']);
+    if (pssh) protection.pssh = pssh;
+
+    // ms:laurl (licenseUrl como atributo) o dashif:Laurl (URL como texto)
+    const licenseUrl = this.attr(cp['laurl'] as XmlNode | undefined, 'licenseUrl')
+      || this.text(cp['Laurl'])
+      || this.text(cp['laurl']);
+    if (licenseUrl) protection.licenseUrl = licenseUrl;
+
+    return protection;
+  }
+
+  /**
+   * Una entrada por schemeIdUri: el mismo sistema suele repetirse en cada
+   * Representation, a veces con solo parte de los datos (KID, PSSH, licencia)
+   */
+  private static dedupeProtection(protections: ContentProtection[]): ContentProtection[] {
+    const bySchemeId = new Map<string, ContentProtection>();
+    for (const protection of protections) {
+      const key = protection.schemeIdUri.toLowerCase();
+      const existing = bySchemeId.get(key);
+      bySchemeId.set(key, existing ? { ...protection, ...existing } : protection);
+    }
+    return [...bySchemeId.values()];
+  }
+
+  /**
+   * Resuelve el BaseURL de un elemento respecto al BaseURL heredado
+   */
+  private static resolveBaseUrl(node: XmlNode, parentBaseUrl: string): string {
+    const baseUrl = this.text(this.children(node, 'BaseURL')[0]);
+    if (!baseUrl) {
+      return parentBaseUrl;
+    }
+
+    try {
+      return new URL(baseUrl, parentBaseUrl).href;
+    } catch (error) {
+      getLogger().warn({ baseUrl, parentBaseUrl, error }, 'Failed to resolve MPD BaseURL');
+      return parentBaseUrl;
+    }
+  }
+
+  /**
+   * Convierte una duración ISO 8601 (p.ej. PT1H2M3.5S) a segundos
+   */
+  static parseDuration(value: string | undefined): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const match = /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/.exec(value.trim());
+    if (!match) {
+      return undefined;
+    }
+
+    const [, days, hours, minutes, seconds] = match;
+    return (
+      parseFloat(days || '0') * 86400 +
+      parseFloat(hours || '0') * 3600 +
+      parseFloat(minutes || '0') * 60 +
+      parseFloat(seconds || '0')
+    );
+  }
+
+  /**
+   * Parsea frameRate, que puede venir como entero o fracción (30000/1001)
+   */
+  private static parseFrameRate(value: string | undefined): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const [numerator, denominator] = value.split('/').map(Number);
+    if (numerator === undefined || isNaN(numerator)) {
+      return undefined;
+    }
+    if (denominator === undefined) {
+      return numerator;
+    }
+    return isNaN(denominator) || denominator === 0 ? undefined : numerator / denominator;
+  }
+
+  private static attr(node: XmlNode | undefined, name: string): string | undefined {
+    const value = node?.[`@_${name}`];
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  private static children(node: XmlNode, name: string): XmlNode[] {
+    const value = node[name];
+    if (!Array.isArray(value)) {
+      return [];
+    }
+    return value.map(child => (typeof child === 'object' && child !== null ? child : { '#text': child }));
+  }
+
+  private static text(node: unknown): string | undefined {
+    if (typeof node === 'string') {
+      return node.trim() || undefined;
+    }
+    if (typeof node === 'object' && node !== null) {
+      const text = (node as XmlNode)['#text'];
+      return typeof text === 'string' ? text.trim() || undefined : undefined;
+    }
+    return undefined;
+  }
+
+  /**
+   * Valida si el contenido es un manifiesto MPD
+   */
+  static isValidMPD(content: string): boolean {
+    // El elemento raíz aparece al principio, tras la declaración XML y comentarios
+    return /<(?:\w+:)?MPD[\s>]/.test(content.substring(0, 2048));
+  }
+}
@@ -0,0 +1,167 @@
+import { ResolverErrorCode } from '../../types/dto.js';
+import { SsrfBlockedError } from '../security/ssrf-guard.js';
+
+export interface ResolverErrorPolicy {
+  statusCode: 403 | 404 | 502 | 503 | 504;
+  // Intentos totales en los workers; 1 = no se reintenta
+  maxAttempts: number;
+  // El reintento sale por un proxy nuevo en lugar de repetir el mismo camino
+  switchProxy: boolean;
+}
+
+/**
+ * Código HTTP y política de reintentos de cada tipo de fallo
+ */
+export const RESOLVER_ERROR_POLICIES: Record<ResolverErrorCode, ResolverErrorPolicy> = {
+  NAVIGATION_TIMEOUT: { statusCode: 504, maxAttempts: 3, switchProxy: true },
+  DNS_FAILURE: { statusCode: 502, maxAttempts: 1, switchProxy: false },
+  NO_STREAM_FOUND: { statusCode: 404, maxAttempts: 2, switchProxy: false },
+  BLOCKED_BY_CHALLENGE: { statusCode: 502, maxAttempts: 3, switchProxy: true },
+  DOMAIN_NOT_ALLOWED: { statusCode: 403, maxAttempts: 1, switchProxy: false },
+  POOL_EXHAUSTED: { statusCode: 503, maxAttempts: 3, switchProxy: false },
+  MANIFEST_FETCH_FAILED: { statusCode: 502, maxAttempts: 2, switchProxy: false },
+  UPSTREAM_4XX: { statusCode: 502, maxAttempts: 1, switchProxy: false },
+};
+
+// Intentos de los errores sin clasificar
+const DEFAULT_MAX_ATTEMPTS = 2;
+// Máximo de intentos de cualquier política, usado como `attempts` de los jobs
+export const MAX_RESOLVE_ATTEMPTS = Math.max(
+  DEFAULT_MAX_ATTEMPTS,
+  ...Object.values(RESOLVER_ERROR_POLICIES).map(policy => policy.maxAttempts),
+);
+const RETRY_BASE_DELAY_MS = 1000;
+
+// Errores de red de Chromium y de Node que indican que el host no se pudo resolver
+const DNS_ERROR_PATTERN = /net::ERR_NAME_NOT_RESOLVED|net::ERR_NAME_RESOLUTION_FAILED|ENOTFOUND|EAI_AGAIN/;
+// Cabecera con la que Cloudflare marca las respuestas de desafío
+const CHALLENGE_HEADER = 'cf-mitigated';
+
+/**
+ * Fallo de una resolución con un código estable para la API y los workers
+ */
+export class ResolverError extends Error {
+  constructor(
+    public readonly code: ResolverErrorCode,
+    message: string,
+    options?: { cause?: unknown },
+  ) {
+    super(message, options);
+    this.name = 'ResolverError';
+  }
+
+  get statusCode(): ResolverErrorPolicy['statusCode'] {
+    return RESOLVER_ERROR_POLICIES[this.code].statusCode;
+  }
+
+  get policy(): ResolverErrorPolicy {
+    return RESOLVER_ERROR_POLICIES[this.code];
+  }
+}
+
+export class NavigationTimeoutError extends ResolverError {
+  constructor(url: string, options?: { cause?: unknown }) {
+    super('NAVIGATION_TIMEOUT', `Navigation timed out: ${url}`, options);
+    this.name = 'NavigationTimeoutError';
+  }
+}
+
+export class DnsFailureError extends ResolverError {
+  constructor(url: string, options?: { cause?: unknown }) {
+    super('DNS_FAILURE', `Could not resolve host: ${url}`, options);
+    this.name = 'DnsFailureError';
+  }
+}
+
+export class NoStreamFoundError extends ResolverError {
+  constructor(url: string) {
+    super('NO_STREAM_FOUND', `HLS not found after processing: ${url}`);
+    this.name = 'NoStreamFoundError';
+  }
+}
+
+export class BlockedByChallengeError extends ResolverError {
+  constructor(url: string, public readonly upstreamStatus: number) {
+    super('BLOCKED_BY_CHALLENGE', `Blocked by a bot challenge (HTTP ${upstreamStatus}): ${url}`);
+    this.name = 'BlockedByChallengeError';
+  }
+}
+
+export class DomainNotAllowedError extends ResolverError {
+  constructor(url: string, options?: { cause?: unknown }) {
+    super('DOMAIN_NOT_ALLOWED', `Domain not allowed: ${url}`, options);
+    this.name = 'DomainNotAllowedError';
+  }
+}
+
+export class PoolExhaustedError extends ResolverError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('POOL_EXHAUSTED', message, options);
+    this.name = 'PoolExhaustedError';
+  }
+}
+
+export class ManifestFetchFailedError extends ResolverError {
+  constructor(url: string, options?: { cause?: unknown }) {
+    super('MANIFEST_FETCH_FAILED', `Failed to download manifest: ${url}`, options);
+    this.name = 'ManifestFetchFailedError';
+  }
+}
+
+export class Upstream4xxError extends ResolverError {
+  constructor(url: string, public readonly upstreamStatus: number) {
+    super('UPSTREAM_4XX', `Page responded with HTTP ${upstreamStatus}: ${url}`);
+    this.name = 'Upstream4xxError';
+  }
+}
+
+/**
+ * Error de la respuesta 4xx del documento de la página: desafío anti-bots
+ * (marcado por Cloudflare o un 429) o un 4xx corriente
+ */
+export function upstreamErrorFromResponse(
+  url: string,
+  status: number,
+  headers: Record<string, string>,
+): BlockedByChallengeError | Upstream4xxError {
+  if (status === 429 || headers[CHALLENGE_HEADER] === 'challenge') {
+    return new BlockedByChallengeError(url, status);
+  }
+  return new Upstream4xxError(url, status);
+}
+
+/**
+ * Traduce los errores de Puppeteer, red y SSRF a un ResolverError. Devuelve
+ * null si el error no corresponde a ningún código conocido.
+ */
+export function classifyResolverError(error: unknown, url: string): ResolverError | null {
+  if (error instanceof ResolverError) {
+    return error;
+  }
+  if (error instanceof SsrfBlockedError) {
+    return new DomainNotAllowedError(url, { cause: error });
+  }
+  if (!(error instanceof Error)) {
+    return null;
+  }
+  if (error.name === 'TimeoutError') {
+    return new NavigationTimeoutError(url, { cause: error });
+  }
+  if (DNS_ERROR_PATTERN.test(error.message)) {
+    return new DnsFailureError(url, { cause: error });
+  }
+  return null;
+}
+
+/**
+ * Estrategia de backoff de los workers: -1 descarta el reintento cuando el
+ * error ya agotó los intentos de su política. Los errores sin clasificar se
+ * reintentan una vez.
+ */
+export function resolverBackoffStrategy(attemptsMade: number, _type?: string, error?: Error): number {
+  const maxAttempts = error instanceof ResolverError ? error.policy.maxAttempts : DEFAULT_MAX_ATTEMPTS;
+  if (attemptsMade >= maxAttempts) {
+    return -1;
+  }
+  return Math.round(2 ** (attemptsMade - 1) * RETRY_BASE_DELAY_MS);
+}
@@ -1,6 +1,7 @@
 import crypto from 'crypto';
 import {
   ResolveRequest,
+  ResolveOptions,
   ResolveResponse,
   Stream,
   DetectionContext,
@@ -10,15 +11,23 @@ import {
   ResolveHLSResponse,
   Manifest,
   ResolveHLSOptions,
+  ParsedM3U8,
+  ParsedMediaPlaylist,
+  Cookie,
+  RecipeReport,
 } from '../../types/dto.js';
-import { BrowserPool, BrowserPage } from './browser.pool.js';
+import { BrowserPool, BrowserPage, closePageOnAbort, MOBILE_EMULATION } from './browser.pool.js';
 import { HLSDetector } from './detectors/hls-detector.js';
+import { ActivationRecipeRunner } from './activation-recipe.runner.js';
 import { M3U8Parser } from './parsers/m3u8.parser.js';
+import { MPDParser } from './parsers/mpd.parser.js';
 import { getLogger, logPerformance } from '../observability/logger.js';
 import {
   incrementResolveRequest,
   incrementHlsStreams,
+  incrementDashStreams,
   incrementNavigationError,
+  incrementCoalescedResolve,
 } from '../observability/metrics.js';
 import { getConfig, getAllowlistHosts } from '../../config/env.js';
 import {
@@ -27,16 +36,31 @@ import {
   sanitizeUrlForLogging,
   normalizeUrl,
   normalizeM3U8Url,
+  isDASHUrl,
 } from '../../utils/url.js';
-import { HeadersManager } from '../../utils/headers.js';
+import { HeadersManager, buildCookieHeader } from '../../utils/headers.js';
+import { buildRequestKey } from '../../utils/request-key.js';
 import axios from 'axios';
 import {
   IActivationStrategyCache,
   ActivationStrategy,
+  StrategyOutcome,
 } from '../cache/strategy-cache.interface.js';
+import { rankStrategies } from '../cache/strategy-stats.js';
 import { StrategyCacheFactory } from '../cache/strategy-cache.factory.js';
 import { AntiDevtoolResolverService } from './anti-devtool-resolver.service.js';
 import { AntiDevtoolDetector } from './detectors/anti-devtool-detector.js';
+import { SsrfGuard } from '../security/ssrf-guard.js';
+import {
+  DomainNotAllowedError,
+  ManifestFetchFailedError,
+  classifyResolverError,
+  upstreamErrorFromResponse,
+} from './resolver-errors.js';
+import { getSiteProfiles } from '../../config/site-profiles.js';
+import { IProxyProvider } from '../contracts/proxy.provider.js';
+import { ProxyProviderFactory } from '../proxy/proxy.factory.js';
+import type { CDPSession, Page } from 'puppeteer';
 import puppeteer from 'puppeteer-extra';
 import StealthPlugin from 'puppeteer-extra-plugin-stealth';
 
@@ -50,11 +74,23 @@ export enum ActivationStrategyName {
   FastCenterDouble = 'fast-center-double',
   OverlayClose = 'overlay-close',
   PlayElements = 'play-elements',
+  IframeClick = 'iframe-click',
+  Recipe = 'recipe',
 }
 
 export interface NavigationResult {
   strategy: ActivationStrategy | null;
   clicksPerformed: number;
+  recipe?: RecipeReport;
+  // Resultado de cada estrategia aplicada, para las estadísticas del dominio
+  outcomes: StrategyOutcome[];
+  // Tiempo de activación tras la navegación, hasta detectar o agotar las estrategias
+  activationMs: number;
+}
+
+interface ActivationStepResult {
+  detected: boolean;
+  clicks: number;
 }
 
 export class ResolverService {
@@ -62,12 +98,12 @@ export class ResolverService {
   private strategyCache: IActivationStrategyCache;
   private config = getConfig();
   private antiDevtoolResolver: AntiDevtoolResolverService;
+  private proxyProvider: IProxyProvider = ProxyProviderFactory.create();
+  // Resoluciones en curso por clave de petición, compartidas por las llamadas concurrentes
+  private inFlight = new Map<string, Promise<ResolveHLSResponse>>();
 
-  // Dominios predeterminados que requieren protección anti-devtool
-  private static DEFAULT_ANTI_DEVTOOL_DOMAINS = [
-    'lamovie.link',
-    'vimeos.net',
-  ];
+  // Espera adicional para recolectar todos los manifiestos cuando abortAfterFirst=false
+  private static COLLECT_ALL_SETTLE_MS = 3000;
 
   constructor(browserPool: BrowserPool, strategyCache: IActivationStrategyCache) {
     this.browserPool = browserPool;
@@ -76,22 +112,17 @@ export class ResolverService {
   }
 
   /**
-   * Obtiene la lista de dominios que requieren protección anti-devtool
+   * Obtiene la lista de dominios que requieren protección anti-devtool.
+   * Los dominios conocidos se declaran como perfiles de sitio con `mode: anti-devtool`.
    */
   private getAntiDevtoolDomains(): string[] {
-    if (!this.config.ANTI_DEVTOOL_ENABLED) {
+    if (!this.config.ANTI_DEVTOOL_ENABLED || !this.config.ANTI_DEVTOOL_DOMAINS) {
       return [];
     }
 
-    // Si hay dominios configurados en env, usarlos
-    if (this.config.ANTI_DEVTOOL_DOMAINS) {
-      return this.config.ANTI_DEVTOOL_DOMAINS.split(',')
-        .map(d => d.trim())
-        .filter(Boolean);
-    }
-
-    // Usar lista predeterminada
-    return ResolverService.DEFAULT_ANTI_DEVTOOL_DOMAINS;
+    return this.config.ANTI_DEVTOOL_DOMAINS.split(',')
+      .map(d => d.trim())
+      .filter(Boolean);
   }
 
   /**
@@ -137,29 +168,128 @@ export class ResolverService {
     }
   }
 
+  /**
+   * Clave con la que se agrupan las resoluciones concurrentes: URL de la página
+   * normalizada y opciones que afectan al resultado. El proxy no forma parte
+   * de ella y los enlaces de reproducción se firman después, por petición.
+   */
+  public static getFlightKey(url: string, options?: ResolveHLSOptions): string {
+    return buildRequestKey(url, options, ['playbackLink', 'debug']);
+  }
+
   /**
    * Resuelve una URL para encontrar un manifiesto HLS, opcionalmente usando un proxy.
    * Detecta automáticamente si el sitio requiere protección anti-devtool.
+   * Las llamadas concurrentes para la misma URL y opciones comparten una única
+   * navegación; cada llamada recibe su propia copia del resultado.
    * @param url La URL a resolver.
    * @param proxyUrl La URL del proxy a utilizar (opcional).
+   * @param options Opciones de resolución del cliente; se aplican a ambos resolvers (opcional).
+   * @param signal Al abortarse se cierra la página y la resolución falla; estas
+   * llamadas no se comparten con otras (opcional).
    * @returns Una promesa que se resuelve con la respuesta de la resolución.
    */
-  public async resolve(url: string, proxyUrl?: string | null): Promise<ResolveHLSResponse> {
-    // Detectar si necesita protección anti-devtool (ahora asíncrono)
-    const requiresProtection = await this.requiresAntiDevtoolProtection(url);
+  public async resolve(
+    url: string,
+    proxyUrl?: string | null,
+    options?: ResolveHLSOptions,
+    signal?: AbortSignal,
+  ): Promise<ResolveHLSResponse> {
+    if (signal) {
+      // Abortarla no debe hacer fallar a otros llamantes unidos a la misma navegación
+      return this.performResolve(url, proxyUrl, options, signal).catch(error => {
+        throw classifyResolverError(error, url) ?? error;
+      });
+    }
+
+    const key = ResolverService.getFlightKey(url, options);
+    let flight = this.inFlight.get(key);
+
+    if (flight) {
+      incrementCoalescedResolve();
+      getLogger().info({ url: sanitizeUrlForLogging(url) }, 'Joining in-flight resolve for the same URL');
+    } else {
+      flight = this.performResolve(url, proxyUrl, options)
+        .catch(error => {
+          // Los errores de Puppeteer, red o SSRF conocidos salen con su código
+          throw classifyResolverError(error, url) ?? error;
+        })
+        .finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, flight);
+    }
+
+    // Los llamantes modifican la respuesta (p. ej. enlaces de reproducción), así que no se comparte
+    return structuredClone(await flight);
+  }
+
+  private async performResolve(
+    url: string,
+    proxyUrl?: string | null,
+    options?: ResolveHLSOptions,
+    signal?: AbortSignal,
+  ): Promise<ResolveHLSResponse> {
+    signal?.throwIfAborted();
+    // Rechazar destinos internos (metadatos cloud, loopback, red privada...) antes de navegar
+    await SsrfGuard.getInstance().assertPublicUrl(url);
+
+    const profile = getSiteProfiles().findProfile(url);
+    if (profile) {
+      getLogger().debug(
+        { url: sanitizeUrlForLogging(url), profile: profile.name ?? profile.hosts.join(',') },
+        'Applying site profile',
+      );
+    }
+
+    if (profile?.requiresProxy && !proxyUrl) {
+      proxyUrl = await this.proxyProvider.getProxy();
+      if (!proxyUrl) {
+        throw new Error(`Site profile requires a proxy but none is available: ${sanitizeUrlForLogging(url)}`);
+      }
+    }
+
+    // Las opciones del cliente tienen prioridad sobre las del perfil
+    const profileOptions: Partial<ResolveHLSOptions> | undefined = profile
+      ? {
+          ...options,
+          userAgent: options?.userAgent ?? profile.userAgent,
+          extraHeaders: profile.headers ? { ...profile.headers, ...options?.extraHeaders } : options?.extraHeaders,
+          maxWaitMs: options?.maxWaitMs ?? profile.waits?.maxWaitMs,
+        }
+      : options;
+
+    // El modo pedido o el del perfil sustituyen a la detección anti-devtool (ahora asíncrona)
+    const mode = options?.mode ?? profile?.mode;
+    const requiresProtection = mode
+      ? mode === 'anti-devtool' && this.config.ANTI_DEVTOOL_ENABLED
+      : await this.requiresAntiDevtoolProtection(url);
     
     if (requiresProtection) {
       getLogger().info(
         { url: sanitizeUrlForLogging(url) },
         '🛡️ Anti-devtool protection required for this URL',
       );
-      
+
       // Usar resolver especializado
       return this.antiDevtoolResolver.resolve({
         url,
-        timeoutMs: this.config.NAV_TIMEOUT_MS,
-        waitAfterClick: this.config.ANTI_DEVTOOL_WAIT_AFTER_CLICK,
-        clickRetries: 1,
+        timeoutMs: profileOptions?.timeoutMs ?? this.config.NAV_TIMEOUT_MS,
+        waitAfterClick: profile?.waits?.afterClickMs ?? this.config.ANTI_DEVTOOL_WAIT_AFTER_CLICK,
+        clickRetries: profileOptions?.clickRetries ?? 1,
+        maxWaitMs: profileOptions?.maxWaitMs,
+        abortAfterFirst: profileOptions?.abortAfterFirst ?? true,
+        captureBodies: profileOptions?.captureBodies ?? false,
+        emulateMobile: profileOptions?.emulateMobile,
+        m3u8Patterns: profileOptions?.m3u8Patterns,
+        profilePatterns: profile?.m3u8Patterns,
+        recipe: options?.recipe ?? profile?.recipe,
+        debug: profileOptions?.debug,
+        userAgent: profileOptions?.userAgent,
+        viewport: profileOptions?.viewport,
+        extraHeaders: profileOptions?.extraHeaders,
+        waitUntil: profileOptions?.waitUntil,
+        blockRules: profile?.blockRules,
+        proxyUrl,
+        signal,
       });
     }
 
@@ -171,9 +301,10 @@ export class ResolverService {
         clickRetries: 1,
         abortAfterFirst: true,
         captureBodies: false,
+        ...profileOptions,
       },
     };
-    return this.resolveHLS(request, proxyUrl);
+    return this.resolveHLS(request, proxyUrl, signal);
   }
 
   /**
@@ -182,48 +313,29 @@ export class ResolverService {
   async resolveLegacy(request: ResolveRequest): Promise<ResolveResponse> {
     // ⭐ NUEVA IMPLEMENTACIÓN: Usar resolve() con detección automática anti-devtool
     // Esto garantiza que todos los endpoints usen la misma lógica
-    const hlsResponse = await this.resolve(request.url, null);
-    
-    const timings = hlsResponse.timings;
-    const clicksPerformed = hlsResponse.clicksPerformed;
-    const targetsObserved = hlsResponse.targetsObserved;
+    const options = this.mapLegacyOptions(request.options);
+    const hlsResponse = await this.resolve(request.url, null, options);
 
-    // Mapeo de la respuesta nueva al formato antiguo
-    const oldStreams = await this.processHLSCandidates(
-      hlsResponse.manifests.map(m => ({
-        url: m.url,
-        contentType: m.contentType,
-        detectedAt: m.timestamp,
-        source: 'response',
-        headers: {},
-        cookies: [],
-      })),
-      {
-        url: request.url,
-        options: { 
-          timeoutMs: request.options?.maxWaitMs || 10000, 
-          clickRetries: 1, 
-          abortAfterFirst: true, 
-          captureBodies: false 
-        },
-        sessionId: 'legacy',
-        startTime: 0,
-      },
-    );
+    return this.convertToLegacyResponse(hlsResponse, request.url, options);
+  }
 
+  /**
+   * Traduce las opciones de la API v1 a ResolveHLSOptions.
+   * navTimeoutMs limita la navegación y maxWaitMs la espera de detección.
+   */
+  public mapLegacyOptions(options?: Partial<NonNullable<ResolveOptions>>): ResolveHLSOptions {
     return {
-      sessionId: 'legacy',
-      pageUrl: request.url,
-      detectedAt: new Date().toISOString(),
-      streams: oldStreams,
-      bestGuess: this.determineBestGuess(oldStreams),
-      requiredHeaders: {},
-      requiredCookies: [],
-      rawFindings: hlsResponse.manifests.map(m => ({ url: m.url, contentType: m.contentType })),
-      notes: [],
-      timings,
-      clicksPerformed,
-      targetsObserved,
+      timeoutMs: options?.navTimeoutMs ?? this.config.NAV_TIMEOUT_MS,
+      maxWaitMs: options?.maxWaitMs,
+      clickRetries: 1,
+      abortAfterFirst: true,
+      captureBodies: false,
+      emulateMobile: options?.emulateMobile,
+      extraHeaders: options?.extraHeaders,
+      waitUntil: options?.waitUntil,
+      m3u8Patterns: options?.m3u8Patterns,
+      recipe: options?.recipe,
+      mode: options?.mode,
     };
   }
 
@@ -231,49 +343,75 @@ export class ResolverService {
    * Convierte una respuesta interna de HLS en el formato de respuesta heredado.
    * @param hlsResponse La respuesta interna de HLS.
    * @param originalUrl La URL original de la solicitud.
+   * @param options Opciones con las que se resolvió la URL (opcional).
    * @returns Una promesa que se resuelve con la respuesta en formato heredado.
    */
-  public async convertToLegacyResponse(hlsResponse: ResolveHLSResponse, originalUrl: string): Promise<ResolveResponse> {
+  public async convertToLegacyResponse(
+    hlsResponse: ResolveHLSResponse,
+    originalUrl: string,
+    options?: ResolveHLSOptions,
+  ): Promise<ResolveResponse> {
+    const sessionId = hlsResponse.sessionId || this.generateSessionId();
+    const requiredHeaders = hlsResponse.requiredHeaders || {};
+    const requiredCookies = hlsResponse.requiredCookies || [];
+
     const oldStreams = await this.processHLSCandidates(
       hlsResponse.manifests.map(m => ({
         url: m.url,
         contentType: m.contentType,
         detectedAt: m.timestamp,
         source: 'response',
-        headers: {},
-        cookies: [],
+        headers: requiredHeaders,
+        cookies: requiredCookies,
+        body: m.body,
+        contentLength: m.contentLength,
+        acceptsRanges: m.acceptsRanges,
       })),
       {
         url: originalUrl,
-        options: { timeoutMs: 10000, clickRetries: 1, abortAfterFirst: true, captureBodies: false },
-        sessionId: 'legacy-batch',
+        options: {
+          timeoutMs: 10000,
+          clickRetries: 1,
+          abortAfterFirst: true,
+          captureBodies: false,
+          ...options,
+        },
+        sessionId,
         startTime: 0,
       },
     );
 
     return {
-      sessionId: 'legacy-batch',
+      sessionId,
       pageUrl: originalUrl,
       detectedAt: new Date().toISOString(),
       streams: oldStreams,
       bestGuess: this.determineBestGuess(oldStreams),
-      requiredHeaders: {},
-      requiredCookies: [],
+      requiredHeaders,
+      requiredCookies,
       rawFindings: hlsResponse.manifests.map(m => ({ url: m.url, contentType: m.contentType })),
       notes: [],
       timings: hlsResponse.timings,
       clicksPerformed: hlsResponse.clicksPerformed,
       targetsObserved: hlsResponse.targetsObserved,
+      recipe: hlsResponse.recipe,
     };
   }
 
-  async resolveHLS(request: ResolveHLSRequest, proxyUrl?: string | null): Promise<ResolveHLSResponse> {
+  async resolveHLS(
+    request: ResolveHLSRequest,
+    proxyUrl?: string | null,
+    signal?: AbortSignal,
+  ): Promise<ResolveHLSResponse> {
     const sessionId = this.generateSessionId();
     const overallStartTime = Date.now();
     const timings = { total: 0, navigation: 0, activation: 0, detection: 0 };
     let clicksPerformed = 0;
     let targetsObserved = 0;
     let manifests: Manifest[] = [];
+    let requiredHeaders: Record<string, string> = {};
+    let requiredCookies: Cookie[] = [];
+    let recipe: RecipeReport | undefined;
 
     const sanitizedUrl = sanitizeUrlForLogging(request.url);
     getLogger().info(
@@ -284,6 +422,7 @@ export class ResolverService {
     let browserPage: BrowserPage | undefined;
     let detector: HLSDetector | undefined;
     let tempBrowser: any; // Para navegadores temporales con proxy
+    let stopAbortListener = (): void => undefined;
 
     try {
       this.validateRequest({ url: request.url });
@@ -301,6 +440,7 @@ export class ResolverService {
         options: finalOptions,
         sessionId,
         startTime: overallStartTime,
+        profile: getSiteProfiles().findProfile(request.url),
       };
 
       if (proxyUrl) {
@@ -308,27 +448,27 @@ export class ResolverService {
         getLogger().debug({ sessionId, proxyUrl }, 'Launching temporary browser with proxy');
 
         const proxy = new URL(proxyUrl);
-        const proxyServer = `${proxy.protocol}//${proxy.hostname}:${proxy.port}`;
-        const credentials = {
-          username: proxy.username,
-          password: proxy.password,
-        };
-
         tempBrowser = await puppeteerInstance.launch({
           headless: this.config.PUPPETEER_HEADLESS ? 'new' : false,
           args: [
             '--no-sandbox',
             '--disable-setuid-sandbox',
-            `--proxy-server=${proxyServer}`
+            `--proxy-server=${proxy.protocol}//${proxy.hostname}:${proxy.port}`,
           ],
         });
 
         const page = await tempBrowser.newPage();
         
-        if (credentials.username && credentials.password) {
-            await page.authenticate(credentials);
+        if (proxy.username && proxy.password) {
+            await page.authenticate({ username: proxy.username, password: proxy.password });
         }
 
+        // Igual que en las páginas del pool: redirecciones y subrecursos no pueden llegar a direcciones internas
+        await page.setRequestInterception(true);
+        page.on('request', SsrfGuard.getInstance().wrapRequestHandler((interceptedRequest) => {
+          interceptedRequest.continue().catch(() => {});
+        }));
+
         browserPage = new BrowserPage(page, async () => { 
           if (page && !page.isClosed()) await page.close();
         });
@@ -338,6 +478,7 @@ export class ResolverService {
         browserPage = await this.browserPool.getPage();
       }
 
+      stopAbortListener = closePageOnAbort(browserPage.getPage(), signal);
       targetsObserved = browserPage.getPage().browser().targets().length;
 
       detector = new HLSDetector(context);
@@ -349,30 +490,67 @@ export class ResolverService {
         context,
         detector,
       );
-      timings.navigation = Date.now() - navStartTime;
+      // navigateAndDetect cubre navegación y activación; se separan para las métricas
+      timings.activation = result.activationMs;
+      timings.navigation = Date.now() - navStartTime - result.activationMs;
+
+      // Sin abortAfterFirst se deja cargar el resto de manifiestos (variantes, audio, DASH...)
+      if (!finalOptions.abortAfterFirst) {
+        await browserPage.wait(ResolverService.COLLECT_ALL_SETTLE_MS);
+      }
       
       // Extraer información del resultado
-      const successfulStrategy = result?.strategy || null;
       clicksPerformed = result?.clicksPerformed || 0;
+      recipe = result?.recipe;
 
-      const activationStartTime = Date.now();
-      if (successfulStrategy) {
+      if (result.outcomes.length > 0) {
         const domain = new URL(request.url).hostname;
-        await this.strategyCache.set(domain, successfulStrategy);
+        try {
+          await this.strategyCache.recordOutcomes(domain, result.outcomes);
+        } catch (error) {
+          getLogger().warn({ sessionId, domain, error }, 'Failed to record strategy outcomes');
+        }
       }
-      timings.activation = Date.now() - activationStartTime;
 
       const detectionStartTime = Date.now();
-      const candidates = detector.getCandidates();
+      if (finalOptions.captureBodies) {
+        await detector.waitForPendingBodies(this.config.M3U8_DOWNLOAD_TIMEOUT_MS);
+      }
+
+      // El vídeo progresivo solo se reporta si no se encontró ningún manifiesto
+      let candidates = detector.getCandidates();
+      if (candidates.length === 0) {
+        candidates = detector.getProgressiveCandidates();
+      }
+      // status 0: candidato visto solo como request, sin respuesta observada
       manifests = candidates.map(c => ({
         url: c.url,
-        status: 200, // Placeholder
-        contentType: c.contentType || 'application/vnd.apple.mpegurl',
-        fromTargetId: 'unknown', // Placeholder
+        status: c.status ?? 0,
+        contentType: c.contentType || (isDASHUrl(c.url) ? 'application/dash+xml' : 'application/vnd.apple.mpegurl'),
+        fromTargetId: c.fromTargetId || sessionId,
         timestamp: c.detectedAt,
+        body: finalOptions.captureBodies ? c.body : undefined,
+        contentLength: c.contentLength,
+        acceptsRanges: c.acceptsRanges,
       }));
+
+      // Headers y cookies necesarios para reproducir fuera del navegador
+      await detector.collectCookies(browserPage.getPage());
+      requiredHeaders = detector.getRequiredHeaders();
+      requiredCookies = detector.getRequiredCookies();
       timings.detection = Date.now() - detectionStartTime;
 
+      // Sin manifiestos, un documento 4xx indica que el sitio rechazó la visita
+      const documentResponse = browserPage.getDocumentResponse();
+      if (
+        manifests.length === 0 &&
+        documentResponse &&
+        documentResponse.status >= 400 &&
+        documentResponse.status < 500
+      ) {
+        throw upstreamErrorFromResponse(request.url, documentResponse.status, documentResponse.headers);
+      }
+
       incrementResolveRequest('success', manifests.length > 0, timings.total);
     } catch (error) {
       incrementResolveRequest('error', false, Date.now() - overallStartTime);
@@ -380,6 +558,7 @@ export class ResolverService {
       // Re-throw or handle as per API error policy
       throw error;
     } finally {
+      stopAbortListener();
       if (detector) {
         try {
           await detector.dispose();
@@ -415,6 +594,10 @@ export class ResolverService {
       timings,
       clicksPerformed,
       targetsObserved,
+      sessionId,
+      requiredHeaders,
+      requiredCookies,
+      recipe,
     };
   }
 
@@ -424,7 +607,7 @@ export class ResolverService {
     }
     const allowedHosts = getAllowlistHosts();
     if (!isDomainAllowed(request.url, allowedHosts)) {
-      throw new Error(`Domain not allowed: ${request.url}`);
+      throw new DomainNotAllowedError(request.url);
     }
   }
 
@@ -438,6 +621,14 @@ export class ResolverService {
     const browser = page.browser();
     let clicksPerformed = 0;
 
+    // Opciones de navegador del cliente; emulateMobile las sobrescribe más adelante
+    if (options?.userAgent) {
+      await page.setUserAgent(options.userAgent);
+    }
+    if (options?.viewport) {
+      await page.setViewport(options.viewport);
+    }
+
     // (1) Endurecer contra Service Workers y popups ANTES de navegar/activar
     await page.setBypassServiceWorker(true);
     
@@ -504,6 +695,7 @@ export class ResolverService {
       }
     };
     browser.on('targetcreated', onTargetCreated);
+    let blockSession: CDPSession | null = null;
 
     try {
       // Configurar headers adicionales si se proporcionaron
@@ -515,24 +707,20 @@ export class ResolverService {
 
       // Emular móvil si se solicita
       if (options?.emulateMobile) {
-        await page.emulate({
-          userAgent:
-            'Mozilla/5.0 (iPhone; CPU iPhone OS 14_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/14.0 Mobile/15E148 Safari/604.1',
-          viewport: {
-            width: 390,
-            height: 844,
-            deviceScaleFactor: 3,
-            isMobile: true,
-            hasTouch: true,
-            isLandscape: false,
-          },
-        });
+        await page.emulate(MOBILE_EMULATION);
       }
 
       // Configurar timeouts
       const navTimeout = options?.timeoutMs || this.config.NAV_TIMEOUT_MS;
-      const maxWait = options?.timeoutMs || this.config.NAV_TIMEOUT_MS;
+      const maxWait = options?.maxWaitMs || options?.timeoutMs || this.config.NAV_TIMEOUT_MS;
+      // Esperas del perfil: tras navegar (antes de activar) y tras el clic central
+      const settleWait = context.profile?.waits?.afterNavigationMs ?? 1000;
+      const shortWait = context.profile?.waits?.afterClickMs ?? 1000;
 
+      blockSession = await this.applyProfileBlockRules(page, context);
+
+      // La receta de la petición tiene prioridad sobre la del perfil del sitio
+      const recipe = options?.recipe ?? context.profile?.recipe;
 
       // Navegar a la URL
       await browserPage.navigateTo(context.url, {
@@ -547,34 +735,39 @@ export class ResolverService {
         },
         'Navigation completed, starting activation strategy',
       );
+      const activationStart = Date.now();
       
       // OPTIMIZACIÓN: Basado en análisis de logs (67% de los casos), muchos sitios
       // muestran HLS inmediatamente. Se reduce la espera inicial.
       // OPTIMIZACIÓN: Tiempo reducido para detección automática (67% de sitios según análisis)
-      await page.waitForTimeout(1000);
+      await page.waitForTimeout(settleWait);
 
-      // OPTIMIZACIÓN: Early return para sitios automáticos
-      if (detector.getCandidates().length > 0) {
+      // OPTIMIZACIÓN: Early return para sitios automáticos (salvo receta explícita)
+      if (!recipe && detector.getCandidates().length > 0) {
         getLogger().debug(
           { sessionId: context.sessionId },
           'HLS already detected after navigation, no clicks needed'
         );
         return {
           strategy: { name: ActivationStrategyName.None },
-          clicksPerformed: 0
+          clicksPerformed: 0,
+          outcomes: [{ strategy: ActivationStrategyName.None, success: true, timeToDetectionMs: Date.now() - activationStart }],
+          activationMs: Date.now() - activationStart,
         };
       }
 
       // Breve espera adicional para sitios automáticos lentos
-      await page.waitForTimeout(1000);
-      if (detector.getCandidates().length > 0) {
+      await page.waitForTimeout(settleWait);
+      if (!recipe && detector.getCandidates().length > 0) {
         getLogger().debug(
           { sessionId: context.sessionId },
           'HLS detected after brief wait, avoiding unnecessary activation'
         );
         return {
           strategy: { name: ActivationStrategyName.None },
-          clicksPerformed: 0
+          clicksPerformed: 0,
+          outcomes: [{ strategy: ActivationStrategyName.None, success: true, timeToDetectionMs: Date.now() - activationStart }],
+          activationMs: Date.now() - activationStart,
         };
       }
       
@@ -591,335 +784,44 @@ export class ResolverService {
         } catch {}
       }
 
-      // (2) Activación por clic inmediato en el centro del viewport (sin move/delay)
-      const vp = page.viewport() || { width: 800, height: 600 };
-      const cx = Math.max(1, Math.floor(vp.width / 2));
-      const cy = Math.max(1, Math.floor(vp.height / 2));
-      
-      getLogger().debug(
-        { sessionId: context.sessionId, cx, cy, viewport: vp },
-        'Attempting center click'
-      );
-      
-      let clicksPerformed = 0;
-      try {
-        // Agregar timeout para evitar que se cuelgue el clic
-        await Promise.race([
-          page.mouse.click(cx, cy),
-          new Promise((_, reject) => 
-            setTimeout(() => reject(new Error('Click timeout')), 5000)
-          )
-        ]);
-        clicksPerformed++;
-        getLogger().debug(
-          { sessionId: context.sessionId },
-          'First click executed successfully'
-        );
-      } catch (e) {
-        getLogger().warn(
-          { sessionId: context.sessionId, err: (e as Error)?.message },
-          'Center click failed',
-        );
+      let successfulStrategy: ActivationStrategy | null = null;
+      let recipeReport: RecipeReport | undefined;
+      const outcomes: StrategyOutcome[] = [];
+      if (recipe) {
+        const recipeStart = Date.now();
+        const runner = new ActivationRecipeRunner(page, context.sessionId, () => detector.getCandidates().length);
+        const recipeResult = await runner.run(recipe);
+        recipeReport = recipeResult.report;
+        clicksPerformed += recipeResult.clicks;
+        outcomes.push({
+          strategy: ActivationStrategyName.Recipe,
+          success: recipeReport.detected,
+          timeToDetectionMs: Date.now() - recipeStart,
+        });
+        if (recipeReport.detected) {
+          successfulStrategy = { name: ActivationStrategyName.Recipe };
+        }
       }
 
-      // Si la estrategia/opts indica doble clic rápido, emitir un segundo clic con una espera mínima
-      if (options?.clickRetries && options.clickRetries > 0) {
-        try {
-          await page.waitForTimeout(140);
-          await Promise.race([
-            page.mouse.click(cx, cy),
-            new Promise((_, reject) => 
-              setTimeout(() => reject(new Error('Second click timeout')), 5000)
-            )
-          ]);
-          clicksPerformed++;
-          getLogger().debug(
-            { sessionId: context.sessionId },
-            'Second click executed successfully'
-          );
-        } catch (e) {
-          getLogger().warn(
-            { sessionId: context.sessionId, err: (e as Error)?.message },
-            'Second click failed',
-          );
+      // Con receta, la cascada estándar solo se usa si la receta lo permite
+      const activationSteps = recipe && !recipe.fallback ? [] : await this.getActivationSteps(context);
+      for (const step of activationSteps) {
+        if (successfulStrategy) {
+          break;
         }
-      }
-      
-      getLogger().debug(
-        { sessionId: context.sessionId, clicksPerformed },
-        'Click phase completed'
-      );
 
-      // (2.b) Fallback: clicar el centro del mayor iframe visible si no hay HLS pronto
-      // OPTIMIZACIÓN: Timeout reducido - análisis mostró que 1.8s era tiempo muerto
-      const shortWait = 1000; // Reducido de 1800ms
-      let successfulStrategy = await this.waitForStreamDetection(
-        detector,
-        shortWait,
-        context.sessionId,
-      );
-      
-      if (!successfulStrategy) {
         getLogger().debug(
-          { sessionId: context.sessionId },
-          'No HLS detected after initial clicks, trying optimized strategies sequence'
+          { sessionId: context.sessionId, strategy: step },
+          'Applying activation strategy'
         );
-        
-        // ESTRATEGIA 1: Cerrar overlays PRIMERO (más efectivo según análisis de logs voe.sx)
-        try {
-          getLogger().debug(
-            { sessionId: context.sessionId },
-            'Attempting to close overlays/modals that might be blocking the player'
-          );
-          
-          // Buscar y cerrar overlays/modals
-          const overlaysClosed = await page.evaluate(() => {
-            const overlaySelectors = [
-              '.modal', '.popup', '.overlay', '.dialog',
-              '[class*="modal"]', '[class*="popup"]', '[class*="overlay"]',
-              '[class*="dialog"]', '[id*="modal"]', '[id*="popup"]',
-              '.close', '.close-button', '[class*="close"]',
-              '[aria-label*="close"]', '[title*="close"]',
-              // Selectores adicionales para ads comunes
-              '[class*="ad-"]', '[id*="ad-"]', '.advertisement',
-              '.popup-close', '.modal-close', '.overlay-close'
-            ];
-            
-            let closed = 0;
-            for (const selector of overlaySelectors) {
-              try {
-                const elements = document.querySelectorAll(selector);
-                for (const el of Array.from(elements)) {
-                  // Solo elementos visibles
-                  const style = window.getComputedStyle(el);
-                  if (style.display !== 'none' && style.visibility !== 'hidden') {
-                    (el as HTMLElement).click();
-                    closed++;
-                  }
-                }
-              } catch {}
-            }
-            
-            return closed;
-          });
-          
-          if (overlaysClosed > 0) {
-            getLogger().info(
-              { sessionId: context.sessionId, overlaysClosed },
-              'Closed overlays, waiting for player to become available'
-            );
-            
-            // Tiempo optimizado (reducido de 1500ms)
-            await page.waitForTimeout(1000);
-            
-            // Intentar clic en el centro nuevamente después de cerrar overlays
-            try {
-              const vp = page.viewport() || { width: 800, height: 600 };
-              const cx = Math.max(1, Math.floor(vp.width / 2));
-              const cy = Math.max(1, Math.floor(vp.height / 2));
-              
-              await Promise.race([
-                page.mouse.click(cx, cy),
-                new Promise((_, reject) => 
-                  setTimeout(() => reject(new Error('Post-overlay click timeout')), 2000) // Reducido de 3000ms
-                )
-              ]);
-              clicksPerformed++;
-              
-              const detected = await this.waitForStreamDetection(
-                detector,
-                1500, // Reducido de 2000ms
-                context.sessionId,
-              );
-              
-              if (detected) {
-                getLogger().info(
-                  { sessionId: context.sessionId },
-                  'HLS detected after closing overlays!'
-                );
-                successfulStrategy = detected;
-              }
-            } catch {}
-          }
-        } catch (e) {
-          getLogger().warn(
-            { sessionId: context.sessionId, err: (e as Error)?.message },
-            'Overlay closing failed'
-          );
-        }
 
-        // ESTRATEGIA 2: Elementos play (solo si overlays no funcionó)
-        if (!successfulStrategy) {
-          try {
-            // Buscar elementos clickeables específicos (botones de play, video elements, etc)
-            const playElements = await page.evaluate(() => {
-              const selectors = [
-                // Selectores específicos para reproductores
-                'button[class*="play"]', 'button[id*="play"]', 'button[class*="Play"]',
-                '.play-button', '.video-play', '.player-play', '.play-btn',
-                'video', '.video-container', '.player-container', '.video-wrapper',
-                '[class*="player"]', '[id*="player"]', '[class*="Player"]',
-                'button[aria-label*="play"]', 'button[title*="play"]', 'button[title*="Play"]',
-                // Selectores más específicos para sitios de streaming
-                '.vjs-big-play-button', '.plyr__control--overlaid',
-                '.video-js .vjs-poster', '.plyr--video',
-                '[class*="overlay"]', '[class*="Overlay"]',
-                '[data-testid*="play"]', '[data-test*="play"]',
-                // Centros de iframes y divs grandes que podrían ser reproductores
-                'iframe[src*="player"]', 'iframe[src*="embed"]',
-                'div[class*="video"]:not([class*="ad"])', 'div[id*="video"]:not([id*="ad"])'
-              ];
-              
-              const elements: Array<{x: number, y: number, tag: string, classes: string, id: string, area: number}> = [];
-              
-              for (const selector of selectors) {
-                try {
-                  const els = document.querySelectorAll(selector);
-                  for (const el of Array.from(els)) {
-                    const rect = el.getBoundingClientRect();
-                    if (rect.width > 20 && rect.height > 20 && rect.top >= 0 && rect.left >= 0) {
-                      // Evitar elementos de anuncios
-                      const classList = el.className?.toLowerCase() || '';
-                      const elementId = el.id?.toLowerCase() || '';
-                      if (classList.includes('ad') || classList.includes('ads') || 
-                          elementId.includes('ad') || elementId.includes('ads')) {
-                        continue;
-                      }
-                      
-                      const area = rect.width * rect.height;
-                      elements.push({
-                        x: Math.floor(rect.left + rect.width / 2),
-                        y: Math.floor(rect.top + rect.height / 2),
-                        tag: el.tagName.toLowerCase(),
-                        classes: el.className || '',
-                        id: el.id || '',
-                        area: area
-                      });
-                    }
-                  }
-                } catch {}
-              }
-              
-              // Ordenar por área (elementos más grandes primero) y limitar a 5
-              return elements.sort((a, b) => b.area - a.area).slice(0, 5);
-            });
-            
-            getLogger().info(
-              { sessionId: context.sessionId, elementsFound: playElements.length },
-              `Found ${playElements.length} potential play elements`
-            );
-            
-            // Intentar hacer clic en elementos específicos de play/video
-            for (const element of playElements) {
-              try {
-                getLogger().info(
-                  { sessionId: context.sessionId, element },
-                  'Clicking on potential play element'
-                );
-                
-                await Promise.race([
-                  page.mouse.click(element.x, element.y),
-                  new Promise((_, reject) => 
-                    setTimeout(() => reject(new Error('Play element click timeout')), 2500) // Reducido de 3000ms
-                  )
-                ]);
-                clicksPerformed++;
-                
-                // Esperar más tiempo para que se active el reproductor
-                await page.waitForTimeout(800); // Reducido de 1000ms
-                
-                const detected = await this.waitForStreamDetection(
-                  detector,
-                  1800, // Reducido de 2000ms
-                  context.sessionId,
-                );
-                
-                if (detected) {
-                  getLogger().info(
-                    { sessionId: context.sessionId, element },
-                    'HLS detected after clicking play element!'
-                  );
-                  successfulStrategy = detected;
-                  break;
-                }
-              } catch (e) {
-                getLogger().debug(
-                  { sessionId: context.sessionId, err: (e as Error)?.message },
-                  'Play element click failed'
-                );
-              }
-            }
-          } catch (e) {
-            getLogger().warn(
-              { sessionId: context.sessionId, err: (e as Error)?.message },
-              'Play elements detection failed'
-            );
-          }
-        }
-        
-        if (!successfulStrategy) {
-          try {
-            const frames: Array<{
-              x: number;
-              y: number;
-              w: number;
-              h: number;
-              src: string;
-            }> = await page.evaluate(() => {
-              const list = Array.from(document.querySelectorAll('iframe'))
-                .map(el => {
-                  const r = el.getBoundingClientRect();
-                  return {
-                    x: Math.floor(r.left + r.width / 2),
-                    y: Math.floor(r.top + r.height / 2),
-                    w: Math.floor(r.width),
-                    h: Math.floor(r.height),
-                    src: (el as HTMLIFrameElement).src || '',
-                  };
-                })
-                .filter(f => f.w > 40 && f.h > 40); // descartar iframes diminutos típicos de ads
-              list.sort((a, b) => b.w * b.h - a.w * a.h);
-              return list.slice(0, 2); // mayor y segundo mayor por área
-            });
-            
-            for (const f of frames) {
-              try {
-                getLogger().debug(
-                  { sessionId: context.sessionId, frameUrl: f.src, size: `${f.w}x${f.h}` },
-                  'Trying click on iframe'
-                );
-                
-                // Agregar timeout para iframe clicks
-                await Promise.race([
-                  page.mouse.click(f.x, f.y),
-                  new Promise((_, reject) => 
-                    setTimeout(() => reject(new Error('Iframe click timeout')), 3000)
-                  )
-                ]);
-                clicksPerformed++;
-                
-                const ok = await this.waitForStreamDetection(
-                  detector,
-                  1200,
-                  context.sessionId,
-                );
-                if (ok) {
-                  successfulStrategy = ok;
-                  break;
-                }
-              } catch (e) {
-                getLogger().debug(
-                  { sessionId: context.sessionId, frameUrl: f.src, err: (e as Error)?.message },
-                  'Iframe click failed',
-                );
-              }
-            }
-          } catch (e) {
-            getLogger().warn(
-              { sessionId: context.sessionId, err: (e as Error)?.message },
-              'Iframe fallback failed',
-            );
-          }
+        const stepStart = Date.now();
+        const outcome = await this.runActivationStep(step, page, context, detector, shortWait);
+        clicksPerformed += outcome.clicks;
+        outcomes.push({ strategy: step, success: outcome.detected, timeToDetectionMs: Date.now() - stepStart });
+        if (outcome.detected) {
+          successfulStrategy = { name: step };
+          break;
         }
       }
 
@@ -941,6 +843,13 @@ export class ResolverService {
           Math.max(5000, maxWait - shortWait), // Mínimo 5 segundos adicionales
           context.sessionId,
         );
+        if (successfulStrategy) {
+          outcomes.push({
+            strategy: ActivationStrategyName.None,
+            success: true,
+            timeToDetectionMs: Date.now() - activationStart,
+          });
+        }
       }
       
       // Log final de diagnóstico
@@ -958,7 +867,10 @@ export class ResolverService {
       
       return {
         strategy: successfulStrategy,
-        clicksPerformed
+        clicksPerformed,
+        recipe: recipeReport,
+        outcomes,
+        activationMs: Date.now() - activationStart,
       };
     } catch (error) {
       if (error instanceof Error) {
@@ -977,46 +889,456 @@ export class ResolverService {
       try {
         browser.off('targetcreated', onTargetCreated);
       } catch {}
+      // Las páginas del pool se reutilizan: retirar el bloqueo del perfil
+      if (blockSession) {
+        await blockSession.send('Network.setBlockedURLs', { urls: [] }).catch(() => {});
+        await blockSession.detach().catch(() => {});
+      }
     }
   }
 
-  private async performActivationStrategy(
-    browserPage: BrowserPage,
+  /**
+   * Orden de las estrategias de activación: el del perfil del sitio o, si no
+   * lo fija, las estrategias por defecto (clic central, cierre de overlays,
+   * elementos play e iframes) ordenadas por el tiempo esperado según las
+   * estadísticas del dominio.
+   */
+  private async getActivationSteps(context: DetectionContext): Promise<ActivationStrategyName[]> {
+    const profileSteps = context.profile?.activationStrategies;
+    if (profileSteps) {
+      return profileSteps.map(step => step as ActivationStrategyName);
+    }
+
+    const centerClick = context.options?.clickRetries && context.options.clickRetries > 0
+      ? ActivationStrategyName.FastCenterDouble
+      : ActivationStrategyName.FastCenterOnce;
+    const defaultSteps = [
+      centerClick,
+      ActivationStrategyName.OverlayClose,
+      ActivationStrategyName.PlayElements,
+      ActivationStrategyName.IframeClick,
+    ];
+
+    const domain = new URL(context.url).hostname;
+    try {
+      const stats = await this.strategyCache.getStats(domain);
+      const ranked = rankStrategies(defaultSteps, stats);
+      if (stats) {
+        getLogger().debug({ sessionId: context.sessionId, domain, order: ranked }, 'Activation order from strategy stats');
+      }
+      return ranked;
+    } catch (error) {
+      getLogger().warn({ sessionId: context.sessionId, domain, error }, 'Strategy stats unavailable, using default order');
+      return defaultSteps;
+    }
+  }
+
+  private async runActivationStep(
+    step: ActivationStrategyName,
+    page: Page,
     context: DetectionContext,
     detector: HLSDetector,
-  ): Promise<ActivationStrategy | null> {
-    const domain = new URL(context.url).hostname;
-    const cachedStrategy = await this.strategyCache.get(domain);
+    afterClickWait: number,
+  ): Promise<ActivationStepResult> {
+    switch (step) {
+      case ActivationStrategyName.FastCenterOnce:
+        return this.activateByCenterClick(page, context, detector, false, afterClickWait);
+      case ActivationStrategyName.FastCenterDouble:
+        return this.activateByCenterClick(page, context, detector, true, afterClickWait);
+      case ActivationStrategyName.OverlayClose:
+        return this.activateByOverlayClose(page, context, detector);
+      case ActivationStrategyName.PlayElements:
+        return this.activateByPlayElements(page, context, detector);
+      case ActivationStrategyName.IframeClick:
+        return this.activateByIframeClick(page, context, detector);
+      default:
+        return { detected: false, clicks: 0 };
+    }
+  }
 
-    const strategies: ActivationStrategyName[] = cachedStrategy
-      ? [cachedStrategy.name, ...Object.values(ActivationStrategyName).filter(s => s !== cachedStrategy.name)]
-      : [ActivationStrategyName.FastCenterOnce, ActivationStrategyName.FastCenterDouble];
+  /**
+   * Clic inmediato en el centro del viewport (sin move/delay), opcionalmente doble
+   */
+  private async activateByCenterClick(
+    page: Page,
+    context: DetectionContext,
+    detector: HLSDetector,
+    double: boolean,
+    afterClickWait: number,
+  ): Promise<ActivationStepResult> {
+    const vp = page.viewport() || { width: 800, height: 600 };
+    const cx = Math.max(1, Math.floor(vp.width / 2));
+    const cy = Math.max(1, Math.floor(vp.height / 2));
+    
+    getLogger().debug(
+      { sessionId: context.sessionId, cx, cy, viewport: vp },
+      'Attempting center click'
+    );
+    
+    let clicks = 0;
+    try {
+      // Agregar timeout para evitar que se cuelgue el clic
+      await Promise.race([
+        page.mouse.click(cx, cy),
+        new Promise((_, reject) => 
+          setTimeout(() => reject(new Error('Click timeout')), 5000)
+        )
+      ]);
+      clicks++;
+      getLogger().debug(
+        { sessionId: context.sessionId },
+        'First click executed successfully'
+      );
+    } catch (e) {
+      getLogger().warn(
+        { sessionId: context.sessionId, err: (e as Error)?.message },
+        'Center click failed',
+      );
+    }
 
-    // Si HLS aparece sin clic, la estrategia es 'none'
-    if (detector.getCandidates().length > 0) {
-      return { name: ActivationStrategyName.None };
+    // Doble clic rápido: segundo clic con una espera mínima
+    if (double) {
+      try {
+        await page.waitForTimeout(140);
+        await Promise.race([
+          page.mouse.click(cx, cy),
+          new Promise((_, reject) => 
+            setTimeout(() => reject(new Error('Second click timeout')), 5000)
+          )
+        ]);
+        clicks++;
+        getLogger().debug(
+          { sessionId: context.sessionId },
+          'Second click executed successfully'
+        );
+      } catch (e) {
+        getLogger().warn(
+          { sessionId: context.sessionId, err: (e as Error)?.message },
+          'Second click failed',
+        );
+      }
     }
+    
+    getLogger().debug(
+      { sessionId: context.sessionId, clicksPerformed: clicks },
+      'Click phase completed'
+    );
 
-    for (const strategyName of strategies) {
-      if (strategyName === ActivationStrategyName.None) continue;
+    const detected = await this.waitForStreamDetection(
+      detector,
+      afterClickWait,
+      context.sessionId,
+    );
+    return { detected: !!detected, clicks };
+  }
+
+  /**
+   * Cierra overlays/modals que tapan el reproductor y vuelve a clicar el centro
+   */
+  private async activateByOverlayClose(
+    page: Page,
+    context: DetectionContext,
+    detector: HLSDetector,
+  ): Promise<ActivationStepResult> {
+    let clicks = 0;
+    try {
+      getLogger().debug(
+        { sessionId: context.sessionId },
+        'Attempting to close overlays/modals that might be blocking the player'
+      );
+      
+      // Buscar y cerrar overlays/modals
+      const overlaysClosed = await page.evaluate(() => {
+        const overlaySelectors = [
+          '.modal', '.popup', '.overlay', '.dialog',
+          '[class*="modal"]', '[class*="popup"]', '[class*="overlay"]',
+          '[class*="dialog"]', '[id*="modal"]', '[id*="popup"]',
+          '.close', '.close-button', '[class*="close"]',
+          '[aria-label*="close"]', '[title*="close"]',
+          // Selectores adicionales para ads comunes
+          '[class*="ad-"]', '[id*="ad-"]', '.advertisement',
+          '.popup-close', '.modal-close', '.overlay-close'
+        ];
+        
+        let closed = 0;
+        for (const selector of overlaySelectors) {
+          try {
+            const elements = document.querySelectorAll(selector);
+            for (const el of Array.from(elements)) {
+              // Solo elementos visibles
+              const style = window.getComputedStyle(el);
+              if (style.display !== 'none' && style.visibility !== 'hidden') {
+                (el as HTMLElement).click();
+                closed++;
+              }
+            }
+          } catch {}
+        }
+        
+        return closed;
+      });
+      
+      if (overlaysClosed > 0) {
+        getLogger().info(
+          { sessionId: context.sessionId, overlaysClosed },
+          'Closed overlays, waiting for player to become available'
+        );
+        
+        // Tiempo optimizado (reducido de 1500ms)
+        await page.waitForTimeout(1000);
+        
+        // Intentar clic en el centro nuevamente después de cerrar overlays
+        try {
+          const vp = page.viewport() || { width: 800, height: 600 };
+          const cx = Math.max(1, Math.floor(vp.width / 2));
+          const cy = Math.max(1, Math.floor(vp.height / 2));
+          
+          await Promise.race([
+            page.mouse.click(cx, cy),
+            new Promise((_, reject) => 
+              setTimeout(() => reject(new Error('Post-overlay click timeout')), 2000) // Reducido de 3000ms
+            )
+          ]);
+          clicks++;
+          
+          const detected = await this.waitForStreamDetection(
+            detector,
+            1500, // Reducido de 2000ms
+            context.sessionId,
+          );
+          
+          if (detected) {
+            getLogger().info(
+              { sessionId: context.sessionId },
+              'HLS detected after closing overlays!'
+            );
+            return { detected: true, clicks };
+          }
+        } catch {}
+      }
+    } catch (e) {
+      getLogger().warn(
+        { sessionId: context.sessionId, err: (e as Error)?.message },
+        'Overlay closing failed'
+      );
+    }
 
-      getLogger().debug({ sessionId: context.sessionId, strategy: strategyName }, 'Applying activation strategy');
+    return { detected: false, clicks };
+  }
 
-      const clickRetries = strategyName === ActivationStrategyName.FastCenterDouble ? 2 : 1;
+  /**
+   * Clica los elementos de reproductor/botones play más grandes de la página
+   */
+  private async activateByPlayElements(
+    page: Page,
+    context: DetectionContext,
+    detector: HLSDetector,
+  ): Promise<ActivationStepResult> {
+    let clicks = 0;
+    try {
+      // Buscar elementos clickeables específicos (botones de play, video elements, etc)
+      const playElements = await page.evaluate(() => {
+        const selectors = [
+          // Selectores específicos para reproductores
+          'button[class*="play"]', 'button[id*="play"]', 'button[class*="Play"]',
+          '.play-button', '.video-play', '.player-play', '.play-btn',
+          'video', '.video-container', '.player-container', '.video-wrapper',
+          '[class*="player"]', '[id*="player"]', '[class*="Player"]',
+          'button[aria-label*="play"]', 'button[title*="play"]', 'button[title*="Play"]',
+          // Selectores más específicos para sitios de streaming
+          '.vjs-big-play-button', '.plyr__control--overlaid',
+          '.video-js .vjs-poster', '.plyr--video',
+          '[class*="overlay"]', '[class*="Overlay"]',
+          '[data-testid*="play"]', '[data-test*="play"]',
+          // Centros de iframes y divs grandes que podrían ser reproductores
+          'iframe[src*="player"]', 'iframe[src*="embed"]',
+          'div[class*="video"]:not([class*="ad"])', 'div[id*="video"]:not([id*="ad"])'
+        ];
+        
+        const elements: Array<{x: number, y: number, tag: string, classes: string, id: string, area: number}> = [];
+        
+        for (const selector of selectors) {
+          try {
+            const els = document.querySelectorAll(selector);
+            for (const el of Array.from(els)) {
+              const rect = el.getBoundingClientRect();
+              if (rect.width > 20 && rect.height > 20 && rect.top >= 0 && rect.left >= 0) {
+                // Evitar elementos de anuncios
+                const classList = el.className?.toLowerCase() || '';
+                const elementId = el.id?.toLowerCase() || '';
+                if (classList.includes('ad') || classList.includes('ads') || 
+                    elementId.includes('ad') || elementId.includes('ads')) {
+                  continue;
+                }
+                
+                const area = rect.width * rect.height;
+                elements.push({
+                  x: Math.floor(rect.left + rect.width / 2),
+                  y: Math.floor(rect.top + rect.height / 2),
+                  tag: el.tagName.toLowerCase(),
+                  classes: el.className || '',
+                  id: el.id || '',
+                  area: area
+                });
+              }
+            }
+          } catch {}
+        }
+        
+        // Ordenar por área (elementos más grandes primero) y limitar a 5
+        return elements.sort((a, b) => b.area - a.area).slice(0, 5);
+      });
+      
+      getLogger().info(
+        { sessionId: context.sessionId, elementsFound: playElements.length },
+        `Found ${playElements.length} potential play elements`
+      );
+      
+      // Intentar hacer clic en elementos específicos de play/video
+      for (const element of playElements) {
+        try {
+          getLogger().info(
+            { sessionId: context.sessionId, element },
+            'Clicking on potential play element'
+          );
+          
+          await Promise.race([
+            page.mouse.click(element.x, element.y),
+            new Promise((_, reject) => 
+              setTimeout(() => reject(new Error('Play element click timeout')), 2500) // Reducido de 3000ms
+            )
+          ]);
+          clicks++;
+          
+          // Esperar más tiempo para que se active el reproductor
+          await page.waitForTimeout(800); // Reducido de 1000ms
+          
+          const detected = await this.waitForStreamDetection(
+            detector,
+            1800, // Reducido de 2000ms
+            context.sessionId,
+          );
+          
+          if (detected) {
+            getLogger().info(
+              { sessionId: context.sessionId, element },
+              'HLS detected after clicking play element!'
+            );
+            return { detected: true, clicks };
+          }
+        } catch (e) {
+          getLogger().debug(
+            { sessionId: context.sessionId, err: (e as Error)?.message },
+            'Play element click failed'
+          );
+        }
+      }
+    } catch (e) {
+      getLogger().warn(
+        { sessionId: context.sessionId, err: (e as Error)?.message },
+        'Play elements detection failed'
+      );
+    }
 
-      for (let i = 0; i < clickRetries; i++) {
-        await this.clickViewportCenterFast(browserPage);
-        await browserPage.wait(3000); // Espera bounded para detección post-clic
+    return { detected: false, clicks };
+  }
 
-        if (detector.getCandidates().length > 0) {
-          getLogger().info({ sessionId: context.sessionId, strategy: strategyName, clicks: i + 1 }, 'HLS detected after activation');
-          return { name: strategyName };
+  /**
+   * Clica el centro de los dos iframes visibles más grandes
+   */
+  private async activateByIframeClick(
+    page: Page,
+    context: DetectionContext,
+    detector: HLSDetector,
+  ): Promise<ActivationStepResult> {
+    let clicks = 0;
+    try {
+      const frames: Array<{
+        x: number;
+        y: number;
+        w: number;
+        h: number;
+        src: string;
+      }> = await page.evaluate(() => {
+        const list = Array.from(document.querySelectorAll('iframe'))
+          .map(el => {
+            const r = el.getBoundingClientRect();
+            return {
+              x: Math.floor(r.left + r.width / 2),
+              y: Math.floor(r.top + r.height / 2),
+              w: Math.floor(r.width),
+              h: Math.floor(r.height),
+              src: (el as HTMLIFrameElement).src || '',
+            };
+          })
+          .filter(f => f.w > 40 && f.h > 40); // descartar iframes diminutos típicos de ads
+        list.sort((a, b) => b.w * b.h - a.w * a.h);
+        return list.slice(0, 2); // mayor y segundo mayor por área
+      });
+      
+      for (const f of frames) {
+        try {
+          getLogger().debug(
+            { sessionId: context.sessionId, frameUrl: f.src, size: `${f.w}x${f.h}` },
+            'Trying click on iframe'
+          );
+          
+          // Agregar timeout para iframe clicks
+          await Promise.race([
+            page.mouse.click(f.x, f.y),
+            new Promise((_, reject) => 
+              setTimeout(() => reject(new Error('Iframe click timeout')), 3000)
+            )
+          ]);
+          clicks++;
+          
+          const ok = await this.waitForStreamDetection(
+            detector,
+            1200,
+            context.sessionId,
+          );
+          if (ok) {
+            return { detected: true, clicks };
+          }
+        } catch (e) {
+          getLogger().debug(
+            { sessionId: context.sessionId, frameUrl: f.src, err: (e as Error)?.message },
+            'Iframe click failed',
+          );
         }
       }
+    } catch (e) {
+      getLogger().warn(
+        { sessionId: context.sessionId, err: (e as Error)?.message },
+        'Iframe fallback failed',
+      );
     }
 
-    getLogger().warn({ sessionId: context.sessionId }, 'No HLS streams detected after all activation strategies.');
-    return null;
+    return { detected: false, clicks };
+  }
+
+  /**
+   * Aplica las `blockRules` del perfil mediante CDP (Network.setBlockedURLs),
+   * independiente del handler de requests de la página del pool.
+   */
+  private async applyProfileBlockRules(page: Page, context: DetectionContext): Promise<CDPSession | null> {
+    const blockRules = context.profile?.blockRules;
+    if (!blockRules?.length) {
+      return null;
+    }
+
+    try {
+      const session = await page.target().createCDPSession();
+      await session.send('Network.enable');
+      await session.send('Network.setBlockedURLs', { urls: blockRules.map(rule => `*${rule}*`) });
+      return session;
+    } catch (e) {
+      getLogger().warn(
+        { sessionId: context.sessionId, err: (e as Error)?.message },
+        'Failed to apply site profile block rules',
+      );
+      return null;
+    }
   }
 
   private async detectInIframes(page: any, sessionId: string): Promise<void> {
@@ -1068,6 +1390,7 @@ export class ResolverService {
     context: DetectionContext,
   ): Promise<Stream[]> {
     const streams: Stream[] = [];
+    let fetchError: ManifestFetchFailedError | undefined;
 
     for (const candidate of candidates) {
       try {
@@ -1076,13 +1399,23 @@ export class ResolverService {
           streams.push(stream);
 
           // Métricas
-          incrementHlsStreams(
-            stream.isLive || false,
-            stream.isLowLatency || false,
-            (stream.variants?.length || 0) > 0
-          );
+          if (stream.type === 'DASH') {
+            incrementDashStreams(
+              stream.isLive || false,
+              (stream.contentProtection?.length || 0) > 0
+            );
+          } else if (stream.type === 'HLS') {
+            incrementHlsStreams(
+              stream.isLive || false,
+              stream.isLowLatency || false,
+              (stream.variants?.length || 0) > 0
+            );
+          }
         }
       } catch (error) {
+        if (error instanceof ManifestFetchFailedError) {
+          fetchError = error;
+        }
         getLogger().warn({
           sessionId: context.sessionId,
           candidateUrl: sanitizeUrlForLogging(candidate.url),
@@ -1091,6 +1424,11 @@ export class ResolverService {
       }
     }
 
+    // Hubo manifiestos pero ninguno se pudo descargar
+    if (streams.length === 0 && fetchError) {
+      throw fetchError;
+    }
+
     return streams;
   }
 
@@ -1099,26 +1437,47 @@ export class ResolverService {
     context: DetectionContext,
   ): Promise<Stream | null> {
     try {
+      // El vídeo progresivo no tiene manifiesto que descargar
+      if (HLSDetector.isProgressiveContentType(candidate.contentType)) {
+        return this.buildProgressiveStream(candidate);
+      }
+
       // Intentar obtener el contenido del manifiesto
       const manifestContent = await this.fetchManifestContent(candidate, context);
 
+      if (manifestContent && MPDParser.isValidMPD(manifestContent)) {
+        return this.buildDashStream(manifestContent, candidate, context);
+      }
+
       if (!manifestContent || !M3U8Parser.isValidM3U8(manifestContent)) {
         return null;
       }
 
       // Parsear el manifiesto
       const parsed = await M3U8Parser.parseManifest(manifestContent, candidate.url);
+      const mediaPlaylist = await this.loadMediaPlaylist(manifestContent, parsed, candidate, context);
 
       const stream: Stream = {
         type: 'HLS',
         masterUrl: normalizeUrl(candidate.url),
-        isLive: parsed.isLive,
+        isLive: mediaPlaylist ? !mediaPlaylist.endList : parsed.isLive,
         isLowLatency: parsed.isLowLatency,
         variants: parsed.variants.length > 0 ? parsed.variants : undefined,
+        renditions: parsed.renditions.length > 0 ? parsed.renditions : undefined,
         mediaPlaylists: parsed.mediaPlaylists.length > 0 ? parsed.mediaPlaylists : undefined,
         encryption: parsed.encryption,
       };
 
+      if (mediaPlaylist) {
+        stream.targetDuration = mediaPlaylist.targetDuration;
+        stream.segmentCount = mediaPlaylist.segments.length;
+        if (mediaPlaylist.endList) {
+          stream.totalDuration = mediaPlaylist.totalDuration;
+        } else {
+          stream.liveWindowDuration = mediaPlaylist.totalDuration;
+        }
+      }
+
       getLogger().debug({
         sessionId: context.sessionId,
         streamUrl: sanitizeUrlForLogging(stream.masterUrl),
@@ -1129,6 +1488,9 @@ export class ResolverService {
       return stream;
 
     } catch (error) {
+      if (error instanceof ManifestFetchFailedError) {
+        throw error;
+      }
       getLogger().debug({
         sessionId: context.sessionId,
         candidateUrl: sanitizeUrlForLogging(candidate.url),
@@ -1139,6 +1501,104 @@ export class ResolverService {
     }
   }
 
+  /**
+   * Construye un stream de vídeo progresivo (MP4/WebM directo) con la
+   * información capturada de las respuestas del navegador.
+   */
+  private buildProgressiveStream(candidate: HLSCandidate): Stream {
+    return {
+      type: 'PROGRESSIVE',
+      masterUrl: normalizeUrl(candidate.url),
+      isLive: false,
+      mimeType: candidate.contentType,
+      contentLength: candidate.contentLength,
+      acceptsRanges: candidate.acceptsRanges ?? false,
+    };
+  }
+
+  /**
+   * Construye un stream DASH a partir del contenido de un MPD. Las
+   * representaciones de vídeo se exponen también como variantes para que
+   * bestGuess y los clientes existentes puedan compararlas con las de HLS.
+   */
+  private buildDashStream(
+    manifestContent: string,
+    candidate: HLSCandidate,
+    context: DetectionContext,
+  ): Stream {
+    const parsed = MPDParser.parseManifest(manifestContent, candidate.url);
+
+    const variants = parsed.periods
+      .flatMap(period => period.adaptationSets)
+      .filter(set => set.contentType === 'video')
+      .flatMap(set => set.representations)
+      .map(representation => ({
+        uri: representation.baseUrl || candidate.url,
+        bandwidth: representation.bandwidth,
+        codecs: representation.codecs,
+        resolution: representation.resolution,
+        frameRate: representation.frameRate,
+      }))
+      .sort((a, b) => (b.bandwidth || 0) - (a.bandwidth || 0));
+
+    const stream: Stream = {
+      type: 'DASH',
+      masterUrl: normalizeUrl(candidate.url),
+      isLive: parsed.isLive,
+      variants: variants.length > 0 ? variants : undefined,
+      periods: parsed.periods,
+      contentProtection: parsed.contentProtection.length > 0 ? parsed.contentProtection : undefined,
+    };
+
+    if (parsed.isLive) {
+      stream.liveWindowDuration = parsed.timeShiftBufferDepth;
+    } else {
+      stream.totalDuration = parsed.mediaPresentationDuration;
+    }
+
+    getLogger().debug({
+      sessionId: context.sessionId,
+      streamUrl: sanitizeUrlForLogging(stream.masterUrl),
+      isLive: stream.isLive,
+      periodsCount: parsed.periods.length,
+      variantsCount: variants.length,
+    }, 'Successfully processed DASH stream');
+
+    return stream;
+  }
+
+  /**
+   * Obtiene la media playlist asociada a un manifiesto. Si el manifiesto ya es
+   * una media playlist se parsea directamente; si es un master se descarga la
+   * primera variante para conocer duración, número de segmentos y ventana live.
+   */
+  private async loadMediaPlaylist(
+    manifestContent: string,
+    parsed: ParsedM3U8,
+    candidate: HLSCandidate,
+    context: DetectionContext,
+  ): Promise<ParsedMediaPlaylist | null> {
+    if (!M3U8Parser.isMasterPlaylist(manifestContent)) {
+      return M3U8Parser.parseMediaPlaylist(manifestContent, candidate.url);
+    }
+
+    const firstVariant = parsed.variants[0];
+    if (!firstVariant) {
+      return null;
+    }
+
+    // La variante solo aporta detalles: si no se descarga, el stream se devuelve sin ellos
+    const variantContent = await this.fetchManifestContent(
+      { ...candidate, url: firstVariant.uri, body: undefined },
+      context,
+    ).catch(() => null);
+    if (!variantContent || !M3U8Parser.isValidM3U8(variantContent)) {
+      return null;
+    }
+
+    return M3U8Parser.parseMediaPlaylist(variantContent, firstVariant.uri);
+  }
+
   private async fetchManifestContent(
     candidate: HLSCandidate,
     context: DetectionContext,
@@ -1146,6 +1606,12 @@ export class ResolverService {
     const logger = getLogger();
     const sanitizedCandidateUrl = sanitizeUrlForLogging(candidate.url);
 
+    // 0. Preferir el body capturado por el navegador (captureBodies); axios queda como fallback
+    if (candidate.body) {
+      logger.debug({ sessionId: context.sessionId, candidateUrl: sanitizedCandidateUrl }, 'Usando el body del manifiesto capturado por el navegador.');
+      return candidate.body;
+    }
+
     // 1. Normalizar y validar la URL del candidato
     const manifestUrl = normalizeM3U8Url(candidate.url);
     if (!manifestUrl) {
@@ -1153,18 +1619,17 @@ export class ResolverService {
       return null;
     }
 
-    const manifestDomain = manifestUrl.hostname;
-
-    const relevantCookies = candidate.cookies.filter(cookie => {
-      const cookieDomain = cookie.domain || manifestDomain;
-      // Comprobar si el dominio del manifiesto coincide con el dominio de la cookie
-      // Esto incluye subdominios, por ej. .example.com coincide con api.example.com
-      return manifestDomain.endsWith(cookieDomain.startsWith('.') ? cookieDomain.substring(1) : cookieDomain);
-    });
+    const ssrfGuard = SsrfGuard.getInstance();
+    try {
+      await ssrfGuard.assertPublicUrl(manifestUrl.href);
+    } catch {
+      logger.warn({ sessionId: context.sessionId, candidateUrl: sanitizedCandidateUrl }, 'Candidato HLS descartado por apuntar a una dirección interna.');
+      return null;
+    }
 
     const baseHeaders = {
       userAgent: this.config.USER_AGENT,
-      cookie: relevantCookies.map(c => `${c.name}=${c.value}`).join('; ') || undefined,
+      cookie: buildCookieHeader(candidate.cookies, manifestUrl.href),
     };
 
     // --- Intento 1: Perfil de cabeceras completo ---
@@ -1175,6 +1640,7 @@ export class ResolverService {
         headers,
         timeout: this.config.M3U8_DOWNLOAD_TIMEOUT_MS,
         responseType: 'text',
+        ...ssrfGuard.getAxiosConfig(),
       });
       return response.data;
     } catch (error: any) {
@@ -1185,7 +1651,7 @@ export class ResolverService {
             candidateUrl: sanitizedCandidateUrl,
             error: { code: error.code, message: error.message }
         }, 'Error no relacionado con cabeceras al descargar manifiesto.');
-        return null;
+        throw new ManifestFetchFailedError(sanitizedCandidateUrl, { cause: error });
       }
 
       logger.warn({
@@ -1202,6 +1668,7 @@ export class ResolverService {
         headers,
         timeout: this.config.M3U8_DOWNLOAD_TIMEOUT_MS,
         responseType: 'text',
+        ...ssrfGuard.getAxiosConfig(),
       });
       return response.data;
     } catch (error: any) {
@@ -1210,7 +1677,7 @@ export class ResolverService {
           candidateUrl: sanitizedCandidateUrl,
           error: { code: error.code, message: error.message }
       }, 'Fallo al descargar el manifiesto después del reintento con perfil mínimo.');
-      return null;
+      throw new ManifestFetchFailedError(sanitizedCandidateUrl, { cause: error });
     }
   }
 
@@ -1288,32 +1755,6 @@ export class ResolverService {
     return `${timestamp}-${random}`;
   }
 
-  private async clickViewportCenterFast(page: BrowserPage): Promise<void> {
-    try {
-      const pageInstance = page.getPage();
-      const dimensions = await Promise.race([
-        pageInstance.evaluate(() => ({
-          width: window.innerWidth,
-          height: window.innerHeight,
-        })),
-        new Promise<{width: number, height: number}>((_, reject) => 
-          setTimeout(() => reject(new Error('Evaluate timeout')), 3000)
-        )
-      ]);
-      const centerX = Math.max(1, Math.floor((dimensions.width || 1920) / 2));
-      const centerY = Math.max(1, Math.floor((dimensions.height || 1080) / 2));
-      
-      await Promise.race([
-        pageInstance.mouse.click(centerX, centerY, { delay: 0 }),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error('Click timeout')), 3000)
-        )
-      ]);
-    } catch (error) {
-      throw new Error(`Fast click failed: ${(error as Error)?.message}`);
-    }
-  }
-
   private async waitForStreamDetection(
     detector: HLSDetector,
     timeout: number,
@@ -13,20 +13,46 @@ export async function validateAllowlist(
   reply: FastifyReply
 ): Promise<void> {
   const allowedHosts = getAllowlistHosts();
+  const keyAllowedHosts = request.apiKey?.allowedDomains || [];
   
   // Si no hay allowlist configurada, permitir todo
-  if (allowedHosts.length === 0) {
+  if (allowedHosts.length === 0 && keyAllowedHosts.length === 0) {
     return;
   }
 
-  const targetUrl = getTargetUrl(request);
-  
-  if (!targetUrl) {
-    // Si no se puede extraer URL, continuar (será validado en otro lugar)
-    return;
+  // Sin URLs que extraer se continúa (será validado en otro lugar)
+  const targetUrls = getTargetUrls(request);
+  for (const targetUrl of targetUrls) {
+    assertTargetAllowed(request, targetUrl, allowedHosts, keyAllowedHosts);
   }
 
-  if (!isDomainAllowed(targetUrl, allowedHosts)) {
+  if (targetUrls.length > 0) {
+    getLogger().debug({ requestId: request.id, targets: targetUrls.length }, 'Domains validated against allowlist');
+  }
+}
+
+function assertTargetAllowed(
+  request: FastifyRequest,
+  targetUrl: string,
+  allowedHosts: string[],
+  keyAllowedHosts: string[],
+): void {
+  // Además de la allowlist global, cada API key puede restringir sus dominios destino
+  if (keyAllowedHosts.length > 0 && !isDomainAllowed(targetUrl, keyAllowedHosts)) {
+    incrementSecurityEvent('domain_not_allowed_for_key', 'warn');
+    logSecurityEvent('domain_not_allowed_for_key', 'warn', {
+      requestId: request.id,
+      targetUrl,
+      keyId: request.apiKey?.id,
+      ip: request.ip,
+    });
+
+    const error = new Error(`Domain not allowed for this API key: ${targetUrl}`);
+    (error as any).statusCode = 403;
+    throw error;
+  }
+
+  if (allowedHosts.length > 0 && !isDomainAllowed(targetUrl, allowedHosts)) {
     incrementSecurityEvent('domain_not_allowed', 'error');
     logSecurityEvent('domain_not_allowed', 'error', {
       requestId: request.id,
@@ -39,33 +65,46 @@ export async function validateAllowlist(
     (error as any).statusCode = 403;
     throw error;
   }
-
-  getLogger().debug({ requestId: request.id, targetUrl }, 'Domain validated against allowlist');
 }
 
 /**
- * Extrae la URL de destino del request
+ * Extrae las URLs de destino del request: la del body en las resoluciones y
+ * sesiones de reproducción, todas las del lote en /resolve/bulk o, en otros
+ * casos, la del query parameter `url`. Los reintentos de lotes ya creados los
+ * comprueba el worker con la key dueña del lote.
  */
-function getTargetUrl(request: FastifyRequest): string | undefined {
-  // Para requests POST a /resolve, extraer URL del body
-  if (request.method === 'POST' && request.url.includes('/resolve')) {
-    const body = request.body as any;
-    return body?.url;
+export function getTargetUrls(request: FastifyRequest): string[] {
+  const path = request.url.split('?')[0];
+
+  if (request.method === 'POST' && path === '/api/v1/resolve/bulk') {
+    const urls = (request.body as { urls?: unknown } | undefined)?.urls;
+    if (!Array.isArray(urls)) {
+      return [];
+    }
+    return urls
+      .map(entry => (typeof entry === 'string' ? entry : (entry as { url?: unknown } | null)?.url))
+      .filter((url): url is string => typeof url === 'string');
+  }
+
+  if (request.method === 'POST' && ['/api/v1/resolve', '/api/v2/resolve', '/api/v1/play'].includes(path)) {
+    const url = (request.body as { url?: unknown } | undefined)?.url;
+    return typeof url === 'string' ? [url] : [];
   }
 
   // Para otros casos, extraer de query parameters
   const query = request.query as Record<string, unknown>;
   if (query.url && typeof query.url === 'string') {
-    return query.url;
+    return [query.url];
   }
 
-  return undefined;
+  return [];
 }
 
 async function allowlistPlugin(fastify: FastifyInstance): Promise<void> {
   fastify.addHook('preHandler', async (request, reply) => {
-    const protectedRoutes = ['/api/v1/resolve'];
-    if (protectedRoutes.some(route => request.url.startsWith(route))) {
+    const protectedRoutes = ['/api/v1/resolve', '/api/v2/resolve'];
+    const isPlaybackRegistration = request.method === 'POST' && request.url.split('?')[0] === '/api/v1/play';
+    if (isPlaybackRegistration || protectedRoutes.some(route => request.url.startsWith(route))) {
       await validateAllowlist(request, reply);
     }
   });
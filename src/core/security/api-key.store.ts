@@ -0,0 +1,219 @@
+import crypto from 'crypto';
+import { Redis } from 'ioredis';
+import { ApiKeyInfo, ApiKeyScope, CreateApiKeyRequest } from '../../types/dto.js';
+import { getLogger } from '../observability/logger.js';
+import { getRedisClient } from '../redis/redis.client.js';
+import { generateApiKey, hashApiKey } from './api-key.js';
+
+const KEY_PREFIX = 'apikeys:';
+const IDS_KEY = `${KEY_PREFIX}ids`;
+const USAGE_TTL_SECONDS = 2 * 24 * 60 * 60;
+
+/**
+ * API key persistida. Solo se guarda el hash del secreto.
+ */
+export interface ApiKeyRecord extends Omit<ApiKeyInfo, 'usageToday'> {
+  secretHash: string;
+}
+
+export interface QuotaResult {
+  allowed: boolean;
+  used: number;
+  limit: number | null;
+}
+
+/**
+ * Almacén de API keys multi-tenant en Redis.
+ *
+ * - `apikeys:<id>`: registro JSON de la key
+ * - `apikeys:hash:<sha256>`: índice del hash del secreto al id
+ * - `apikeys:ids`: conjunto con todos los ids
+ * - `apikeys:usage:<id>:<YYYY-MM-DD>`: contador de uso diario (UTC)
+ */
+export class ApiKeyStore {
+  private static instance: ApiKeyStore;
+
+  private constructor(private readonly redis: Redis) {}
+
+  public static getInstance(): ApiKeyStore {
+    if (!ApiKeyStore.instance) {
+      ApiKeyStore.instance = new ApiKeyStore(getRedisClient());
+    }
+    return ApiKeyStore.instance;
+  }
+
+  /**
+   * Crea una key y devuelve su registro junto con el secreto en claro,
+   * que no se vuelve a poder recuperar.
+   */
+  async create(input: CreateApiKeyRequest): Promise<{ record: ApiKeyRecord; key: string }> {
+    const key = generateApiKey();
+    const record: ApiKeyRecord = {
+      id: crypto.randomUUID(),
+      name: input.name,
+      prefix: key.substring(0, 8),
+      scopes: input.scopes,
+      dailyQuota: input.dailyQuota,
+      allowedDomains: input.allowedDomains,
+      enabled: true,
+      createdAt: new Date().toISOString(),
+      secretHash: hashApiKey(key),
+    };
+
+    await this.redis
+      .multi()
+      .set(this.recordKey(record.id), JSON.stringify(record))
+      .set(this.hashKey(record.secretHash), record.id)
+      .sadd(IDS_KEY, record.id)
+      .exec();
+
+    getLogger().info({ keyId: record.id, name: record.name, scopes: record.scopes }, 'API key created');
+    return { record, key };
+  }
+
+  async get(id: string): Promise<ApiKeyRecord | null> {
+    const raw = await this.redis.get(this.recordKey(id));
+    return raw ? (JSON.parse(raw) as ApiKeyRecord) : null;
+  }
+
+  /**
+   * Busca la key correspondiente a un secreto en claro
+   */
+  async findByKey(key: string): Promise<ApiKeyRecord | null> {
+    const id = await this.redis.get(this.hashKey(hashApiKey(key)));
+    return id ? this.get(id) : null;
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    const ids = await this.redis.smembers(IDS_KEY);
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const raws = await this.redis.mget(ids.map(id => this.recordKey(id)));
+    return raws
+      .filter((raw): raw is string => raw !== null)
+      .map(raw => JSON.parse(raw) as ApiKeyRecord)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Indica si hay alguna key registrada
+   */
+  async hasKeys(): Promise<boolean> {
+    return (await this.redis.scard(IDS_KEY)) > 0;
+  }
+
+  /**
+   * Genera un nuevo secreto para la key e invalida el anterior
+   */
+  async rotate(id: string): Promise<{ record: ApiKeyRecord; key: string } | null> {
+    const record = await this.get(id);
+    if (!record) {
+      return null;
+    }
+
+    const key = generateApiKey();
+    const previousHash = record.secretHash;
+    record.secretHash = hashApiKey(key);
+    record.prefix = key.substring(0, 8);
+    record.rotatedAt = new Date().toISOString();
+
+    await this.redis
+      .multi()
+      .del(this.hashKey(previousHash))
+      .set(this.hashKey(record.secretHash), record.id)
+      .set(this.recordKey(record.id), JSON.stringify(record))
+      .exec();
+
+    getLogger().info({ keyId: record.id, name: record.name }, 'API key rotated');
+    return { record, key };
+  }
+
+  /**
+   * Deshabilita la key. El registro se conserva para auditoría.
+   */
+  async revoke(id: string): Promise<ApiKeyRecord | null> {
+    const record = await this.get(id);
+    if (!record) {
+      return null;
+    }
+
+    record.enabled = false;
+    record.revokedAt = new Date().toISOString();
+
+    await this.redis
+      .multi()
+      .del(this.hashKey(record.secretHash))
+      .set(this.recordKey(record.id), JSON.stringify(record))
+      .exec();
+
+    getLogger().info({ keyId: record.id, name: record.name }, 'API key revoked');
+    return record;
+  }
+
+  /**
+   * Consume `amount` unidades de la cuota diaria de la key
+   */
+  async consumeQuota(record: ApiKeyRecord, amount = 1): Promise<QuotaResult> {
+    const usageKey = this.usageKey(record.id);
+    const [[, used]] = (await this.redis
+      .multi()
+      .incrby(usageKey, amount)
+      .expire(usageKey, USAGE_TTL_SECONDS)
+      .exec()) as [[Error | null, number], [Error | null, number]];
+
+    return {
+      allowed: record.dailyQuota === null || used <= record.dailyQuota,
+      used,
+      limit: record.dailyQuota,
+    };
+  }
+
+  /**
+   * Uso diario actual de varias keys
+   */
+  async getUsageToday(ids: string[]): Promise<Record<string, number>> {
+    if (ids.length === 0) {
+      return {};
+    }
+
+    const values = await this.redis.mget(ids.map(id => this.usageKey(id)));
+    return Object.fromEntries(ids.map((id, i) => [id, parseInt(values[i] || '0', 10)]));
+  }
+
+  static hasScope(record: Pick<ApiKeyRecord, 'scopes'>, scope: ApiKeyScope): boolean {
+    return record.scopes.includes(scope) || record.scopes.includes('admin');
+  }
+
+  /**
+   * Vista pública de la key, sin el hash del secreto
+   */
+  static toInfo(record: ApiKeyRecord, usageToday?: number): ApiKeyInfo {
+    return {
+      id: record.id,
+      name: record.name,
+      prefix: record.prefix,
+      scopes: record.scopes,
+      dailyQuota: record.dailyQuota,
+      allowedDomains: record.allowedDomains,
+      enabled: record.enabled,
+      createdAt: record.createdAt,
+      rotatedAt: record.rotatedAt,
+      revokedAt: record.revokedAt,
+      usageToday,
+    };
+  }
+
+  private recordKey(id: string): string {
+    return `${KEY_PREFIX}${id}`;
+  }
+
+  private hashKey(secretHash: string): string {
+    return `${KEY_PREFIX}hash:${secretHash}`;
+  }
+
+  private usageKey(id: string): string {
+    return `${KEY_PREFIX}usage:${id}:${new Date().toISOString().substring(0, 10)}`;
+  }
+}
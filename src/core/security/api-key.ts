@@ -1,8 +1,35 @@
+import crypto from 'crypto';
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import fp from 'fastify-plugin';
 import { getLogger, logSecurityEvent } from '../observability/logger.js';
 import { getConfig } from '../../config/env.js';
 import { incrementSecurityEvent } from '../observability/metrics.js';
+import { ApiKeyScope } from '../../types/dto.js';
+import { ApiKeyRecord, ApiKeyStore } from './api-key.store.js';
+
+/**
+ * Identidad autenticada de la petición
+ */
+export interface ApiKeyPrincipal {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  allowedDomains: string[];
+}
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    apiKey?: ApiKeyPrincipal;
+  }
+}
+
+// La API_KEY de entorno actúa como key raíz con todos los permisos
+const ROOT_PRINCIPAL: ApiKeyPrincipal = {
+  id: 'root',
+  name: 'API_KEY',
+  scopes: ['admin'],
+  allowedDomains: [],
+};
 
 /**
  * Middleware para validar API Key
@@ -14,7 +41,6 @@ export async function validateApiKey(
 
   // Lista de rutas públicas que no requieren API key
   const publicRoutes = [
-    '/',
     '/docs',
     '/health',
     '/health/detailed',
@@ -25,14 +51,20 @@ export async function validateApiKey(
   ];
 
   // Si la ruta está en la lista pública, permitir acceso sin verificar la key
-  if (publicRoutes.some(route => request.url.startsWith(route))) {
+  if (request.url === '/' || publicRoutes.some(route => request.url.startsWith(route))) {
+    return;
+  }
+
+  // Los reproductores no envían API key: el token de la URL de reproducción actúa como credencial
+  if (request.method === 'GET' && request.url.startsWith('/api/v1/play/')) {
     return;
   }
 
   const config = getConfig();
+  const store = ApiKeyStore.getInstance();
   
-  // Si no hay API key configurada, permitir acceso
-  if (!config.API_KEY) {
+  // Si no hay API key configurada ni keys registradas, permitir acceso
+  if (!config.API_KEY && !(await store.hasKeys())) {
     return;
   }
 
@@ -54,7 +86,18 @@ export async function validateApiKey(
     });
   }
 
-  if (!isValidApiKey(providedKey, config.API_KEY)) {
+  let principal: ApiKeyPrincipal | null = null;
+  let record: ApiKeyRecord | null = null;
+  if (config.API_KEY && isValidApiKey(providedKey, config.API_KEY)) {
+    principal = ROOT_PRINCIPAL;
+  } else {
+    const found = await store.findByKey(providedKey);
+    if (found?.enabled) {
+      principal = record = found;
+    }
+  }
+
+  if (!principal) {
     incrementSecurityEvent('api_key_invalid', 'error');
     logSecurityEvent('api_key_invalid', 'error', {
       ip: request.ip,
@@ -71,17 +114,129 @@ export async function validateApiKey(
     });
   }
 
+  const requiredScope = getRequiredScopes(request.method, request.url, request.body)
+    .find(scope => !ApiKeyStore.hasScope(principal, scope));
+  if (requiredScope) {
+    incrementSecurityEvent('api_key_scope_denied', 'warn');
+    logSecurityEvent('api_key_scope_denied', 'warn', {
+      ip: request.ip,
+      url: request.url,
+      keyId: principal.id,
+      requiredScope,
+    });
+
+    return reply.status(403).send({
+      error: 'Forbidden',
+      message: `API key lacks the required scope: ${requiredScope}`,
+      statusCode: 403,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  // La cuota solo se consume en peticiones que la key puede hacer
+  const quotaAmount = record ? getQuotaCost(request) : 0;
+  if (record && quotaAmount > 0) {
+    const quota = await store.consumeQuota(record, quotaAmount);
+    if (!quota.allowed) {
+      incrementSecurityEvent('quota_exceeded', 'warn');
+      logSecurityEvent('quota_exceeded', 'warn', {
+        ip: request.ip,
+        url: request.url,
+        keyId: record.id,
+        used: quota.used,
+        limit: quota.limit,
+      });
+
+      return reply
+        .status(429)
+        .header('Retry-After', getSecondsUntilUtcMidnight())
+        .send({
+          error: 'Too Many Requests',
+          message: `Daily quota of ${quota.limit} requests exceeded`,
+          statusCode: 429,
+          timestamp: new Date().toISOString(),
+        });
+    }
+  }
+
+  request.apiKey = {
+    id: principal.id,
+    name: principal.name,
+    scopes: principal.scopes,
+    allowedDomains: principal.allowedDomains,
+  };
+
   // Log acceso exitoso
   logSecurityEvent('api_key_valid', 'info', {
     ip: request.ip,
     url: request.url,
+    keyId: principal.id,
   });
 }
 
+/**
+ * Scope necesario para acceder a una ruta
+ */
+export function getRequiredScope(method: string, url: string): ApiKeyScope {
+  const path = url.split('?')[0];
+
+  if (path.startsWith('/api/v1/admin/')) {
+    return 'admin';
+  }
+  if (path.startsWith('/api/v1/resolve/bulk')) {
+    return 'bulk';
+  }
+  if (path === '/api/v1/play' || path.startsWith('/api/v1/play/')) {
+    return 'proxy-playback';
+  }
+  return 'resolve';
+}
+
+/**
+ * Scopes necesarios para una petición: el de su ruta y, si una resolución
+ * pide enlaces de reproducción firmados (`options.playbackLink`), también
+ * `proxy-playback`
+ */
+export function getRequiredScopes(method: string, url: string, body?: unknown): ApiKeyScope[] {
+  const scope = getRequiredScope(method, url);
+  const options = (body as { options?: { playbackLink?: unknown } } | undefined)?.options;
+  if (method === 'POST' && scope === 'resolve' && options?.playbackLink) {
+    return [scope, 'proxy-playback'];
+  }
+  return [scope];
+}
+
+/**
+ * Unidades de cuota diaria que consume una petición: una por resolución,
+ * una por URL al crear un lote y ninguna en consultas de estado, operaciones
+ * sobre lotes ya creados o administración.
+ */
+function getQuotaCost(request: FastifyRequest): number {
+  if (request.method !== 'POST') {
+    return 0;
+  }
+
+  const scope = getRequiredScope(request.method, request.url);
+  if (scope === 'bulk') {
+    if (request.url.split('?')[0] !== '/api/v1/resolve/bulk') {
+      return 0;
+    }
+    const urls = (request.body as { urls?: unknown } | undefined)?.urls;
+    return Array.isArray(urls) ? urls.length : 1;
+  }
+  return scope === 'resolve' ? 1 : 0;
+}
+
+function getSecondsUntilUtcMidnight(): number {
+  const now = new Date();
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((midnight - now.getTime()) / 1000);
+}
+
 /**
  * Extrae la API key del request
  */
-function extractApiKey(request: FastifyRequest): string | undefined {
+export function extractApiKey(request: FastifyRequest): string | undefined {
   // Intentar obtener de diferentes headers
   const possibleHeaders = [
     'x-api-key',
@@ -151,10 +306,16 @@ async function apiKeyPlugin(fastify: FastifyInstance): Promise<void> {
  * Genera una API key segura
  */
 export function generateApiKey(length = 32): string {
-  const crypto = require('crypto');
   return crypto.randomBytes(length).toString('hex');
 }
 
+/**
+ * Hash con el que se almacenan y buscan las API keys
+ */
+export function hashApiKey(apiKey: string): string {
+  return crypto.createHash('sha256').update(apiKey).digest('hex');
+}
+
 /**
  * Valida el formato de una API key
  */
@@ -0,0 +1,171 @@
+import crypto from 'crypto';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import fp from 'fastify-plugin';
+import { Redis } from 'ioredis';
+import { getLogger, logSecurityEvent } from '../observability/logger.js';
+import { getConfig } from '../../config/env.js';
+import { incrementSecurityEvent } from '../observability/metrics.js';
+import { getRedisClient } from '../redis/redis.client.js';
+
+const RATE_LIMIT_KEY_PREFIX = 'ratelimit:';
+
+/**
+ * Ventana deslizante sobre un sorted set: elimina las peticiones fuera de la
+ * ventana, cuenta las restantes y registra la actual si cabe en el límite.
+ * Devuelve {permitida, peticiones en la ventana, timestamp de la más antigua}.
+ */
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+
+redis.call('ZREMRANGEBYSCORE', key, 0, now - window)
+local count = redis.call('ZCARD', key)
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', key, now, ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', key, window)
+
+local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+return {allowed, count, tonumber(oldest[2]) or now}
+`;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+/**
+ * Rate limiter de ventana deslizante respaldado por Redis, compartido entre réplicas
+ */
+export class SlidingWindowRateLimiter {
+  constructor(
+    private readonly redis: Redis,
+    private readonly limit: number,
+    private readonly windowMs: number,
+  ) {}
+
+  /**
+   * Registra una petición del identificador y devuelve si está dentro del límite
+   */
+  async consume(identifier: string): Promise<RateLimitResult> {
+    const now = Date.now();
+    const member = `${now}-${crypto.randomBytes(4).toString('hex')}`;
+
+    const [allowed, count, oldest] = (await this.redis.eval(
+      SLIDING_WINDOW_SCRIPT,
+      1,
+      `${RATE_LIMIT_KEY_PREFIX}${identifier}`,
+      now,
+      this.windowMs,
+      this.limit,
+      member,
+    )) as [number, number, number];
+
+    return {
+      allowed: allowed === 1,
+      limit: this.limit,
+      remaining: Math.max(0, this.limit - count),
+      resetAt: oldest + this.windowMs,
+    };
+  }
+}
+
+/**
+ * Identificador del cliente: la key ya validada o, si no la hay, su IP. La
+ * cabecera X-API-Key sin validar no se usa: cambiarla en cada petición
+ * esquivaría el límite por IP.
+ */
+export function getClientIdentifier(request: FastifyRequest): string {
+  if (request.apiKey) {
+    return `id:${request.apiKey.id}`;
+  }
+  return `ip:${request.ip}`;
+}
+
+/**
+ * Indica si la ruta está sujeta a rate limiting. Los recursos del proxy de
+ * reproducción se excluyen: un reproductor pide decenas de segmentos por minuto.
+ */
+function isRateLimitedRoute(request: FastifyRequest): boolean {
+  if (!request.url.startsWith('/api/')) {
+    return false;
+  }
+  return !(request.method === 'GET' && request.url.startsWith('/api/v1/play/'));
+}
+
+/**
+ * Middleware de rate limiting por API key o IP
+ */
+export async function enforceRateLimit(
+  limiter: SlidingWindowRateLimiter,
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  let result: RateLimitResult;
+  try {
+    result = await limiter.consume(getClientIdentifier(request));
+  } catch (error) {
+    // Si Redis no está disponible no se bloquea el servicio
+    getLogger().warn({
+      requestId: request.id,
+      error: error instanceof Error ? error.message : error,
+    }, 'Rate limiter unavailable, allowing request');
+    return;
+  }
+
+  void reply.headers({
+    'X-RateLimit-Limit': result.limit,
+    'X-RateLimit-Remaining': result.remaining,
+    'X-RateLimit-Reset': Math.ceil(result.resetAt / 1000),
+  });
+
+  if (result.allowed) {
+    return;
+  }
+
+  const retryAfterSeconds = Math.max(1, Math.ceil((result.resetAt - Date.now()) / 1000));
+
+  incrementSecurityEvent('rate_limited', 'warn');
+  logSecurityEvent('rate_limited', 'warn', {
+    requestId: request.id,
+    ip: request.ip,
+    url: request.url,
+    limit: result.limit,
+    retryAfterSeconds,
+  });
+
+  return reply
+    .status(429)
+    .header('Retry-After', retryAfterSeconds)
+    .send({
+      error: 'Too Many Requests',
+      message: `Rate limit exceeded, retry in ${retryAfterSeconds} seconds`,
+      statusCode: 429,
+      timestamp: new Date().toISOString(),
+      requestId: request.id,
+    });
+}
+
+async function rateLimitPlugin(fastify: FastifyInstance): Promise<void> {
+  const config = getConfig();
+  const limiter = new SlidingWindowRateLimiter(
+    getRedisClient(),
+    config.RATE_LIMIT_MAX,
+    config.RATE_LIMIT_WINDOW_MS,
+  );
+
+  fastify.addHook('preHandler', async (request, reply) => {
+    if (isRateLimitedRoute(request)) {
+      await enforceRateLimit(limiter, request, reply);
+    }
+  });
+}
+
+export default fp(rateLimitPlugin, { name: 'rateLimit' });
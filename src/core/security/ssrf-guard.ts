@@ -0,0 +1,248 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import type { AxiosRequestConfig } from 'axios';
+import type { HTTPRequest } from 'puppeteer';
+import { getSsrfAllowedCidrs } from '../../config/env.js';
+import { getLogger, logSecurityEvent } from '../observability/logger.js';
+import { incrementSecurityEvent } from '../observability/metrics.js';
+
+// Rangos no enrutables públicamente: privados, loopback, link-local (incluye
+// 169.254.169.254 de metadatos cloud), CGNAT, multicast y reservados
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+const BLOCKED_IPV6_RANGES: Array<[string, number]> = [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b:1::', 48],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+];
+
+const DNS_CACHE_TTL_MS = 60_000;
+const DNS_CACHE_MAX_ENTRIES = 1000;
+
+/**
+ * Error lanzado cuando una URL apunta a una dirección interna
+ */
+export class SsrfBlockedError extends Error {
+  public readonly statusCode = 403;
+
+  constructor(public readonly url: string, public readonly address: string) {
+    super(`Target resolves to a blocked address (${address}): ${url}`);
+    this.name = 'SsrfBlockedError';
+  }
+}
+
+/**
+ * Protección SSRF para todo el resolver: peticiones HTTP salientes (axios),
+ * redirecciones y requests del navegador. Las excepciones se configuran con
+ * SSRF_ALLOWED_CIDRS.
+ */
+export class SsrfGuard {
+  private static instance: SsrfGuard;
+  private readonly blocked = new net.BlockList();
+  private readonly allowed = new net.BlockList();
+  private readonly dnsCache = new Map<string, { blockedAddress: string | null; expiresAt: number }>();
+  private readonly httpAgent: http.Agent;
+  private readonly httpsAgent: https.Agent;
+
+  constructor(allowedCidrs: string[] = []) {
+    for (const [network, prefix] of BLOCKED_IPV4_RANGES) {
+      this.blocked.addSubnet(network, prefix, 'ipv4');
+    }
+    for (const [network, prefix] of BLOCKED_IPV6_RANGES) {
+      this.blocked.addSubnet(network, prefix, 'ipv6');
+    }
+
+    for (const cidr of allowedCidrs) {
+      const [network, prefix] = cidr.split('/');
+      const family = net.isIP(network);
+      if (!family) {
+        getLogger().warn({ cidr }, 'Ignoring invalid SSRF_ALLOWED_CIDRS entry');
+        continue;
+      }
+      const type = family === 6 ? 'ipv6' : 'ipv4';
+      this.allowed.addSubnet(network, prefix ? parseInt(prefix, 10) : (family === 6 ? 128 : 32), type);
+    }
+
+    // Los agentes validan cada conexión tras la resolución DNS, incluidas las
+    // de las redirecciones, evitando ataques de DNS rebinding
+    const lookup = this.createGuardedLookup();
+    this.httpAgent = new http.Agent({ keepAlive: true, lookup } as http.AgentOptions);
+    this.httpsAgent = new https.Agent({ keepAlive: true, lookup } as https.AgentOptions);
+  }
+
+  public static getInstance(): SsrfGuard {
+    if (!SsrfGuard.instance) {
+      SsrfGuard.instance = new SsrfGuard(getSsrfAllowedCidrs());
+    }
+    return SsrfGuard.instance;
+  }
+
+  /**
+   * Indica si una IP pertenece a un rango bloqueado y no está exceptuada
+   */
+  isBlockedAddress(address: string): boolean {
+    const family = net.isIP(address);
+    if (!family) {
+      return false;
+    }
+    const type = family === 6 ? 'ipv6' : 'ipv4';
+    return this.blocked.check(address, type) && !this.allowed.check(address, type);
+  }
+
+  /**
+   * Resuelve el host de la URL y lanza SsrfBlockedError si alguna de sus
+   * direcciones es interna. Solo se permiten http y https.
+   */
+  async assertPublicUrl(url: string): Promise<void> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new SsrfBlockedError(url, 'invalid-url');
+    }
+
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      this.reportBlocked(url, parsed.protocol);
+      throw new SsrfBlockedError(url, parsed.protocol);
+    }
+
+    const blockedAddress = await this.findBlockedAddress(parsed.hostname);
+    if (blockedAddress) {
+      this.reportBlocked(url, blockedAddress);
+      throw new SsrfBlockedError(url, blockedAddress);
+    }
+  }
+
+  /**
+   * Opciones de axios que aplican la protección a la conexión inicial y a
+   * cada salto de redirección
+   */
+  getAxiosConfig(): Pick<AxiosRequestConfig, 'httpAgent' | 'httpsAgent' | 'beforeRedirect'> {
+    return {
+      httpAgent: this.httpAgent,
+      httpsAgent: this.httpsAgent,
+      beforeRedirect: (options: Record<string, unknown>): void => {
+        // Las IPs literales no pasan por el lookup del agente
+        const hostname = String(options.hostname || '').replace(/^\[|\]$/g, '');
+        if (this.isBlockedAddress(hostname)) {
+          const redirectUrl = String(options.href || hostname);
+          this.reportBlocked(redirectUrl, hostname);
+          throw new SsrfBlockedError(redirectUrl, hostname);
+        }
+      },
+    };
+  }
+
+  /**
+   * Envuelve un handler de `page.on('request')` para abortar las requests del
+   * navegador hacia direcciones internas antes de delegar en él
+   */
+  wrapRequestHandler(handler: (request: HTTPRequest) => void): (request: HTTPRequest) => void {
+    return (request: HTTPRequest) => {
+      let parsed: URL;
+      try {
+        parsed = new URL(request.url());
+      } catch {
+        handler(request);
+        return;
+      }
+
+      // data:, blob:, chrome-extension:... no generan tráfico de red hacia otros hosts
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:' && parsed.protocol !== 'ws:' && parsed.protocol !== 'wss:') {
+        handler(request);
+        return;
+      }
+
+      this.findBlockedAddress(parsed.hostname)
+        .then(blockedAddress => {
+          if (blockedAddress) {
+            this.reportBlocked(request.url(), blockedAddress);
+            request.abort('addressunreachable').catch(() => {});
+            return;
+          }
+          handler(request);
+        })
+        .catch(() => handler(request));
+    };
+  }
+
+  /**
+   * Devuelve la primera dirección bloqueada a la que resuelve el host, o null
+   */
+  private async findBlockedAddress(hostname: string): Promise<string | null> {
+    const host = hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(host)) {
+      return this.isBlockedAddress(host) ? host : null;
+    }
+
+    const cached = this.dnsCache.get(host);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.blockedAddress;
+    }
+
+    let blockedAddress: string | null = null;
+    try {
+      const addresses = await dns.promises.lookup(host, { all: true });
+      blockedAddress = addresses.find(a => this.isBlockedAddress(a.address))?.address ?? null;
+    } catch {
+      // Si no resuelve, la petición fallará por sí misma
+      return null;
+    }
+
+    if (this.dnsCache.size >= DNS_CACHE_MAX_ENTRIES) {
+      this.dnsCache.clear();
+    }
+    this.dnsCache.set(host, { blockedAddress, expiresAt: Date.now() + DNS_CACHE_TTL_MS });
+    return blockedAddress;
+  }
+
+  private createGuardedLookup(): net.LookupFunction {
+    return ((hostname: string, options: dns.LookupOptions, callback: (
+      error: NodeJS.ErrnoException | null,
+      address?: string | dns.LookupAddress[],
+      family?: number,
+    ) => void) => {
+      dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) {
+          callback(error);
+          return;
+        }
+
+        const blocked = addresses.find(a => this.isBlockedAddress(a.address));
+        if (blocked) {
+          this.reportBlocked(hostname, blocked.address);
+          callback(new SsrfBlockedError(hostname, blocked.address));
+          return;
+        }
+
+        if (options.all) {
+          callback(null, addresses);
+        } else {
+          callback(null, addresses[0].address, addresses[0].family);
+        }
+      });
+    }) as net.LookupFunction;
+  }
+
+  private reportBlocked(url: string, address: string): void {
+    incrementSecurityEvent('ssrf_blocked', 'warn');
+    logSecurityEvent('ssrf_blocked', 'warn', { url, address });
+  }
+}
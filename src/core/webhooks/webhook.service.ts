@@ -0,0 +1,186 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { Job, Queue } from 'bullmq';
+import { getConfig } from '../../config/env.js';
+import { WebhookDelivery, WebhookEvent } from '../../types/dto.js';
+import { getLogger } from '../observability/logger.js';
+import { BatchJobResult, BatchStore } from '../queue/batch.store.js';
+import { SsrfGuard } from '../security/ssrf-guard.js';
+import { sanitizeUrlForLogging } from '../../utils/url.js';
+
+export const WEBHOOK_QUEUE = 'webhook-delivery';
+const WEBHOOK_JOB = 'webhook-delivery-job';
+const SIGNATURE_VERSION = 'v1';
+
+/**
+ * Cuerpo de una notificación. `id` identifica la entrega y se mantiene entre
+ * reintentos para que el receptor pueda descartar duplicados.
+ */
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEvent;
+  batchId: string;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookDeliveryJobData {
+  batchId: string;
+  payload: WebhookPayload;
+}
+
+/**
+ * Notificaciones de los lotes al `callbackUrl` de cada uno. Las entregas se
+ * encolan en BullMQ, que las reintenta con backoff exponencial; cada intento
+ * queda registrado en el lote.
+ *
+ * Cabeceras de cada entrega:
+ * - `X-Webhook-Id`, `X-Webhook-Event`, `X-Webhook-Timestamp`
+ * - `X-Webhook-Signature`: `v1=<HMAC-SHA256 hex de "<timestamp>.<cuerpo>">`
+ */
+export class WebhookService {
+  private static instance: WebhookService;
+  private queue: Queue<WebhookDeliveryJobData>;
+
+  private constructor() {
+    const redisUrl = new URL(getConfig().REDIS_URL);
+    this.queue = new Queue<WebhookDeliveryJobData>(WEBHOOK_QUEUE, {
+      connection: {
+        host: redisUrl.hostname,
+        port: parseInt(redisUrl.port, 10),
+      },
+    });
+  }
+
+  public static getInstance(): WebhookService {
+    if (!WebhookService.instance) {
+      WebhookService.instance = new WebhookService();
+    }
+    return WebhookService.instance;
+  }
+
+  /**
+   * Firma `<timestamp>.<cuerpo>` con el secreto del lote
+   */
+  static sign(secret: string, timestamp: number, body: string): string {
+    const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `${SIGNATURE_VERSION}=${digest}`;
+  }
+
+  /**
+   * Encola una notificación para el webhook del lote
+   */
+  async enqueue(batchId: string, event: WebhookEvent, data: Record<string, unknown>): Promise<void> {
+    const config = getConfig();
+    const payload: WebhookPayload = {
+      id: crypto.randomUUID(),
+      event,
+      batchId,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+
+    await this.queue.add(WEBHOOK_JOB, { batchId, payload }, {
+      jobId: payload.id,
+      attempts: config.WEBHOOK_MAX_ATTEMPTS,
+      backoff: { type: 'exponential', delay: 2000 },
+      removeOnComplete: { count: 1000 },
+      removeOnFail: { count: 5000 },
+    });
+  }
+
+  /**
+   * Encola `batch.completed` si el último resultado registrado terminó el lote
+   */
+  async notifyIfBatchFinished(batchId: string, batch: BatchJobResult): Promise<void> {
+    if (!batch.batchFinished || !batch.hasWebhook) {
+      return;
+    }
+
+    await this.enqueue(batchId, 'batch.completed', {
+      total: batch.total,
+      completed: batch.completed,
+      failed: batch.failed,
+      cancelled: batch.cancelled,
+      durationMs: Date.now() - batch.createdAt,
+    });
+  }
+
+  /**
+   * Realiza un intento de entrega. Lanza un error si falla para que BullMQ
+   * lo reintente.
+   */
+  async deliver(job: Job<WebhookDeliveryJobData>): Promise<void> {
+    const { batchId, payload } = job.data;
+    const batchStore = BatchStore.getInstance();
+    const webhook = await batchStore.getWebhook(batchId);
+    if (!webhook) {
+      getLogger().warn({ batchId, deliveryId: payload.id }, 'Webhook delivery skipped, batch has no webhook');
+      return;
+    }
+
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startTime = Date.now();
+    const delivery: WebhookDelivery = {
+      deliveryId: payload.id,
+      event: payload.event,
+      attempt: job.attemptsMade + 1,
+      success: false,
+      durationMs: 0,
+      attemptedAt: new Date(startTime).toISOString(),
+    };
+
+    try {
+      const ssrfGuard = SsrfGuard.getInstance();
+      await ssrfGuard.assertPublicUrl(webhook.callbackUrl);
+
+      const response = await axios.post(webhook.callbackUrl, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'StreamResolver-Webhook/1.0',
+          'X-Webhook-Id': payload.id,
+          'X-Webhook-Event': payload.event,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': WebhookService.sign(webhook.callbackSecret, timestamp, body),
+        },
+        timeout: getConfig().WEBHOOK_TIMEOUT_MS,
+        maxRedirects: 0,
+        validateStatus: () => true,
+        ...ssrfGuard.getAxiosConfig(),
+      });
+
+      delivery.statusCode = response.status;
+      delivery.success = response.status >= 200 && response.status < 300;
+      if (!delivery.success) {
+        delivery.error = `Webhook endpoint responded with status ${response.status}`;
+      }
+    } catch (error) {
+      delivery.error = error instanceof Error ? error.message : String(error);
+    }
+
+    delivery.durationMs = Date.now() - startTime;
+    await batchStore.recordDelivery(batchId, delivery);
+
+    getLogger().info(
+      {
+        batchId,
+        deliveryId: payload.id,
+        event: payload.event,
+        attempt: delivery.attempt,
+        statusCode: delivery.statusCode,
+        success: delivery.success,
+        callbackUrl: sanitizeUrlForLogging(webhook.callbackUrl),
+      },
+      delivery.success ? 'Webhook delivered' : 'Webhook delivery failed',
+    );
+
+    if (!delivery.success) {
+      throw new Error(delivery.error);
+    }
+  }
+
+  public async close(): Promise<void> {
+    await this.queue.close();
+  }
+}
@@ -8,14 +8,20 @@ import cors from '@fastify/cors';
 import swagger from '@fastify/swagger';
 import swaggerUi from '@fastify/swagger-ui';
 import { loadConfig, getConfig, getCorsOrigins } from '../config/env.js';
+import { loadSiteProfiles } from '../config/site-profiles.js';
 import { getLogger } from '../core/observability/logger.js';
 import { BrowserPool } from '../core/resolver/browser.pool.js';
 import { ResolverService } from '../core/resolver/resolver.service.js';
+import { ResolverError } from '../core/resolver/resolver-errors.js';
 import apiKeyPlugin from '../core/security/api-key.js';
 import allowlistPlugin from '../core/security/allowlist.js';
+import rateLimitPlugin from '../core/security/rate-limit.js';
+import { closeRedisClient } from '../core/redis/redis.client.js';
 import { resolveRoutes } from './routes/resolve.route.js';
 import { healthRoutes } from './routes/health.route.js';
 import { metricsRoutes } from './routes/metrics.route.js';
+import { playRoutes } from './routes/play.route.js';
+import { adminRoutes } from './routes/admin.route.js';
 import { setupBullBoard } from './routes/bull-board.route.js';
 import { IActivationStrategyCache } from '../core/cache/strategy-cache.interface.js';
 import { StrategyCacheFactory } from '../core/cache/strategy-cache.factory.js';
@@ -23,6 +29,7 @@ import { StrategyCacheFactory } from '../core/cache/strategy-cache.factory.js';
 // Cargar configuración
 loadConfig();
 const config = getConfig();
+loadSiteProfiles();
 
 // Crear instancia de Fastify con el Type Provider de Zod
 const fastifyInstance = fastify({
@@ -54,7 +61,16 @@ async function setupPlugins(): Promise<void> {
   await fastifyInstance.register(cors, {
     origin: getCorsOrigins(),
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Request-ID'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Request-ID', 'Range', 'Last-Event-ID'],
+    exposedHeaders: [
+      'Content-Length',
+      'Content-Range',
+      'Accept-Ranges',
+      'Retry-After',
+      'X-RateLimit-Limit',
+      'X-RateLimit-Remaining',
+      'X-RateLimit-Reset',
+    ],
     credentials: true,
   });
 
@@ -76,6 +92,8 @@ async function setupPlugins(): Promise<void> {
         { name: 'resolver', description: 'Endpoints de resolución de streams' },
         { name: 'health', description: 'Endpoints de salud del servicio' },
         { name: 'metrics', description: 'Endpoints de métricas' },
+        { name: 'playback', description: 'Proxy de reproducción de manifiestos y segmentos' },
+        { name: 'admin', description: 'Gestión de API keys y estadísticas de estrategias' },
       ],
       components: {
         securitySchemes: {
@@ -107,6 +125,7 @@ async function setupPlugins(): Promise<void> {
 
   // Plugins de seguridad
   await fastifyInstance.register(apiKeyPlugin);
+  await fastifyInstance.register(rateLimitPlugin);
   await fastifyInstance.register(allowlistPlugin);
 
   getLogger().info('Fastify plugins configured');
@@ -158,7 +177,7 @@ function setupHooks(): void {
     }
 
     return reply.status(statusCode).send({
-      error: getErrorName(statusCode),
+      error: error instanceof ResolverError ? error.code : getErrorName(statusCode),
       message: errorMessage,
       statusCode,
       timestamp: new Date().toISOString(),
@@ -206,6 +225,8 @@ async function setupRoutes(): Promise<void> {
   await resolveRoutes(fastifyInstance, resolverService);
   await healthRoutes(fastifyInstance, browserPool);
   await metricsRoutes(fastifyInstance);
+  await playRoutes(fastifyInstance);
+  await adminRoutes(fastifyInstance, strategyCache);
   
   // Bull Board UI (Express middleware)
   const bullBoardRouter = setupBullBoard();
@@ -227,6 +248,7 @@ async function initializeServices(): Promise<void> {
   // Inicializar browser pool
   browserPool = new BrowserPool({
             maxConcurrentPages: config.WORKER_CONCURRENCY,
+    acquireTimeoutMs: config.BROWSER_POOL_ACQUIRE_TIMEOUT_MS,
     browserPoolSize: config.BROWSER_POOL_SIZE,
     headless: config.PUPPETEER_HEADLESS,
     userAgent: config.USER_AGENT,
@@ -282,6 +304,8 @@ async function gracefulShutdown(signal: string): Promise<void> {
       getLogger().info('Browser pool closed');
     }
 
+    await closeRedisClient();
+
     getLogger().info('Graceful shutdown completed');
     process.exit(0);
 
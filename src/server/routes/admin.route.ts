@@ -0,0 +1,202 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  ApiKeyListResponseZod,
+  ApiKeyWithSecretZod,
+  ApiKeyZod,
+  CreateApiKeyRequestZod,
+  DomainStrategyStatsResponse,
+  DomainStrategyStatsResponseZod,
+  ErrorResponseZod,
+  StrategyStatsListResponseZod,
+} from '../../types/dto.js';
+import { logSecurityEvent } from '../../core/observability/logger.js';
+import { ApiKeyStore } from '../../core/security/api-key.store.js';
+import { isValidDomainFormat } from '../../core/security/allowlist.js';
+import { DomainStrategyStats, IActivationStrategyCache } from '../../core/cache/strategy-cache.interface.js';
+import { rankStrategies } from '../../core/cache/strategy-stats.js';
+import { ActivationStrategyName } from '../../core/resolver/resolver.service.js';
+
+/**
+ * Convierte las estadísticas internas de un dominio al formato de respuesta
+ */
+function toStrategyStatsResponse(domain: string, stats: DomainStrategyStats): DomainStrategyStatsResponse {
+  const strategies: DomainStrategyStatsResponse['strategies'] = {};
+  for (const [name, entry] of Object.entries(stats)) {
+    if (!entry) {
+      continue;
+    }
+    strategies[name] = {
+      attempts: Number(entry.attempts.toFixed(3)),
+      successes: Number(entry.successes.toFixed(3)),
+      successRate: entry.attempts > 0 ? Number((entry.successes / entry.attempts).toFixed(3)) : 0,
+      medianTimeToDetectionMs: entry.medianTimeToDetectionMs,
+      lastSuccessAt: entry.lastSuccessAt,
+      lastAttemptAt: entry.lastAttemptAt,
+    };
+  }
+
+  return {
+    domain,
+    order: rankStrategies(Object.keys(stats) as ActivationStrategyName[], stats),
+    strategies,
+  };
+}
+
+export async function adminRoutes(
+  fastify: FastifyInstance,
+  strategyCache: IActivationStrategyCache,
+): Promise<void> {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+  const store = ApiKeyStore.getInstance();
+
+  const sendError = (
+    reply: FastifyReply,
+    request: FastifyRequest,
+    statusCode: 400 | 404,
+    error: string,
+    message: string,
+  ) => {
+    return reply.status(statusCode).send({
+      error,
+      message,
+      statusCode,
+      timestamp: new Date().toISOString(),
+      requestId: request.id,
+    });
+  };
+
+  app.get('/api/v1/admin/keys', {
+    schema: {
+      description: 'Lista las API keys registradas con su uso del día',
+      tags: ['admin'],
+      response: {
+        200: ApiKeyListResponseZod,
+      },
+    },
+    handler: async (_request, reply) => {
+      const records = await store.list();
+      const usage = await store.getUsageToday(records.map(r => r.id));
+
+      return reply.status(200).send({
+        keys: records.map(record => ApiKeyStore.toInfo(record, usage[record.id])),
+      });
+    },
+  });
+
+  app.post('/api/v1/admin/keys', {
+    schema: {
+      description: 'Crea una API key. El secreto solo se devuelve en esta respuesta.',
+      tags: ['admin'],
+      body: CreateApiKeyRequestZod,
+      response: {
+        201: ApiKeyWithSecretZod,
+        400: ErrorResponseZod,
+      },
+    },
+    handler: async (request, reply) => {
+      const invalidDomain = request.body.allowedDomains.find(domain => !isValidDomainFormat(domain));
+      if (invalidDomain) {
+        return sendError(reply, request, 400, 'Bad Request', `Dominio no válido: ${invalidDomain}`);
+      }
+
+      const { record, key } = await store.create(request.body);
+      logSecurityEvent('api_key_created', 'info', {
+        keyId: record.id,
+        createdBy: request.apiKey?.id,
+      });
+
+      return reply.status(201).send({ ...ApiKeyStore.toInfo(record), key });
+    },
+  });
+
+  app.post('/api/v1/admin/keys/:id/rotate', {
+    schema: {
+      description: 'Genera un nuevo secreto para la API key e invalida el anterior',
+      tags: ['admin'],
+      params: z.object({ id: z.string() }),
+      response: {
+        200: ApiKeyWithSecretZod,
+        404: ErrorResponseZod,
+      },
+    },
+    handler: async (request, reply) => {
+      const result = await store.rotate(request.params.id);
+      if (!result) {
+        return sendError(reply, request, 404, 'Not Found', `No existe la API key ${request.params.id}`);
+      }
+
+      logSecurityEvent('api_key_rotated', 'info', {
+        keyId: result.record.id,
+        rotatedBy: request.apiKey?.id,
+      });
+
+      return reply.status(200).send({ ...ApiKeyStore.toInfo(result.record), key: result.key });
+    },
+  });
+
+  app.post('/api/v1/admin/keys/:id/revoke', {
+    schema: {
+      description: 'Revoca la API key; deja de aceptarse de inmediato',
+      tags: ['admin'],
+      params: z.object({ id: z.string() }),
+      response: {
+        200: ApiKeyZod,
+        404: ErrorResponseZod,
+      },
+    },
+    handler: async (request, reply) => {
+      const record = await store.revoke(request.params.id);
+      if (!record) {
+        return sendError(reply, request, 404, 'Not Found', `No existe la API key ${request.params.id}`);
+      }
+
+      logSecurityEvent('api_key_revoked', 'warn', {
+        keyId: record.id,
+        revokedBy: request.apiKey?.id,
+      });
+
+      return reply.status(200).send(ApiKeyStore.toInfo(record));
+    },
+  });
+
+  app.get('/api/v1/admin/strategies', {
+    schema: {
+      description: 'Estadísticas de las estrategias de activación por dominio',
+      tags: ['admin'],
+      response: {
+        200: StrategyStatsListResponseZod,
+      },
+    },
+    handler: async (_request, reply) => {
+      const all = await strategyCache.listStats();
+      const domains = Object.entries(all)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([domain, stats]) => toStrategyStatsResponse(domain, stats));
+
+      return reply.status(200).send({ domains });
+    },
+  });
+
+  app.get('/api/v1/admin/strategies/:domain', {
+    schema: {
+      description: 'Estadísticas de las estrategias de activación de un dominio',
+      tags: ['admin'],
+      params: z.object({ domain: z.string() }),
+      response: {
+        200: DomainStrategyStatsResponseZod,
+        404: ErrorResponseZod,
+      },
+    },
+    handler: async (request, reply) => {
+      const domain = request.params.domain.toLowerCase();
+      const stats = await strategyCache.getStats(domain);
+      if (!stats) {
+        return sendError(reply, request, 404, 'Not Found', `No hay estadísticas para ${domain}`);
+      }
+
+      return reply.status(200).send(toStrategyStatsResponse(domain, stats));
+    },
+  });
+}
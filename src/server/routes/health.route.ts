@@ -27,6 +27,7 @@ const DetailedHealthResponseZod = HealthResponseZod.extend({
     resolveRequests: z.number(),
     activeBrowserPages: z.number(),
     hlsStreamsDetected: z.number(),
+    dashStreamsDetected: z.number(),
   }),
 });
 
@@ -114,6 +115,7 @@ export async function healthRoutes(
           resolveRequests: metricsSnapshot.resolveRequests,
           activeBrowserPages: metricsSnapshot.activeBrowserPages,
           hlsStreamsDetected: metricsSnapshot.hlsStreamsDetected,
+          dashStreamsDetected: metricsSnapshot.dashStreamsDetected,
         },
       };
     }),
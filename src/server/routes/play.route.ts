@@ -0,0 +1,239 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  ErrorResponseZod,
+  PlaybackSessionRequestZod,
+  PlaybackSessionResponseZod,
+} from '../../types/dto.js';
+import { getLogger } from '../../core/observability/logger.js';
+import { incrementHttpRequest } from '../../core/observability/metrics.js';
+import { getConfig } from '../../config/env.js';
+import { PlaybackSessionStore, PlaybackSession } from '../../core/playback/playback-session.store.js';
+import { PlaybackProxyService } from '../../core/playback/playback-proxy.service.js';
+import { PlaybackLinkSigner, PlaybackLinkError } from '../../core/playback/playback-link.signer.js';
+import { sanitizeUrlForLogging } from '../../utils/url.js';
+import { SsrfGuard, SsrfBlockedError } from '../../core/security/ssrf-guard.js';
+
+const HLS_CONTENT_TYPE = 'application/vnd.apple.mpegurl';
+
+/**
+ * URL base pública del servicio: PUBLIC_BASE_URL o, en su defecto, la del request
+ */
+export function getPublicBaseUrl(request: FastifyRequest): string {
+  const publicBaseUrl = getConfig().PUBLIC_BASE_URL;
+  if (publicBaseUrl) {
+    return publicBaseUrl.replace(/\/+$/, '');
+  }
+  return `${request.protocol}://${request.host}`;
+}
+
+export async function playRoutes(fastify: FastifyInstance): Promise<void> {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+  const store = PlaybackSessionStore.getInstance();
+  const signer = PlaybackLinkSigner.getInstance();
+  const proxyService = new PlaybackProxyService();
+
+  const sendError = (
+    reply: FastifyReply,
+    request: FastifyRequest,
+    statusCode: 400 | 403 | 404 | 410 | 502,
+    error: string,
+    message: string,
+  ) => {
+    return reply.status(statusCode).send({
+      error,
+      message,
+      statusCode,
+      timestamp: new Date().toISOString(),
+      requestId: request.id,
+    });
+  };
+
+  /**
+   * Obtiene la sesión de un token: enlaces firmados se verifican sin estado,
+   * el resto se buscan en el almacén. Si no es válida, responde con el error.
+   */
+  const getSession = (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    token: string,
+  ): PlaybackSession | null => {
+    if (PlaybackLinkSigner.isSignedToken(token)) {
+      try {
+        return signer.verify(token, request.ip);
+      } catch (error) {
+        if (!(error instanceof PlaybackLinkError)) {
+          throw error;
+        }
+
+        getLogger().warn({
+          requestId: request.id,
+          ip: request.ip,
+          reason: error.reason,
+        }, 'Signed playback link rejected');
+
+        const errorName = error.statusCode === 410 ? 'Gone' : error.statusCode === 403 ? 'Forbidden' : 'Bad Request';
+        void sendError(reply, request, error.statusCode, errorName, error.message);
+        return null;
+      }
+    }
+
+    const session = store.get(token);
+    if (!session) {
+      void sendError(reply, request, 404, 'Not Found', 'La sesión de reproducción no existe o ha caducado');
+    }
+    return session;
+  };
+
+  /**
+   * Sirve un recurso upstream a través del proxy reescribiendo los manifiestos
+   */
+  const proxy = async (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    token: string,
+    session: PlaybackSession,
+    targetUrl: string,
+  ) => {
+    const startTime = Date.now();
+    const baseUrl = getPublicBaseUrl(request);
+    const toProxyUrl = (absoluteUrl: string) =>
+      `${baseUrl}/api/v1/play/${token}/proxy?u=${Buffer.from(absoluteUrl).toString('base64url')}` +
+      `&s=${signer.signResource(token, absoluteUrl)}`;
+
+    try {
+      const result = await proxyService.fetch(session, targetUrl, toProxyUrl, request.headers.range);
+      incrementHttpRequest(request.method, '/api/v1/play', result.status, Date.now() - startTime);
+
+      if (result.kind === 'manifest') {
+        return reply
+          .status(result.status)
+          .header('content-type', HLS_CONTENT_TYPE)
+          .header('cache-control', 'no-cache')
+          .send(result.body);
+      }
+
+      return reply.status(result.status).headers(result.headers).send(result.stream);
+    } catch (error) {
+      if (error instanceof SsrfBlockedError) {
+        incrementHttpRequest(request.method, '/api/v1/play', 403, Date.now() - startTime);
+        return sendError(reply, request, 403, 'Forbidden', 'El recurso apunta a una dirección interna no permitida');
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      incrementHttpRequest(request.method, '/api/v1/play', 502, Date.now() - startTime);
+
+      getLogger().warn({
+        requestId: request.id,
+        url: sanitizeUrlForLogging(targetUrl),
+        error: errorMessage,
+      }, 'Playback proxy upstream request failed');
+
+      return sendError(reply, request, 502, 'Bad Gateway', `No se pudo obtener el recurso upstream: ${errorMessage}`);
+    }
+  };
+
+  app.post('/api/v1/play', {
+    schema: {
+      description: 'Registra un manifiesto resuelto y devuelve una URL de reproducción a través del proxy',
+      tags: ['playback'],
+      body: PlaybackSessionRequestZod,
+      response: {
+        201: PlaybackSessionResponseZod,
+        400: ErrorResponseZod,
+        403: ErrorResponseZod,
+      },
+    },
+    handler: async (request, reply) => {
+      const { url, pageUrl, headers, cookies } = request.body;
+
+      try {
+        await SsrfGuard.getInstance().assertPublicUrl(url);
+      } catch {
+        return sendError(reply, request, 403, 'Forbidden', 'La URL apunta a una dirección interna no permitida');
+      }
+
+      const { token, session } = store.create({
+        url,
+        pageUrl: pageUrl || url,
+        headers: headers || {},
+        cookies: cookies || [],
+      });
+
+      getLogger().info({
+        requestId: request.id,
+        url: sanitizeUrlForLogging(url),
+      }, 'Playback session registered');
+
+      return reply.status(201).send({
+        token,
+        playbackUrl: `${getPublicBaseUrl(request)}/api/v1/play/${token}`,
+        expiresAt: new Date(session.expiresAt).toISOString(),
+      });
+    },
+  });
+
+  app.get('/api/v1/play/:token', {
+    schema: {
+      description: 'Sirve el manifiesto de la sesión o del enlace firmado con sus URIs reescritas hacia el proxy',
+      tags: ['playback'],
+      params: z.object({ token: z.string() }),
+      response: {
+        400: ErrorResponseZod,
+        403: ErrorResponseZod,
+        404: ErrorResponseZod,
+        410: ErrorResponseZod,
+        502: ErrorResponseZod,
+      },
+    },
+    handler: async (request, reply) => {
+      const { token } = request.params;
+      const session = getSession(request, reply, token);
+      if (!session) {
+        return reply;
+      }
+
+      return proxy(request, reply, token, session, session.url);
+    },
+  });
+
+  app.get('/api/v1/play/:token/proxy', {
+    schema: {
+      description: 'Sirve un recurso (playlist, clave o segmento) de la sesión de reproducción',
+      tags: ['playback'],
+      params: z.object({ token: z.string() }),
+      querystring: z.object({ u: z.string().min(1), s: z.string().min(1) }),
+      response: {
+        400: ErrorResponseZod,
+        403: ErrorResponseZod,
+        404: ErrorResponseZod,
+        410: ErrorResponseZod,
+        502: ErrorResponseZod,
+      },
+    },
+    handler: async (request, reply) => {
+      const { token } = request.params;
+      const session = getSession(request, reply, token);
+      if (!session) {
+        return reply;
+      }
+
+      const targetUrl = Buffer.from(request.query.u, 'base64url').toString('utf8');
+      if (!/^https?:\/\//i.test(targetUrl)) {
+        return sendError(reply, request, 400, 'Bad Request', 'El parámetro u no contiene una URL HTTP(S) válida');
+      }
+
+      if (!signer.verifyResource(token, targetUrl, request.query.s)) {
+        getLogger().warn({
+          requestId: request.id,
+          ip: request.ip,
+          url: sanitizeUrlForLogging(targetUrl),
+        }, 'Playback proxy resource signature rejected');
+        return sendError(reply, request, 403, 'Forbidden', 'El recurso no pertenece a esta sesión de reproducción');
+      }
+
+      return proxy(request, reply, token, session, targetUrl);
+    },
+  });
+}
@@ -1,22 +1,198 @@
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import { ZodTypeProvider } from 'fastify-type-provider-zod';
 import crypto from 'crypto';
+import { OutgoingHttpHeaders } from 'http';
 import { z } from 'zod';
 import {
-  ResolveRequestZod,  
+  ResolveRequest,
+  ResolveRequestZod,
   ResolveResponseZod,
+  ResolveHLSRequestZod,
+  ResolveHLSResponseZod,
   ErrorResponseZod,
   BulkResolveRequestZod,
   BulkResolveResponseZod,
-  BulkStatusResponseZod
+  BulkStatusResponseZod,
+  BulkStatusResponse,
+  BulkBatchListResponseZod,
+  BulkResultsPageResponseZod,
+  BulkBatchOperationResponseZod,
+  BulkRetryFailedRequestZod,
+  BatchSummary,
+  PaginationQueryZod,
+  Cookie,
+  PlaybackLinkOptions,
+  ResolveResponse,
+  ErrorResponse,
 } from '../../types/dto.js';
 import { ResolverService } from '../../core/resolver/resolver.service.js';
 import { getLogger } from '../../core/observability/logger.js';
-import { incrementHttpRequest } from '../../core/observability/metrics.js';
+import { incrementHttpRequest, incrementResultCacheLookup } from '../../core/observability/metrics.js';
+import { CachedResolveResult, ResolveResultCache } from '../../core/cache/resolve-result.cache.js';
 import { QueueService } from '../../core/queue/queue.service.js';
 import { getConfig } from '../../config/env.js';
+import { PlaybackLinkSigner } from '../../core/playback/playback-link.signer.js';
+import { getPublicBaseUrl } from './play.route.js';
+import { BatchStore } from '../../core/queue/batch.store.js';
+import { BatchEventStream, formatSseEvent } from '../../core/queue/batch-events.js';
+import { buildBulkJobSpecs, createBulkJob } from '../../core/queue/bulk-jobs.js';
+import { BatchOperationError, BatchOperationResult, BatchOperations } from '../../core/queue/batch-operations.js';
+import { SsrfGuard } from '../../core/security/ssrf-guard.js';
+import { ApiKeyStore } from '../../core/security/api-key.store.js';
+import { ResolverError } from '../../core/resolver/resolver-errors.js';
+
+// Comentario periódico para que proxies y clientes no cierren el stream SSE
+const SSE_KEEP_ALIVE_MS = 15000;
+
+/**
+ * Propietario de los lotes creados sin API key (autenticación desactivada)
+ */
+const ANONYMOUS_OWNER = 'anonymous';
+
+/**
+ * Sin autenticación o con scope admin se ven los lotes de todos los clientes
+ */
+function canSeeAllBatches(request: FastifyRequest): boolean {
+  return !request.apiKey || ApiKeyStore.hasScope(request.apiKey, 'admin');
+}
+
+/**
+ * Resumen del lote si existe y pertenece al cliente. Los lotes de otros
+ * clientes se tratan como inexistentes.
+ */
+async function findAccessibleBatch(
+  request: FastifyRequest,
+  batchStore: BatchStore,
+  batchId: string,
+): Promise<BatchSummary | null> {
+  if (!canSeeAllBatches(request) && (await batchStore.getOwner(batchId)) !== request.apiKey?.id) {
+    return null;
+  }
+  return batchStore.getSummary(batchId);
+}
+
+/**
+ * Ejecuta una operación sobre un lote del cliente y responde con el resumen
+ * resultante o con el error de la operación
+ */
+async function runBatchOperation(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  batchStore: BatchStore,
+  batchId: string,
+  operation: () => Promise<BatchOperationResult>,
+): Promise<FastifyReply> {
+  if (!(await findAccessibleBatch(request, batchStore, batchId))) {
+    return reply.status(404).send(batchNotFound(request, batchId));
+  }
+
+  try {
+    const { summary, affectedJobs } = await operation();
+    return reply.status(200).send({ ...summary, affectedJobs });
+  } catch (error) {
+    if (!(error instanceof BatchOperationError)) {
+      throw error;
+    }
+    return reply.status(error.statusCode).send({
+      error: error.statusCode === 404 ? 'Not Found' : 'Conflict',
+      message: error.message,
+      statusCode: error.statusCode,
+      timestamp: new Date().toISOString(),
+      requestId: request.id,
+    });
+  }
+}
+
+function batchNotFound(request: FastifyRequest, batchId: string): ErrorResponse {
+  return {
+    error: 'Not Found',
+    message: `No se encontró un lote con el ID: ${batchId}`,
+    statusCode: 404,
+    timestamp: new Date().toISOString(),
+    requestId: request.id,
+  };
+}
+
+type ResolveErrorStatus = 400 | 401 | 403 | 404 | 500 | 502 | 503 | 504;
+
+/**
+ * Código HTTP y `error` de una resolución fallida. Los ResolverError
+ * responden con su código estable; el resto conserva su statusCode si es
+ * 400, 401 o 403.
+ */
+function describeResolveError(
+  error: unknown,
+  fallbackName: string,
+): { statusCode: ResolveErrorStatus; error: string; message: string } {
+  if (error instanceof ResolverError) {
+    return { statusCode: error.statusCode, error: error.code, message: error.message };
+  }
+
+  const message = error instanceof Error ? error.message : 'Internal Server Error';
+  const statusCode = (error as { statusCode?: unknown } | null)?.statusCode;
+  if (statusCode === 400 || statusCode === 401 || statusCode === 403) {
+    return { statusCode, error: fallbackName, message };
+  }
+  return { statusCode: 500, error: fallbackName, message };
+}
+
+/**
+ * Construye un generador de enlaces de reproducción firmados para el contexto
+ * (página, cabeceras y cookies) de una resolución.
+ */
+function createPlaybackLinker(
+  request: FastifyRequest,
+  linkOptions: PlaybackLinkOptions,
+  context: { pageUrl: string; headers: Record<string, string>; cookies: Cookie[] },
+): (manifestUrl: string) => string {
+  const signer = PlaybackLinkSigner.getInstance();
+  const baseUrl = getPublicBaseUrl(request);
+
+  return (manifestUrl: string) => {
+    const { token } = signer.sign({ url: manifestUrl, ...context }, {
+      ttlSeconds: linkOptions.ttlSeconds,
+      clientIp: linkOptions.bindClientIp ? request.ip : undefined,
+    });
+    return `${baseUrl}/api/v1/play/${token}`;
+  };
+}
 
-const HLS_RESOLVER_JOB = 'hls-resolve-job';
+/**
+ * Busca un resultado en caché. Un fallo de Redis se trata como un fallo de
+ * caché para no impedir la resolución.
+ */
+async function lookupCachedResult(
+  resultCache: ResolveResultCache,
+  body: ResolveRequest,
+  requestId: string,
+): Promise<CachedResolveResult | null> {
+  try {
+    const cached = await resultCache.get(body.url, body.options);
+    incrementResultCacheLookup(cached ? 'hit' : 'miss');
+    return cached;
+  } catch (error) {
+    incrementResultCacheLookup('error');
+    getLogger().warn({ requestId, error }, 'Result cache lookup failed');
+    return null;
+  }
+}
+
+/**
+ * Guarda un resultado en caché y devuelve su caducidad, o null si no se cacheó
+ */
+async function storeCachedResult(
+  resultCache: ResolveResultCache,
+  body: ResolveRequest,
+  result: ResolveResponse,
+  requestId: string,
+): Promise<string | null> {
+  try {
+    return await resultCache.set(body.url, body.options, result);
+  } catch (error) {
+    getLogger().warn({ requestId, error }, 'Failed to store result in cache');
+    return null;
+  }
+}
 
 export async function resolveRoutes(
   fastify: FastifyInstance,
@@ -25,6 +201,9 @@ export async function resolveRoutes(
 
   const app = fastify.withTypeProvider<ZodTypeProvider>();
   const queueService = QueueService.getInstance();
+  const resultCache = ResolveResultCache.getInstance();
+  const batchStore = BatchStore.getInstance();
+  const batchOperations = BatchOperations.getInstance();
   const config = getConfig();
 
   app.post('/api/v1/resolve/bulk', {
@@ -39,34 +218,69 @@ export async function resolveRoutes(
       },
     },
     handler: async (request, reply) => {
-      const { urls } = request.body;
+      const { callbackUrl, callbackSecret, defaultOptions, priority } = request.body;
+      // Las URLs repetidas comparten jobId, así que se resuelven una sola vez
+      const specs = buildBulkJobSpecs(request.body.urls, defaultOptions);
       const batchId = `batch-${crypto.randomUUID()}`;
       
-      getLogger().info({ batchId, count: urls.length }, 'Bulk resolve request received');
-
-      const jobs = urls.map(url => ({
-        name: HLS_RESOLVER_JOB,
-        data: { url },
-        opts: { 
-          jobId: `${batchId}-${crypto.createHash('sha256').update(url).digest('hex')}`,
-          attempts: 2, // Reintentar una vez si falla
-          backoff: { type: 'exponential', delay: 1000 },
-        },
-      }));
+      getLogger().info(
+        { batchId, count: specs.length, priority, webhook: Boolean(callbackUrl) },
+        'Bulk resolve request received',
+      );
+
+      if (callbackUrl) {
+        try {
+          await SsrfGuard.getInstance().assertPublicUrl(callbackUrl);
+        } catch (error) {
+          return reply.status(400).send({
+            error: 'Bad Request',
+            message: error instanceof Error ? error.message : 'callbackUrl no permitida',
+            statusCode: 400,
+            timestamp: new Date().toISOString(),
+            requestId: request.id,
+          });
+        }
+      }
+
+      await batchStore.create({
+        batchId,
+        jobs: specs,
+        ownerId: request.apiKey?.id ?? ANONYMOUS_OWNER,
+        priority,
+        webhook: callbackUrl && callbackSecret ? { callbackUrl, callbackSecret } : undefined,
+      });
 
-      // BullMQ no tiene un "batch" nativo, pero podemos simularlo con un job padre o gestionando por ID.
-      // Aquí, simplemente encolamos todos los trabajos.
-      await Promise.all(jobs.map(job => queueService.addJob(job)));
+      // BullMQ no tiene un "batch" nativo: el lote se registra en BatchStore y
+      // cada job lleva su batchId para que el worker actualice el registro.
+      await Promise.all(specs.map(spec => queueService.addJob(createBulkJob(batchId, spec, priority))));
 
       return reply.status(202).send({
         batchId,
         status: 'PENDING',
-        totalJobs: urls.length,
+        totalJobs: specs.length,
         message: 'El lote ha sido aceptado y está siendo procesado.',
       });
     },
   });
 
+  app.get('/api/v1/resolve/bulk', {
+    schema: {
+      description: 'Lista los lotes del cliente, del más reciente al más antiguo. Las keys con scope admin ven todos.',
+      tags: ['resolver'],
+      querystring: PaginationQueryZod,
+      response: {
+        200: BulkBatchListResponseZod,
+      },
+    },
+    handler: async (request, reply) => {
+      const { offset, limit } = request.query;
+      const ownerId = canSeeAllBatches(request) ? undefined : request.apiKey?.id;
+      const { total, batches } = await batchStore.list(offset, limit, ownerId);
+
+      return reply.status(200).send({ total, offset, limit, batches });
+    },
+  });
+
   app.get('/api/v1/resolve/bulk/status/:batchId', {
     schema: {
         description: 'Consulta el estado de un proceso de resolución por lotes.',
@@ -78,71 +292,185 @@ export async function resolveRoutes(
         },
     },
     handler: async (request, reply) => {
-        const { batchId } = request.params as { batchId: string };
-        const queue = queueService.getQueue();
-        
-        const jobs = await queue.getJobs(['completed', 'failed', 'active', 'waiting']);
-        const batchJobs = jobs.filter(job => job.id && job.id.startsWith(batchId));
-
-        if (batchJobs.length === 0) {
-            return reply.status(404).send({ 
-              error: 'Not Found', 
-              message: `No se encontró un lote con el ID: ${batchId}`, 
-              statusCode: 404, 
-              timestamp: new Date().toISOString() 
-            });
-        }
-
-        let completedCount = 0;
-        let failedCount = 0;
+        const { batchId } = request.params;
+        const summary = await findAccessibleBatch(request, batchStore, batchId);
 
-        for (const job of batchJobs) {
-            if (await job.isCompleted()) {
-                completedCount++;
-            } else if (await job.isFailed()) {
-                failedCount++;
-            }
+        if (!summary) {
+            return reply.status(404).send(batchNotFound(request, batchId));
         }
 
-        let status = 'PROCESSING';
-        if (completedCount + failedCount === batchJobs.length) {
-            status = 'COMPLETED';
+        const response: BulkStatusResponse = summary;
+
+        if (summary.finishedAt) {
+          const { results } = await batchStore.getResults(batchId, 0, summary.total);
+          response.results = results;
         }
 
-        const response: any = {
-            batchId,
-            status,
-            progress: Math.round(((completedCount + failedCount) / batchJobs.length) * 100),
-            total: batchJobs.length,
-        };
-
-        if (status === 'COMPLETED') {
-          const creationTimestamps = batchJobs.map(job => job.timestamp).filter((t): t is number => t !== null && t > 0);
-                    const finishedTimestamps = batchJobs.map(job => job.finishedOn).filter((t): t is number => !!t && t > 0);
-          
-          if (creationTimestamps.length > 0 && finishedTimestamps.length > 0) {
-            const minCreationTime = Math.min(...creationTimestamps);
-            const maxFinishedTime = Math.max(...finishedTimestamps);
-            response.durationMs = maxFinishedTime - minCreationTime;
-          }
-
-          response.results = await Promise.all(batchJobs.map(async (job) => {
-            const isCompleted = await job.isCompleted();
-            const result = isCompleted ? await resolverService.convertToLegacyResponse(job.returnvalue, job.data.url) : undefined;
-            
-            return {
-              url: job.data.url,
-              status: isCompleted ? 'completed' : 'failed',
-              result: result,
-              error: isCompleted ? undefined : job.failedReason,
-            };
-          }));
+        const webhook = await batchStore.getWebhook(batchId);
+        if (webhook) {
+          response.webhook = {
+            callbackUrl: webhook.callbackUrl,
+            deliveries: await batchStore.getDeliveries(batchId),
+          };
         }
 
         return reply.status(200).send(response);
     },
-});
+  });
+
+  app.delete('/api/v1/resolve/bulk/:batchId', {
+    schema: {
+      description: 'Cancela un lote: elimina los jobs en espera y aborta los activos.',
+      tags: ['resolver'],
+      params: z.object({ batchId: z.string() }),
+      response: {
+        200: BulkBatchOperationResponseZod,
+        404: ErrorResponseZod,
+        409: ErrorResponseZod,
+      },
+    },
+    handler: async (request, reply) => {
+      const { batchId } = request.params;
+      return runBatchOperation(request, reply, batchStore, batchId, () => batchOperations.cancel(batchId));
+    },
+  });
+
+  app.post('/api/v1/resolve/bulk/:batchId/pause', {
+    schema: {
+      description: 'Pausa un lote. Los jobs activos terminan; los que esperan no se procesan hasta reanudarlo.',
+      tags: ['resolver'],
+      params: z.object({ batchId: z.string() }),
+      response: {
+        200: BulkBatchOperationResponseZod,
+        404: ErrorResponseZod,
+        409: ErrorResponseZod,
+      },
+    },
+    handler: async (request, reply) => {
+      const { batchId } = request.params;
+      return runBatchOperation(request, reply, batchStore, batchId, () => batchOperations.pause(batchId));
+    },
+  });
+
+  app.post('/api/v1/resolve/bulk/:batchId/resume', {
+    schema: {
+      description: 'Reanuda un lote pausado volviendo a encolar sus jobs pendientes.',
+      tags: ['resolver'],
+      params: z.object({ batchId: z.string() }),
+      response: {
+        200: BulkBatchOperationResponseZod,
+        404: ErrorResponseZod,
+        409: ErrorResponseZod,
+      },
+    },
+    handler: async (request, reply) => {
+      const { batchId } = request.params;
+      return runBatchOperation(request, reply, batchStore, batchId, () => batchOperations.resume(batchId));
+    },
+  });
+
+  app.post('/api/v1/resolve/bulk/:batchId/retry-failed', {
+    schema: {
+      description: 'Vuelve a encolar los jobs fallidos del lote, opcionalmente con otras opciones.',
+      tags: ['resolver'],
+      params: z.object({ batchId: z.string() }),
+      body: BulkRetryFailedRequestZod,
+      response: {
+        200: BulkBatchOperationResponseZod,
+        404: ErrorResponseZod,
+        409: ErrorResponseZod,
+      },
+    },
+    handler: async (request, reply) => {
+      const { batchId } = request.params;
+      return runBatchOperation(
+        request,
+        reply,
+        batchStore,
+        batchId,
+        () => batchOperations.retryFailed(batchId, request.body?.options),
+      );
+    },
+  });
+
+  app.get('/api/v1/resolve/bulk/:batchId/results', {
+    schema: {
+      description: 'Resultados de un lote, paginados en el orden en que se enviaron las URLs.',
+      tags: ['resolver'],
+      params: z.object({ batchId: z.string() }),
+      querystring: PaginationQueryZod,
+      response: {
+        200: BulkResultsPageResponseZod,
+        404: ErrorResponseZod,
+      },
+    },
+    handler: async (request, reply) => {
+      const { batchId } = request.params;
+      const { offset, limit } = request.query;
+
+      if (!(await findAccessibleBatch(request, batchStore, batchId))) {
+        return reply.status(404).send(batchNotFound(request, batchId));
+      }
+
+      const { total, results } = await batchStore.getResults(batchId, offset, limit);
+      return reply.status(200).send({ batchId, total, offset, limit, results });
+    },
+  });
+
+
+  app.get('/api/v1/resolve/bulk/:batchId/events', {
+    schema: {
+      description: 'Progreso de un lote en vivo (Server-Sent Events): job-active, job-completed, job-failed y batch-completed. Admite Last-Event-ID para reanudar.',
+      tags: ['resolver'],
+      params: z.object({ batchId: z.string() }),
+      response: {
+        404: ErrorResponseZod,
+      },
+    },
+    handler: async (request, reply) => {
+      const { batchId } = request.params;
+      const summary = await findAccessibleBatch(request, batchStore, batchId);
+      if (!summary) {
+        return reply.status(404).send(batchNotFound(request, batchId));
+      }
 
+      void reply.hijack();
+      reply.raw.writeHead(200, {
+        // Cabeceras ya fijadas por los hooks (CORS, rate limit, request ID)
+        ...(reply.getHeaders() as OutgoingHttpHeaders),
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        // Evita que proxies como nginx acumulen los eventos
+        'X-Accel-Buffering': 'no',
+      });
+
+      const stream = new BatchEventStream(summary, { batchStore, queueService });
+      const keepAlive = setInterval(() => reply.raw.write(': keep-alive\n\n'), SSE_KEEP_ALIVE_MS);
+      const end = (): void => {
+        clearInterval(keepAlive);
+        reply.raw.end();
+      };
+
+      request.raw.on('close', () => {
+        clearInterval(keepAlive);
+        stream.close().catch(error => getLogger().warn({ batchId, error }, 'Failed to close batch event stream'));
+      });
+
+      const lastEventId = request.headers['last-event-id'];
+      try {
+        await stream.start(
+          Array.isArray(lastEventId) ? lastEventId[0] : lastEventId,
+          event => reply.raw.write(formatSseEvent(event)),
+          end,
+        );
+      } catch (error) {
+        getLogger().error({ batchId, error }, 'Failed to start batch event stream');
+        await stream.close();
+        end();
+      }
+    },
+  });
 
   // Endpoint de prueba específico para sitios con anti-devtool protection
   app.post('/api/v1/resolve/protected', {
@@ -172,7 +500,13 @@ export async function resolveRoutes(
           antiDevtoolEnabled: z.boolean(),
         }),
         400: ErrorResponseZod,
+        401: ErrorResponseZod,
+        403: ErrorResponseZod,
+        404: ErrorResponseZod,
         500: ErrorResponseZod,
+        502: ErrorResponseZod,
+        503: ErrorResponseZod,
+        504: ErrorResponseZod,
       },
     },
     handler: async (request, reply) => {
@@ -215,22 +549,98 @@ export async function resolveRoutes(
 
       } catch (error) {
         const duration = Date.now() - startTime;
-        const errorMessage = error instanceof Error ? error.message : 'Internal Server Error';
+        const failure = describeResolveError(error, 'Internal Server Error');
 
-        incrementHttpRequest(request.method, '/api/v1/resolve/protected', 500, duration);
+        incrementHttpRequest(request.method, '/api/v1/resolve/protected', failure.statusCode, duration);
 
         getLogger().error({
           requestId,
           url,
-          error: errorMessage,
+          error: failure.message,
+          code: failure.error,
           duration,
         }, '❌ Protected resolve request failed');
 
-        return reply.status(500).send({
-          error: 'Internal Server Error',
-          message: errorMessage,
-          statusCode: 500,
+        return reply.status(failure.statusCode).send({
+          ...failure,
+          timestamp: new Date().toISOString(),
+        });
+      }
+    },
+  });
+
+  app.post('/api/v2/resolve', {
+    schema: {
+      description: 'Resuelve una URL aplicando todas las opciones de ResolveHLSRequest y devuelve los manifiestos detectados',
+      tags: ['resolver'],
+      body: ResolveHLSRequestZod,
+      response: {
+        200: ResolveHLSResponseZod,
+        400: ErrorResponseZod,
+        401: ErrorResponseZod,
+        403: ErrorResponseZod,
+        404: ErrorResponseZod,
+        500: ErrorResponseZod,
+        502: ErrorResponseZod,
+        503: ErrorResponseZod,
+        504: ErrorResponseZod,
+      },
+    },
+    handler: async (request, reply) => {
+      const startTime = Date.now();
+      const requestId = request.id;
+      const { url, options } = request.body;
+
+      try {
+        getLogger().info({
+          requestId,
+          method: request.method,
+          url: request.url,
+          ip: request.ip,
+          options,
+        }, 'Resolve v2 request started');
+
+        const result = await resolverService.resolve(url, null, options);
+
+        if (options?.playbackLink) {
+          const toPlaybackUrl = createPlaybackLinker(request, options.playbackLink, {
+            pageUrl: url,
+            headers: result.requiredHeaders || {},
+            cookies: result.requiredCookies || [],
+          });
+          result.manifests = result.manifests.map(m => ({ ...m, playbackUrl: toPlaybackUrl(m.url) }));
+        }
+
+        const duration = Date.now() - startTime;
+        incrementHttpRequest(request.method, '/api/v2/resolve', 200, duration);
+
+        getLogger().info({
+          requestId,
+          manifestsFound: result.manifests.length,
+          duration,
+        }, 'Resolve v2 request completed successfully');
+
+        return reply.status(200).send(result);
+
+      } catch (error) {
+        const duration = Date.now() - startTime;
+        const failure = describeResolveError(error, 'error');
+
+        incrementHttpRequest(request.method, '/api/v2/resolve', failure.statusCode, duration);
+
+        getLogger().error({
+          requestId,
+          error: failure.message,
+          code: failure.error,
+          stack: error instanceof Error ? error.stack : undefined,
+          duration,
+          statusCode: failure.statusCode,
+        }, 'Resolve v2 request failed');
+
+        return reply.status(failure.statusCode).send({
+          ...failure,
           timestamp: new Date().toISOString(),
+          requestId: requestId,
         });
       }
     },
@@ -246,7 +656,11 @@ export async function resolveRoutes(
         400: ErrorResponseZod,
         401: ErrorResponseZod,
         403: ErrorResponseZod,
+        404: ErrorResponseZod,
         500: ErrorResponseZod,
+        502: ErrorResponseZod,
+        503: ErrorResponseZod,
+        504: ErrorResponseZod,
       },
     },
     handler: async (request, reply) => {
@@ -262,7 +676,38 @@ export async function resolveRoutes(
           userAgent: request.headers['user-agent'],
         }, 'Resolve request started');
 
-        const result = await resolverService.resolveLegacy(request.body);
+        const cacheMode = request.body.options?.cache ?? 'prefer';
+        const cached = cacheMode === 'bypass'
+          ? null
+          : await lookupCachedResult(resultCache, request.body, requestId);
+
+        let result: ResolveResponse;
+        if (cached) {
+          result = { ...cached.response, cacheHit: true, expiresAt: cached.expiresAt };
+        } else if (cacheMode === 'only') {
+          incrementHttpRequest(request.method, '/api/v1/resolve', 404, Date.now() - startTime);
+          return reply.status(404).send({
+            error: 'Not Found',
+            message: 'No hay un resultado en caché para esta URL',
+            statusCode: 404,
+            timestamp: new Date().toISOString(),
+            requestId,
+          });
+        } else {
+          const resolved = await resolverService.resolveLegacy(request.body);
+          const expiresAt = await storeCachedResult(resultCache, request.body, resolved, requestId);
+          result = { ...resolved, cacheHit: false, expiresAt };
+        }
+
+        const playbackLink = request.body.options?.playbackLink;
+        if (playbackLink) {
+          const toPlaybackUrl = createPlaybackLinker(request, playbackLink, {
+            pageUrl: result.pageUrl,
+            headers: result.requiredHeaders,
+            cookies: result.requiredCookies || [],
+          });
+          result.streams = result.streams.map(stream => ({ ...stream, playbackUrl: toPlaybackUrl(stream.masterUrl) }));
+        }
         
         const duration = Date.now() - startTime;
         incrementHttpRequest(request.method, '/api/v1/resolve', 200, duration);
@@ -271,6 +716,7 @@ export async function resolveRoutes(
           requestId,
           sessionId: result.sessionId,
           streamsFound: result.streams.length,
+          cacheHit: result.cacheHit,
           duration,
         }, 'Resolve request completed successfully');
 
@@ -278,33 +724,21 @@ export async function resolveRoutes(
 
       } catch (error) {
         const duration = Date.now() - startTime;
-        
-        let errorMessage = 'Internal Server Error';
-        let statusCode: 200 | 400 | 401 | 403 | 500 = 500;
-        if (error instanceof Error) {
-          errorMessage = error.message;
-          if ('statusCode' in error && typeof (error as any).statusCode === 'number') {
-            const validStatusCodes: (200 | 400 | 401 | 403 | 500)[] = [200, 400, 401, 403, 500];
-            if (validStatusCodes.includes((error as any).statusCode)) {
-              statusCode = (error as any).statusCode;
-            }
-          }
-        }
+        const failure = describeResolveError(error, 'error');
 
-        incrementHttpRequest(request.method, '/api/v1/resolve', statusCode, duration);
+        incrementHttpRequest(request.method, '/api/v1/resolve', failure.statusCode, duration);
 
         getLogger().error({
           requestId,
-          error: errorMessage,
+          error: failure.message,
+          code: failure.error,
           stack: error instanceof Error ? error.stack : undefined,
           duration,
-          statusCode,
+          statusCode: failure.statusCode,
         }, 'Resolve request failed');
 
-        return reply.status(statusCode).send({
-          error: 'error'  ,
-          message: errorMessage,
-          statusCode: statusCode,
+        return reply.status(failure.statusCode).send({
+          ...failure,
           timestamp: new Date().toISOString(),
           requestId: requestId,
         });
@@ -2,6 +2,100 @@ import { z } from 'zod';
 
 // --- Schemas de Zod (Fuente de la Verdad) ---
 
+const PlaybackLinkOptionsZod = z.object({
+  ttlSeconds: z.number().int().positive().max(86400).default(3600),
+  bindClientIp: z.boolean().default(false),
+});
+
+const RegexPatternZod = z.string().min(1).refine((pattern) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}, { message: 'Expresión regular no válida' });
+
+// Fragmentos JS predefinidos que una receta puede ejecutar (no se admite código arbitrario)
+export const RecipeSnippetNameZod = z.enum([
+  'remove-overlays',
+  'play-videos',
+  'scroll-to-player',
+  'accept-cookies',
+]);
+
+const RecipeStepBaseZod = z.object({
+  timeoutMs: z.number().int().positive().max(60000).optional(),
+  // Un paso opcional que falla no detiene la receta
+  optional: z.boolean().optional(),
+});
+
+export const RecipeStepZod = z.discriminatedUnion('action', [
+  RecipeStepBaseZod.extend({
+    action: z.literal('click'),
+    selector: z.string().min(1),
+    index: z.number().int().nonnegative().optional(),
+  }).strict(),
+  RecipeStepBaseZod.extend({
+    action: z.literal('clickInFrame'),
+    frameSelector: z.string().min(1),
+    selector: z.string().min(1),
+    index: z.number().int().nonnegative().optional(),
+  }).strict(),
+  RecipeStepBaseZod.extend({
+    action: z.literal('waitForSelector'),
+    selector: z.string().min(1),
+    frameSelector: z.string().min(1).optional(),
+  }).strict(),
+  RecipeStepBaseZod.extend({
+    action: z.literal('waitForNetwork'),
+    urlPattern: RegexPatternZod,
+  }).strict(),
+  RecipeStepBaseZod.extend({
+    action: z.literal('evaluate'),
+    snippet: RecipeSnippetNameZod,
+    frameSelector: z.string().min(1).optional(),
+  }).strict(),
+  RecipeStepBaseZod.extend({
+    action: z.literal('press'),
+    key: z.string().min(1).max(32),
+  }).strict(),
+  RecipeStepBaseZod.extend({
+    action: z.literal('scroll'),
+    selector: z.string().min(1).optional(),
+    deltaY: z.number().int().optional(),
+  }).strict(),
+  RecipeStepBaseZod.extend({
+    action: z.literal('wait'),
+    ms: z.number().int().positive().max(30000),
+  }).strict(),
+]);
+
+export const ActivationRecipeZod = z.object({
+  name: z.string().min(1).optional(),
+  steps: z.array(RecipeStepZod).min(1).max(50),
+  // Detener la receta en cuanto se detecta un manifiesto nuevo
+  stopOnDetection: z.boolean().default(true),
+  // Ejecutar la cascada de activación estándar si la receta no detecta nada
+  fallback: z.boolean().default(false),
+});
+
+const RecipeReportZod = z.object({
+  name: z.string().optional(),
+  completed: z.boolean(),
+  detected: z.boolean(),
+  steps: z.array(z.object({
+    index: z.number().int(),
+    action: z.string(),
+    status: z.enum(['ok', 'failed', 'skipped']),
+    durationMs: z.number(),
+    error: z.string().optional(),
+  })),
+});
+
+// standard: navegador normal; anti-devtool: resolver para sitios que bloquean DevTools
+export const ResolverModeZod = z.enum(['standard', 'anti-devtool']);
+
 export const ResolveRequestZod = z.object({
   url: z.string().url({ message: 'El campo url debe ser una URL válida' }).min(1, { message: 'El campo url es requerido' }),
   options: z.object({
@@ -11,6 +105,12 @@ export const ResolveRequestZod = z.object({
     maxWaitMs: z.number().int().positive().optional(),
     waitUntil: z.enum(['domcontentloaded', 'networkidle2']).optional(),
     m3u8Patterns: z.array(z.string()).optional(),
+    recipe: ActivationRecipeZod.optional(),
+    // Fuerza el modo de resolución; sin indicar se usa el del perfil o la detección automática
+    mode: ResolverModeZod.optional(),
+    playbackLink: PlaybackLinkOptionsZod.optional(),
+    // prefer: usar la caché si hay resultado; bypass: resolver siempre; only: solo caché
+    cache: z.enum(['prefer', 'bypass', 'only']).default('prefer'),
   }).optional(),
 });
 
@@ -27,6 +127,25 @@ const StreamVariantZod = z.object({
     height: z.number(),
   }).optional(),
   frameRate: z.number().optional(),
+  audioGroupId: z.string().optional(),
+  videoGroupId: z.string().optional(),
+  subtitlesGroupId: z.string().optional(),
+  closedCaptionsGroupId: z.string().optional(),
+});
+
+const RenditionZod = z.object({
+  type: z.enum(['AUDIO', 'VIDEO', 'SUBTITLES', 'CLOSED-CAPTIONS']),
+  groupId: z.string(),
+  name: z.string(),
+  language: z.string().optional(),
+  assocLanguage: z.string().optional(),
+  uri: z.string().optional(),
+  default: z.boolean(),
+  autoselect: z.boolean(),
+  forced: z.boolean(),
+  channels: z.string().optional(),
+  instreamId: z.string().optional(),
+  characteristics: z.string().optional(),
 });
 
 const StreamEncryptionZod = z.object({
@@ -34,14 +153,64 @@ const StreamEncryptionZod = z.object({
   keyUri: z.string().optional(),
 });
 
+const ContentProtectionZod = z.object({
+  schemeIdUri: z.string(),
+  system: z.string().optional(),
+  value: z.string().optional(),
+  defaultKid: z.string().optional(),
+  pssh: z.string().optional(),
+  licenseUrl: z.string().optional(),
+});
+
+const DashRepresentationZod = z.object({
+  id: z.string().optional(),
+  bandwidth: z.number().optional(),
+  codecs: z.string().optional(),
+  mimeType: z.string().optional(),
+  resolution: z.object({
+    width: z.number(),
+    height: z.number(),
+  }).optional(),
+  frameRate: z.number().optional(),
+  audioSamplingRate: z.number().optional(),
+  baseUrl: z.string().optional(),
+});
+
+const DashAdaptationSetZod = z.object({
+  id: z.string().optional(),
+  contentType: z.string().optional(),
+  mimeType: z.string().optional(),
+  lang: z.string().optional(),
+  contentProtection: z.array(ContentProtectionZod),
+  representations: z.array(DashRepresentationZod),
+});
+
+const DashPeriodZod = z.object({
+  id: z.string().optional(),
+  start: z.number().optional(),
+  duration: z.number().optional(),
+  adaptationSets: z.array(DashAdaptationSetZod),
+});
+
 const StreamZod = z.object({
-  type: z.literal('HLS'),
+  type: z.enum(['HLS', 'DASH', 'PROGRESSIVE']),
   masterUrl: z.string(),
   mediaPlaylists: z.array(z.string()).nullish(),
   isLive: z.boolean().nullish(),
   isLowLatency: z.boolean().nullish(),
   encryption: StreamEncryptionZod.nullish(),
   variants: z.array(StreamVariantZod).nullish(),
+  renditions: z.array(RenditionZod).nullish(),
+  periods: z.array(DashPeriodZod).nullish(),
+  contentProtection: z.array(ContentProtectionZod).nullish(),
+  targetDuration: z.number().nullish(),
+  segmentCount: z.number().int().nullish(),
+  totalDuration: z.number().nullish(),
+  liveWindowDuration: z.number().nullish(),
+  mimeType: z.string().nullish(),
+  contentLength: z.number().int().nullish(),
+  acceptsRanges: z.boolean().nullish(),
+  playbackUrl: z.string().nullish(),
 });
 
 const CookieZod = z.object({
@@ -77,6 +246,9 @@ export const ResolveResponseZod = z.object({
   }),
   clicksPerformed: z.number(),
   targetsObserved: z.number(),
+  recipe: RecipeReportZod.optional(),
+  cacheHit: z.boolean().optional(),
+  expiresAt: z.string().nullish(),
 });
 
 export const HealthResponseZod = z.object({
@@ -86,6 +258,18 @@ export const HealthResponseZod = z.object({
   timestamp: z.string(),
 });
 
+// Códigos estables de los fallos de resolución; se devuelven en `error`
+export const ResolverErrorCodeZod = z.enum([
+  'NAVIGATION_TIMEOUT',
+  'DNS_FAILURE',
+  'NO_STREAM_FOUND',
+  'BLOCKED_BY_CHALLENGE',
+  'DOMAIN_NOT_ALLOWED',
+  'POOL_EXHAUSTED',
+  'MANIFEST_FETCH_FAILED',
+  'UPSTREAM_4XX',
+]);
+
 export const ErrorResponseZod = z.object({
   error: z.string(),
   message: z.string(),
@@ -98,17 +282,30 @@ export const ErrorResponseZod = z.object({
 export type ResolveRequest = z.infer<typeof ResolveRequestZod>;
 export type ResolveOptions = z.infer<typeof ResolveOptionsZod>;
 export type StreamVariant = z.infer<typeof StreamVariantZod>;
+export type Rendition = z.infer<typeof RenditionZod>;
 export type StreamEncryption = z.infer<typeof StreamEncryptionZod>;
+export type ContentProtection = z.infer<typeof ContentProtectionZod>;
+export type DashRepresentation = z.infer<typeof DashRepresentationZod>;
+export type DashAdaptationSet = z.infer<typeof DashAdaptationSetZod>;
+export type DashPeriod = z.infer<typeof DashPeriodZod>;
 export type Stream = z.infer<typeof StreamZod>;
 export type Cookie = z.infer<typeof CookieZod>;
 export type RawFinding = z.infer<typeof RawFindingZod>;
 export type ResolveResponse = z.infer<typeof ResolveResponseZod>;
 export type HealthResponse = z.infer<typeof HealthResponseZod>;
 export type ErrorResponse = z.infer<typeof ErrorResponseZod>;
+export type ResolverErrorCode = z.infer<typeof ResolverErrorCodeZod>;
+export type PlaybackLinkOptions = z.infer<typeof PlaybackLinkOptionsZod>;
+export type RecipeStep = z.infer<typeof RecipeStepZod>;
+export type RecipeSnippetName = z.infer<typeof RecipeSnippetNameZod>;
+export type ActivationRecipe = z.infer<typeof ActivationRecipeZod>;
+export type RecipeReport = z.infer<typeof RecipeReportZod>;
 
 // Internal types
 export interface BrowserPoolOptions {
   maxConcurrentPages: number;
+  // Espera máxima por una página libre antes de fallar con POOL_EXHAUSTED
+  acquireTimeoutMs: number;
   browserPoolSize: number;
   headless: boolean;
   userAgent: string;
@@ -119,6 +316,8 @@ export interface DetectionContext {
   options: ResolveHLSOptions;
   sessionId: string;
   startTime: number;
+  // Perfil del sitio aplicado a la resolución, si lo hay
+  profile?: SiteProfile | null;
 }
 
 export interface HLSCandidate {
@@ -128,16 +327,68 @@ export interface HLSCandidate {
   cookies: Cookie[];
   detectedAt: number;
   source: 'request' | 'response' | 'iframe' | 'serviceworker';
+  // Status HTTP y target CDP de la respuesta observada
+  status?: number;
+  fromTargetId?: string;
+  // Cuerpo recibido por el navegador (solo con captureBodies)
+  body?: string;
+  // Solo para vídeo progresivo (MP4/WebM directo)
+  contentLength?: number;
+  acceptsRanges?: boolean;
 }
 
 export interface ParsedM3U8 {
   isLive: boolean;
   isLowLatency: boolean;
   variants: StreamVariant[];
+  renditions: Rendition[];
   mediaPlaylists: string[];
   encryption?: StreamEncryption;
 }
 
+export interface ByteRange {
+  length: number;
+  offset?: number;
+}
+
+export interface MediaInitSection {
+  uri: string;
+  byteRange?: ByteRange;
+}
+
+export interface MediaSegment {
+  uri: string;
+  duration: number;
+  title?: string;
+  sequence: number;
+  discontinuity: boolean;
+  discontinuitySequence: number;
+  programDateTime?: string;
+  byteRange?: ByteRange;
+  map?: MediaInitSection;
+  encryption?: StreamEncryption;
+}
+
+export interface ParsedMediaPlaylist {
+  version?: number;
+  targetDuration?: number;
+  mediaSequence: number;
+  discontinuitySequence: number;
+  playlistType?: 'VOD' | 'EVENT';
+  endList: boolean;
+  segments: MediaSegment[];
+  totalDuration: number;
+}
+
+export interface ParsedMPD {
+  isLive: boolean;
+  mediaPresentationDuration?: number;
+  minBufferTime?: number;
+  timeShiftBufferDepth?: number;
+  periods: DashPeriod[];
+  contentProtection: ContentProtection[];
+}
+
 export interface DetectionResult {
   candidates: HLSCandidate[];
   requiredHeaders: Record<string, string>;
@@ -166,7 +417,10 @@ export const ResolveHLSRequestZod = z.object({
     clickRetries: z.number().int().min(0).max(5).default(1),
     abortAfterFirst: z.boolean().default(true),
     captureBodies: z.boolean().default(false),
-    headless: z.boolean().optional(),
+    // Se declara para rechazarlo con un mensaje claro en lugar de ignorarlo
+    headless: z.never({
+      message: 'headless no se admite por petición: las resoluciones usan siempre el pool de navegadores compartido (PUPPETEER_HEADLESS)',
+    }).optional(),
     userAgent: z.string().optional(),
     viewport: z.object({
       width: z.number().int().positive(),
@@ -175,8 +429,12 @@ export const ResolveHLSRequestZod = z.object({
     emulateMobile: z.boolean().optional(),
     extraHeaders: z.record(z.string(), z.string()).optional(),
     waitUntil: z.enum(['domcontentloaded', 'networkidle2', 'networkidle0']).optional(),
+    maxWaitMs: z.number().int().positive().optional(),
     m3u8Patterns: z.array(z.string()).optional(),
     debug: z.boolean().optional(),
+    recipe: ActivationRecipeZod.optional(),
+    mode: ResolverModeZod.optional(),
+    playbackLink: PlaybackLinkOptionsZod.optional(),
   }).optional(),
 });
 
@@ -187,6 +445,9 @@ export const ManifestZod = z.object({
   body: z.string().optional(),
   fromTargetId: z.string(),
   timestamp: z.number(),
+  contentLength: z.number().int().optional(),
+  acceptsRanges: z.boolean().optional(),
+  playbackUrl: z.string().optional(),
 });
 
 export const ResolveHLSResponseZod = z.object({
@@ -199,6 +460,10 @@ export const ResolveHLSResponseZod = z.object({
   }),
   clicksPerformed: z.number(),
   targetsObserved: z.number(),
+  sessionId: z.string().optional(),
+  requiredHeaders: z.record(z.string(), z.string()).optional(),
+  requiredCookies: z.array(CookieZod).optional(),
+  recipe: RecipeReportZod.optional(),
 });
 
 export type ResolveHLSRequest = z.infer<typeof ResolveHLSRequestZod>;
@@ -207,34 +472,250 @@ export type ResolveHLSResponse = z.infer<typeof ResolveHLSResponseZod>;
 export type Manifest = z.infer<typeof ManifestZod>;
 
 // --- Bulk Processing Schemas ---
+// Opciones de resolución de cada job; la caché y los enlaces de reproducción no aplican a los lotes
+export const BulkJobOptionsZod = ResolveOptionsZod.unwrap().omit({ cache: true, playbackLink: true });
+
+export const BulkUrlEntryZod = z.union([
+  z.string().url(),
+  z.object({
+    url: z.string().url(),
+    options: BulkJobOptionsZod.optional(),
+  }),
+]);
+
+// Prioridad de los jobs del lote en la cola frente a los de otros lotes
+export const BulkPriorityZod = z.enum(['high', 'normal', 'low']);
+
 export const BulkResolveRequestZod = (maxUrls: number) => z.object({
-  urls: z.array(z.string().url()).min(1, "Debe proporcionar al menos una URL").max(maxUrls, `No se pueden procesar más de ${maxUrls} URLs por lote`),
+  urls: z.array(BulkUrlEntryZod).min(1, "Debe proporcionar al menos una URL").max(maxUrls, `No se pueden procesar más de ${maxUrls} URLs por lote`),
+  // Opciones comunes del lote; las de cada URL tienen prioridad
+  defaultOptions: BulkJobOptionsZod.optional(),
+  priority: BulkPriorityZod.default('normal'),
+  // Webhook al que se notifica cada job terminado y el final del lote
+  callbackUrl: z.string().url().optional(),
+  // Secreto con el que se firma el cuerpo de cada notificación (HMAC-SHA256)
+  callbackSecret: z.string().min(16).max(256).optional(),
+}).refine(body => !body.callbackUrl || body.callbackSecret, {
+  message: 'callbackSecret es obligatorio si se indica callbackUrl',
+  path: ['callbackSecret'],
+});
+
+export const WebhookEventZod = z.enum(['job.completed', 'job.failed', 'batch.completed']);
+
+export const WebhookDeliveryZod = z.object({
+  deliveryId: z.string(),
+  event: WebhookEventZod,
+  attempt: z.number().int(),
+  success: z.boolean(),
+  statusCode: z.number().int().optional(),
+  error: z.string().optional(),
+  durationMs: z.number(),
+  attemptedAt: z.string(),
 });
 
+export const BatchStatusZod = z.enum(['PENDING', 'PROCESSING', 'PAUSED', 'COMPLETED', 'CANCELLED']);
+
 export const BulkResolveResponseZod = z.object({
   batchId: z.string(),
-  status: z.enum(['PENDING', 'PROCESSING', 'COMPLETED']),
+  status: BatchStatusZod,
   totalJobs: z.number(),
   message: z.string(),
 });
 
-export const BulkStatusResponseZod = z.object({
+export const BulkJobResultZod = z.object({
+  url: z.string(),
+  status: z.enum(['pending', 'completed', 'failed', 'cancelled']),
+  result: ResolveResponseZod.optional(),
+  error: z.string().optional(),
+  errorCode: ResolverErrorCodeZod.optional(),
+  finishedAt: z.string().optional(),
+  // Opciones efectivas del job: las del lote combinadas con las de la URL
+  options: BulkJobOptionsZod.optional(),
+});
+
+export const BatchSummaryZod = z.object({
   batchId: z.string(),
-  status: z.string(),
-  progress: z.number(),
+  status: BatchStatusZod,
+  priority: BulkPriorityZod,
   total: z.number(),
+  counts: z.object({
+    waiting: z.number(),
+    active: z.number(),
+    completed: z.number(),
+    failed: z.number(),
+    cancelled: z.number(),
+  }),
+  progress: z.number(),
+  createdAt: z.string(),
+  finishedAt: z.string().optional(),
   durationMs: z.number().optional(),
-  results: z.array(z.object({
-    url: z.string(),
-    status: z.enum(['completed', 'failed']),
-    result: ResolveResponseZod.optional(),
-    error: z.string().optional(),
-  })).optional(),
+});
+
+export const BulkStatusResponseZod = BatchSummaryZod.extend({
+  // Solo cuando el lote ha terminado; para lotes grandes usar /results
+  results: z.array(BulkJobResultZod).optional(),
+  webhook: z.object({
+    callbackUrl: z.string(),
+    deliveries: z.array(WebhookDeliveryZod),
+  }).optional(),
+});
+
+export const PaginationQueryZod = z.object({
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+export const BulkBatchListResponseZod = z.object({
+  total: z.number(),
+  offset: z.number(),
+  limit: z.number(),
+  batches: z.array(BatchSummaryZod),
+});
+
+export const BulkBatchOperationResponseZod = BatchSummaryZod.extend({
+  // Jobs cancelados, pausados, reanudados o reencolados por la operación
+  affectedJobs: z.number(),
+});
+
+export const BulkRetryFailedRequestZod = z.object({
+  // Se combinan con las opciones que tenía cada job
+  options: BulkJobOptionsZod.optional(),
+}).optional();
+
+export const BulkResultsPageResponseZod = z.object({
+  batchId: z.string(),
+  total: z.number(),
+  offset: z.number(),
+  limit: z.number(),
+  results: z.array(BulkJobResultZod),
 });
 
 export type BulkResolveRequest = z.infer<ReturnType<typeof BulkResolveRequestZod>>;
 export type BulkResolveResponse = z.infer<typeof BulkResolveResponseZod>;
 export type BulkStatusResponse = z.infer<typeof BulkStatusResponseZod>;
+export type BulkJobResult = z.infer<typeof BulkJobResultZod>;
+export type BulkJobOptions = z.infer<typeof BulkJobOptionsZod>;
+export type BulkUrlEntry = z.infer<typeof BulkUrlEntryZod>;
+export type BulkPriority = z.infer<typeof BulkPriorityZod>;
+export type BatchSummary = z.infer<typeof BatchSummaryZod>;
+export type WebhookEvent = z.infer<typeof WebhookEventZod>;
+export type WebhookDelivery = z.infer<typeof WebhookDeliveryZod>;
+
+// --- Playback Proxy Schemas ---
+export const PlaybackSessionRequestZod = z.object({
+  url: z.string().url({ message: 'El campo url debe ser una URL válida' }),
+  pageUrl: z.string().url().optional(),
+  headers: z.record(z.string(), z.string()).optional(),
+  cookies: z.array(CookieZod).optional(),
+});
+
+export const PlaybackSessionResponseZod = z.object({
+  token: z.string(),
+  playbackUrl: z.string(),
+  expiresAt: z.string(),
+});
+
+export type PlaybackSessionRequest = z.infer<typeof PlaybackSessionRequestZod>;
+export type PlaybackSessionResponse = z.infer<typeof PlaybackSessionResponseZod>;
+
+// --- API Key Management Schemas ---
+export const ApiKeyScopeZod = z.enum(['resolve', 'bulk', 'admin', 'proxy-playback']);
+
+export const CreateApiKeyRequestZod = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(ApiKeyScopeZod).min(1).default(['resolve']),
+  dailyQuota: z.number().int().positive().nullable().default(null),
+  allowedDomains: z.array(z.string()).default([]),
+});
+
+export const ApiKeyZod = z.object({
+  id: z.string(),
+  name: z.string(),
+  prefix: z.string(),
+  scopes: z.array(ApiKeyScopeZod),
+  dailyQuota: z.number().int().nullable(),
+  allowedDomains: z.array(z.string()),
+  enabled: z.boolean(),
+  createdAt: z.string(),
+  rotatedAt: z.string().optional(),
+  revokedAt: z.string().optional(),
+  usageToday: z.number().int().optional(),
+});
+
+export const ApiKeyWithSecretZod = ApiKeyZod.extend({
+  key: z.string(),
+});
+
+export const ApiKeyListResponseZod = z.object({
+  keys: z.array(ApiKeyZod),
+});
+
+export type ApiKeyScope = z.infer<typeof ApiKeyScopeZod>;
+export type CreateApiKeyRequest = z.infer<typeof CreateApiKeyRequestZod>;
+export type ApiKeyInfo = z.infer<typeof ApiKeyZod>;
+export type ApiKeyWithSecret = z.infer<typeof ApiKeyWithSecretZod>;
+
+// --- Strategy Stats Schemas ---
+export const StrategyStatsZod = z.object({
+  attempts: z.number(),
+  successes: z.number(),
+  successRate: z.number(),
+  medianTimeToDetectionMs: z.number().nullable(),
+  lastSuccessAt: z.string().nullable(),
+  lastAttemptAt: z.string(),
+});
+
+export const DomainStrategyStatsResponseZod = z.object({
+  domain: z.string(),
+  // Orden en que el resolver probaría las estrategias registradas
+  order: z.array(z.string()),
+  strategies: z.record(z.string(), StrategyStatsZod),
+});
+
+export const StrategyStatsListResponseZod = z.object({
+  domains: z.array(DomainStrategyStatsResponseZod),
+});
+
+export type DomainStrategyStatsResponse = z.infer<typeof DomainStrategyStatsResponseZod>;
+
+// --- Site Profile Schemas ---
+export const ActivationStrategyNameZod = z.enum([
+  'fast-center-once',
+  'fast-center-double',
+  'overlay-close',
+  'play-elements',
+  'iframe-click',
+]);
+
+export const SiteProfileSettingsZod = z.object({
+  mode: ResolverModeZod.optional(),
+  activationStrategies: z.array(ActivationStrategyNameZod).min(1).optional(),
+  m3u8Patterns: z.array(RegexPatternZod).optional(),
+  blockRules: z.array(z.string().min(1)).optional(),
+  waits: z.object({
+    afterNavigationMs: z.number().int().nonnegative().optional(),
+    afterClickMs: z.number().int().nonnegative().optional(),
+    maxWaitMs: z.number().int().positive().optional(),
+  }).strict().optional(),
+  headers: z.record(z.string(), z.string()).optional(),
+  userAgent: z.string().min(1).optional(),
+  requiresProxy: z.boolean().optional(),
+}).strict();
+
+export const SiteProfileZod = SiteProfileSettingsZod.extend({
+  name: z.string().min(1).optional(),
+  hosts: z.array(z.string().min(1)).min(1),
+  recipe: ActivationRecipeZod.optional(),
+}).strict();
+
+export const SiteProfilesFileZod = z.object({
+  defaults: SiteProfileSettingsZod.optional(),
+  profiles: z.array(SiteProfileZod).default([]),
+}).strict();
+
+export type SiteProfileSettings = z.infer<typeof SiteProfileSettingsZod>;
+export type SiteProfile = z.infer<typeof SiteProfileZod>;
+export type SiteProfilesFile = z.infer<typeof SiteProfilesFileZod>;
 
 // --- JSON Schemas para Fastify ---
 export const resolveRequestSchema = ResolveRequestZod;
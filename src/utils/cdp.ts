@@ -0,0 +1,34 @@
+import type { CDPSession, Target } from 'puppeteer';
+import { getLogger } from '../core/observability/logger.js';
+
+/**
+ * Obtiene el targetId de CDP de la sesión indicada
+ */
+export async function getSessionTargetId(session: CDPSession): Promise<string | undefined> {
+  try {
+    const { targetInfo } = await session.send('Target.getTargetInfo');
+    return targetInfo.targetId;
+  } catch (error) {
+    getLogger().debug({ error }, 'Failed to get CDP target info');
+    return undefined;
+  }
+}
+
+/**
+ * Obtiene el targetId de CDP de un target de Puppeteer, que no lo expone
+ * en su API pública. Abre una sesión temporal que se cierra al terminar.
+ */
+export async function getTargetId(target: Target): Promise<string | undefined> {
+  let session: CDPSession | undefined;
+  try {
+    session = await target.createCDPSession();
+    return await getSessionTargetId(session);
+  } catch (error) {
+    getLogger().debug({ error }, 'Failed to open CDP session to resolve target id');
+    return undefined;
+  } finally {
+    try {
+      await session?.detach();
+    } catch {}
+  }
+}
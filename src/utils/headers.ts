@@ -1,5 +1,6 @@
 import { getLogger } from '../core/observability/logger.js';
 import { validateHeaderValue } from 'node:http';
+import { Cookie } from '../types/dto.js';
 
 // Expresión regular para nombres de cabecera válidos (según RFC 7230)
 const SAFE_HEADER_NAME_REGEX = /^[!#$%&'*+\-.\^_`|~0-9a-zA-Z]+$/;
@@ -41,6 +42,30 @@ function isValidHeader(name: string, value: string): boolean {
   }
 }
 
+/**
+ * Construye la cabecera Cookie con las cookies aplicables al dominio de la URL destino.
+ * Una cookie de `.example.com` (o `example.com`) aplica también a sus subdominios.
+ *
+ * @param cookies - Cookies capturadas en el navegador.
+ * @param targetUrl - URL a la que se enviará la petición.
+ * @returns El valor de la cabecera Cookie, o `undefined` si ninguna cookie aplica.
+ */
+export function buildCookieHeader(cookies: Cookie[], targetUrl: string): string | undefined {
+  let targetDomain: string;
+  try {
+    targetDomain = new URL(targetUrl).hostname;
+  } catch {
+    return undefined;
+  }
+
+  const relevantCookies = cookies.filter(cookie => {
+    const cookieDomain = cookie.domain || targetDomain;
+    return targetDomain.endsWith(cookieDomain.startsWith('.') ? cookieDomain.substring(1) : cookieDomain);
+  });
+
+  return relevantCookies.map(c => `${c.name}=${c.value}`).join('; ') || undefined;
+}
+
 export class HeadersManager {
   private headers: Record<string, string>;
 
@@ -0,0 +1,38 @@
+import crypto from 'crypto';
+import { normalizePageUrl } from './url.js';
+
+/**
+ * Copia el valor con las claves de los objetos ordenadas, para que dos
+ * opciones equivalentes serialicen igual.
+ */
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => sortKeys(item));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map(key => [key, sortKeys((value as Record<string, unknown>)[key])]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Identificador estable de una resolución: hash de la URL de la página
+ * normalizada y de sus opciones, sin las indicadas en `excludedOptions`.
+ */
+export function buildRequestKey(
+  url: string,
+  options: object | undefined,
+  excludedOptions: string[] = [],
+): string {
+  const relevant: Record<string, unknown> = { ...options };
+  for (const option of excludedOptions) {
+    delete relevant[option];
+  }
+
+  const payload = JSON.stringify([normalizePageUrl(url), sortKeys(relevant)]);
+  return crypto.createHash('sha256').update(payload).digest('hex');
+}
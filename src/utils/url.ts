@@ -22,12 +22,15 @@ export function normalizeUrl(url: string): string {
       'timestamp',
     ];
     
+    // Nombres cortos que solo se conservan si coinciden exactamente
+    const exactRelevantParams = ['exp', 'e'];
+    
     const newSearchParams = new URLSearchParams();
     
     for (const [key, value] of urlObj.searchParams.entries()) {
       const lowerKey = key.toLowerCase();
       
-      if (relevantParams.some(param => lowerKey.includes(param))) {
+      if (relevantParams.some(param => lowerKey.includes(param)) || exactRelevantParams.includes(lowerKey)) {
         newSearchParams.set(key, value);
       }
     }
@@ -41,6 +44,88 @@ export function normalizeUrl(url: string): string {
   }
 }
 
+/**
+ * Normaliza la URL de una página para usarla como clave: sin fragmento y con
+ * los parámetros ordenados. A diferencia de normalizeUrl conserva todos los
+ * parámetros, que suelen identificar el contenido.
+ */
+export function normalizePageUrl(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    urlObj.hash = '';
+    urlObj.searchParams.sort();
+    return urlObj.href;
+  } catch {
+    return url;
+  }
+}
+
+// Parámetros de caducidad habituales en URLs firmadas (se comparan sin mayúsculas)
+const EXPIRY_PARAMS = ['expires', 'exp', 'e'];
+
+/**
+ * Interpreta un timestamp Unix en segundos o milisegundos. Devuelve milisegundos.
+ */
+function parseEpoch(value: string): number | null {
+  if (/^\d{10}$/.test(value)) {
+    return parseInt(value, 10) * 1000;
+  }
+  if (/^\d{13}$/.test(value)) {
+    return parseInt(value, 10);
+  }
+  return null;
+}
+
+/**
+ * Busca la caducidad dentro de un token: el claim `exp` si es un JWT o, si
+ * no, un timestamp Unix de 10 dígitos embebido en el valor.
+ */
+function parseTokenExpiry(token: string): number | null {
+  const parts = token.split('.');
+  if (parts.length === 3) {
+    try {
+      const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf-8')) as { exp?: unknown };
+      if (typeof payload.exp === 'number') {
+        return payload.exp * 1000;
+      }
+    } catch {
+      // No es un JWT; se prueba con el timestamp embebido
+    }
+  }
+
+  const match = token.match(/(?:^|\D)(\d{10})(?:\D|$)/);
+  return match ? parseInt(match[1], 10) * 1000 : null;
+}
+
+/**
+ * Extrae la caducidad de una URL firmada a partir de los parámetros
+ * `expires`, `exp`, `e` y `token`. Devuelve el instante más próximo en
+ * milisegundos, o null si la URL no indica ninguno.
+ */
+export function extractUrlExpiry(url: string): number | null {
+  try {
+    const urlObj = new URL(url);
+    const candidates: number[] = [];
+
+    for (const [key, value] of urlObj.searchParams.entries()) {
+      const lowerKey = key.toLowerCase();
+      const expiry = EXPIRY_PARAMS.includes(lowerKey)
+        ? parseEpoch(value)
+        : lowerKey === 'token'
+          ? parseTokenExpiry(value)
+          : null;
+
+      if (expiry !== null) {
+        candidates.push(expiry);
+      }
+    }
+
+    return candidates.length > 0 ? Math.min(...candidates) : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Convierte una URL relativa en absoluta
  */
@@ -216,6 +301,32 @@ export function isHLSUrl(url: string): boolean {
   }
 }
 
+/**
+ * Verifica si una URL es un manifiesto MPEG-DASH basándose en la extensión
+ */
+export function isDASHUrl(url: string): boolean {
+  try {
+    const urlObj = new URL(url);
+    const pathname = urlObj.pathname.toLowerCase();
+    
+    return pathname.endsWith('.mpd') || pathname.includes('.mpd');
+  } catch {
+    return url.toLowerCase().includes('.mpd');
+  }
+}
+
+/**
+ * Verifica si una URL apunta a un fichero de vídeo progresivo (MP4/WebM)
+ */
+export function isProgressiveUrl(url: string): boolean {
+  try {
+    const pathname = new URL(url).pathname.toLowerCase();
+    return /\.(mp4|m4v|webm)$/.test(pathname);
+  } catch {
+    return /\.(mp4|m4v|webm)(\?|#|$)/.test(url.toLowerCase());
+  }
+}
+
 /**
  * Obtiene la URL base para resolver URLs relativas
  */
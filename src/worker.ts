@@ -1,21 +1,44 @@
-import { Worker, Job } from 'bullmq';
+import { Worker, Job, UnrecoverableError, DelayedError } from 'bullmq';
 import { URL } from 'url';
 import { loadConfig, getConfig, EnvConfig } from './config/env.js';
+import { loadSiteProfiles } from './config/site-profiles.js';
 import { createLogger, ILogger } from './core/observability/logger.js';
 import { ResolverService } from './core/resolver/resolver.service.js';
 import { ProxyProviderFactory } from './core/proxy/proxy.factory.js';
 import { IProxyProvider } from './core/contracts/proxy.provider.js';
 import { BrowserPool } from './core/resolver/browser.pool.js';
 import { StrategyCacheFactory } from './core/cache/strategy-cache.factory.js';
+import { closeRedisClient, getRedisClient } from './core/redis/redis.client.js';
+import { RedisSingleFlight } from './core/redis/redis-single-flight.js';
+import { RedisSemaphore } from './core/redis/redis-semaphore.js';
+import { BATCH_CANCELLED_MESSAGE, BatchJobOutcome, BatchStore } from './core/queue/batch.store.js';
+import { BulkJobOptions, ResolveHLSOptions, ResolveResponse, ResolverErrorCode } from './types/dto.js';
+import { WEBHOOK_QUEUE, WebhookDeliveryJobData, WebhookService } from './core/webhooks/webhook.service.js';
+import { extractDomain, isDomainAllowed } from './utils/url.js';
+import { ApiKeyStore } from './core/security/api-key.store.js';
+import {
+  DomainNotAllowedError,
+  NoStreamFoundError,
+  RESOLVER_ERROR_POLICIES,
+  ResolverError,
+  resolverBackoffStrategy,
+} from './core/resolver/resolver-errors.js';
 
 // Tipos de datos para los trabajos
 interface ResolveJobData {
   url: string;
+  // Ausente en los jobs encolados antes de existir el registro de lotes
+  batchId?: string;
+  // Opciones efectivas del job (formato de la API v1)
+  options?: BulkJobOptions;
+  // Código del último intento fallido, para decidir cómo reintentar
+  lastErrorCode?: ResolverErrorCode;
 }
 
 // Cargar configuración al inicio
 loadConfig();
 const config: EnvConfig = getConfig();
+loadSiteProfiles();
 const logger: ILogger = createLogger('worker', config.LOG_LEVEL);
 
 const HLS_RESOLVER_QUEUE = 'hls-resolver';
@@ -32,9 +55,11 @@ async function runWorker() {
 
   // Instanciar dependencias
   const strategyCache = StrategyCacheFactory.createCache();
+  await strategyCache.initialize();
   const browserPool = new BrowserPool({
     browserPoolSize: config.BROWSER_POOL_SIZE,
     maxConcurrentPages: config.WORKER_CONCURRENCY, // Usar la concurrencia del worker
+    acquireTimeoutMs: config.BROWSER_POOL_ACQUIRE_TIMEOUT_MS,
     headless: config.PUPPETEER_HEADLESS,
     userAgent: config.USER_AGENT,
   });
@@ -44,50 +69,283 @@ async function runWorker() {
   const resolverService = new ResolverService(browserPool, strategyCache);
   const proxyProvider: IProxyProvider = ProxyProviderFactory.create();
 
+  // Los jobs de la misma URL en distintos workers esperan a la primera resolución
+  const singleFlight = new RedisSingleFlight(getRedisClient(), {
+    lockTtlMs: 30000,
+    resultTtlMs: 5000,
+    waitTimeoutMs: config.NAV_TIMEOUT_MS + config.MAX_WAIT_MS + 30000,
+    pollIntervalMs: 500,
+  });
+
+  // Páginas abiertas por dominio entre todos los workers
+  const domainSemaphore = config.WORKER_DOMAIN_CONCURRENCY > 0
+    ? new RedisSemaphore(getRedisClient(), {
+      limit: config.WORKER_DOMAIN_CONCURRENCY,
+      leaseTtlMs: 30000,
+    })
+    : undefined;
+
+  const getResolveOptions = (job: Job<ResolveJobData>): ResolveHLSOptions | undefined =>
+    job.data.options ? resolverService.mapLegacyOptions(job.data.options) : undefined;
+
+  const batchStore = BatchStore.getInstance();
+  const apiKeyStore = ApiKeyStore.getInstance();
+  const webhookService = WebhookService.getInstance();
+
+  // Resultado en formato v1 de cada job completado, calculado dentro del job
+  const legacyResults = new Map<string, ResolveResponse>();
+
+  // Jobs en curso de cada lote, para abortarlos si se cancela
+  const batchAbortControllers = new Map<string, Set<AbortController>>();
+  const stopCancellationListener = await batchStore.subscribeToCancellations(batchId => {
+    batchAbortControllers.get(batchId)?.forEach(controller => controller.abort());
+  });
+
+  /**
+   * Ejecuta la tarea del job. Si su lote se cancela, el job falla sin
+   * reintentos en cuanto llega la señal y la tarea recibe la señal abortada
+   * para cerrar su página.
+   */
+  const runCancellable = async <T>(
+    job: Job<ResolveJobData>,
+    task: (signal?: AbortSignal) => Promise<T>,
+  ): Promise<T> => {
+    const { batchId } = job.data;
+    if (!batchId) {
+      return task();
+    }
+    if ((await batchStore.getState(batchId)) === 'cancelled') {
+      throw new UnrecoverableError(BATCH_CANCELLED_MESSAGE);
+    }
+
+    const controller = new AbortController();
+    const controllers = batchAbortControllers.get(batchId) ?? new Set<AbortController>();
+    controllers.add(controller);
+    batchAbortControllers.set(batchId, controllers);
+
+    const cancelled = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener(
+        'abort',
+        () => reject(new UnrecoverableError(BATCH_CANCELLED_MESSAGE)),
+        { once: true },
+      );
+    });
+
+    try {
+      return await Promise.race([task(controller.signal), cancelled]);
+    } finally {
+      controllers.delete(controller);
+      if (controllers.size === 0) {
+        batchAbortControllers.delete(batchId);
+      }
+    }
+  };
+
+  /**
+   * Aplica los dominios permitidos de la key dueña del lote. Los reintentos
+   * (retry-failed, resume) no pasan por la allowlist de la API, así que se
+   * comprueba en cada job con la key tal y como está ahora.
+   */
+  const assertOwnerAllowsUrl = async (job: Job<ResolveJobData>): Promise<void> => {
+    const { batchId, url } = job.data;
+    if (!batchId) {
+      return;
+    }
+    const ownerId = await batchStore.getOwner(batchId);
+    const owner = ownerId ? await apiKeyStore.get(ownerId) : null;
+    if (owner && !isDomainAllowed(url, owner.allowedDomains)) {
+      throw new DomainNotAllowedError(url);
+    }
+  };
+
+  /**
+   * Reserva un hueco del dominio de la URL y devuelve la función que lo
+   * libera. Si el dominio ya está al límite, el job vuelve a la cola como
+   * retrasado sin gastar un intento y el hueco del worker queda libre para
+   * jobs de otros dominios.
+   */
+  const acquireDomainSlot = async (job: Job<ResolveJobData>, token?: string): Promise<() => Promise<void>> => {
+    const domain = extractDomain(job.data.url);
+    if (!domainSemaphore || !domain) {
+      return async () => undefined;
+    }
+
+    const release = await domainSemaphore.tryAcquire(`domain:${domain}`);
+    if (release) {
+      return release;
+    }
+
+    // El margen aleatorio evita que los jobs aplazados vuelvan todos a la vez
+    const delay = config.WORKER_DOMAIN_DEFER_MS * (1 + Math.random());
+    logger.debug(`Job ${job.id} deferred ${Math.round(delay)}ms: domain ${domain} is at its concurrency limit`);
+    await job.moveToDelayed(Date.now() + delay, token);
+    if (job.data.batchId) {
+      // Deja de contar como activo hasta que vuelva a ejecutarse
+      await batchStore.markJobRetrying(job.data.batchId);
+    }
+    throw new DelayedError();
+  };
+
+  /**
+   * Proxy del intento. Cada navegador que sale por el proxy rotativo obtiene
+   * otra IP, así que el reintento tras un fallo cuya política pide cambiar de
+   * proxy ya sale por uno nuevo; sin proxy configurado se reintenta sin él.
+   */
+  const getProxyForAttempt = async (job: Job<ResolveJobData>): Promise<string | null> => {
+    const proxyUrl = await proxyProvider.getProxy();
+    const { lastErrorCode } = job.data;
+    if (lastErrorCode && RESOLVER_ERROR_POLICIES[lastErrorCode].switchProxy) {
+      if (proxyUrl) {
+        logger.info(`Job ${job.id} retries through a new proxy session after ${lastErrorCode}`);
+      } else {
+        logger.warn(`Job ${job.id} should switch proxy after ${lastErrorCode}, but no proxy is configured`);
+      }
+    }
+    return proxyUrl;
+  };
+
   // Crear el worker de BullMQ
-  const worker = new Worker<ResolveJobData>(HLS_RESOLVER_QUEUE, async (job: Job<ResolveJobData>) => {
+  const worker = new Worker<ResolveJobData>(HLS_RESOLVER_QUEUE, async (job: Job<ResolveJobData>, token?: string) => {
     const { url } = job.data;
+    const options = getResolveOptions(job);
+    await assertOwnerAllowsUrl(job);
+    const releaseDomainSlot = await acquireDomainSlot(job, token);
     logger.info(`Processing job ${job.id} for URL: ${url}`);
 
+    // Un job cancelado termina antes que su navegación: el hueco del dominio se libera cuando esta acaba
+    let running: Promise<unknown> = Promise.resolve();
     try {
-      const proxyUrl = await proxyProvider.getProxy();
-      const result = await resolverService.resolve(url, proxyUrl);
+      const { value: result, coalesced } = await runCancellable(job, signal => {
+        const flight = singleFlight.run(
+          ResolverService.getFlightKey(url, options),
+          async () => resolverService.resolve(url, await getProxyForAttempt(job), options, signal),
+        );
+        running = flight;
+        return flight;
+      });
+      if (coalesced) {
+        logger.info(`Job ${job.id} reused the in-flight resolve of another worker for ${url}`);
+      }
       
       if (result.manifests && result.manifests.length > 0) {
         logger.info(`HLS found for ${url} in job ${job.id}`);
+        // La conversión descarga los manifiestos: si falla, el job se reintenta según su política
+        legacyResults.set(job.id!, await resolverService.convertToLegacyResponse(result, url, options));
         // Devolver el objeto de resultado completo para mantener la consistencia del esquema.
         return result;
       } else {
-        const reason = 'HLS not found after processing';
-        logger.warn(`HLS not found for ${url} in job ${job.id}. Reason: ${reason}`);
-        throw new Error(reason);
+        logger.warn(`HLS not found for ${url} in job ${job.id}`);
+        throw new NoStreamFoundError(url);
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      logger.error(`Job ${job.id} failed for URL ${url}. Error: ${errorMessage}`);
+      const code = error instanceof ResolverError ? error.code : undefined;
+      logger.error(`Job ${job.id} failed for URL ${url}${code ? ` (${code})` : ''}. Error: ${errorMessage}`);
+      if (code !== job.data.lastErrorCode) {
+        await job
+          .updateData({ ...job.data, lastErrorCode: code })
+          .catch(updateError => logger.warn(`Failed to store error code of job ${job.id}: ${updateError.message}`));
+      }
       throw error; // Lanzar el error para que BullMQ lo marque como fallido
+    } finally {
+      void running
+        .catch(() => undefined)
+        .then(releaseDomainSlot)
+        .catch(error => logger.warn(`Failed to release domain slot of job ${job.id}: ${error.message}`));
     }
   }, {
     connection,
     concurrency: config.WORKER_CONCURRENCY,
+    // Decide por código de error si se reintenta (ver RESOLVER_ERROR_POLICIES)
+    settings: { backoffStrategy: resolverBackoffStrategy },
     removeOnComplete: { count: 1000 }, // Mantener 1000 trabajos completados
     removeOnFail: { count: 5000 },    // Mantener 5000 trabajos fallidos
   });
 
+  /**
+   * Guarda el resultado final del job en su lote y, si el lote tiene webhook,
+   * encola la notificación del job y, si era el último, la del lote.
+   */
+  const recordBatchResult = async (job: Job<ResolveJobData>, outcome: BatchJobOutcome): Promise<void> => {
+    const { batchId, url } = job.data;
+    if (!batchId) {
+      return;
+    }
+
+    const batch = await batchStore.recordJobResult(batchId, url, outcome);
+    if (!batch?.hasWebhook) {
+      return;
+    }
+
+    // Los jobs cancelados solo cuentan en el resumen de batch.completed
+    const { status, ...detail } = outcome;
+    if (status !== 'cancelled') {
+      await webhookService.enqueue(batchId, status === 'completed' ? 'job.completed' : 'job.failed', {
+        jobId: job.id,
+        url,
+        ...detail,
+      });
+    }
+
+    await webhookService.notifyIfBatchFinished(batchId, batch);
+  };
+
   // --- Eventos del Worker ---
+  worker.on('active', job => {
+    if (job.data.batchId) {
+      batchStore
+        .markJobActive(job.data.batchId)
+        .catch(error => logger.error(`Failed to mark job ${job.id} as active: ${error.message}`));
+    }
+  });
+
   worker.on('completed', (job, result) => {
     logger.debug(`Job ${job.id} has completed.`);
+    const converted = legacyResults.get(job.id!);
+    legacyResults.delete(job.id!);
+    const legacy = converted
+      ? Promise.resolve(converted)
+      : resolverService.convertToLegacyResponse(result, job.data.url, getResolveOptions(job));
+    legacy
+      .then(response => recordBatchResult(job, { status: 'completed', result: response }))
+      .catch(error => logger.error(`Failed to record result of job ${job.id}: ${error.message}`));
   });
 
   worker.on('failed', (job, err) => {
     // El job puede ser undefined en algunos casos de error
     if (job) {
       logger.error(`Job ${job.id} has failed with error: ${err.message}`);
+      if (err.message === BATCH_CANCELLED_MESSAGE) {
+        recordBatchResult(job, { status: 'cancelled', error: err.message })
+          .catch(error => logger.error(`Failed to record cancellation of job ${job.id}: ${error.message}`));
+      } else if (job.finishedOn !== undefined) {
+        // Solo cuenta el último intento; la política del código de error decide si hay más
+        const errorCode = err instanceof ResolverError ? err.code : undefined;
+        recordBatchResult(job, { status: 'failed', error: err.message, errorCode })
+          .catch(error => logger.error(`Failed to record failure of job ${job.id}: ${error.message}`));
+      } else if (job.data.batchId) {
+        batchStore
+          .markJobRetrying(job.data.batchId)
+          .catch(error => logger.error(`Failed to mark job ${job.id} as retrying: ${error.message}`));
+      }
     } else {
       logger.error(`A job has failed with an unknown ID. Error: ${err.message}`);
     }
   });
 
+  // Entregas de webhooks, reintentadas por BullMQ con backoff exponencial
+  const webhookWorker = new Worker<WebhookDeliveryJobData>(
+    WEBHOOK_QUEUE,
+    async (job: Job<WebhookDeliveryJobData>) => webhookService.deliver(job),
+    { connection, concurrency: 5 },
+  );
+
+  webhookWorker.on('failed', (job, err) => {
+    if (job && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+      logger.error(`Webhook delivery ${job.id} for batch ${job.data.batchId} gave up: ${err.message}`);
+    }
+  });
+
   worker.on('error', err => {
     logger.error('Worker encountered an error:', err);
   });
@@ -98,7 +356,11 @@ async function runWorker() {
   const gracefulShutdown = async () => {
     logger.info('Shutting down worker gracefully...');
     await worker.close();
+    await webhookWorker.close();
+    await webhookService.close();
+    await stopCancellationListener();
     await browserPool.shutdown(); // Asegurar que los navegadores del worker se cierren
+    await closeRedisClient();
     process.exit(0);
   };
 
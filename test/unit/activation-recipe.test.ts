@@ -0,0 +1,132 @@
+import type { Page } from 'puppeteer';
+import { ActivationRecipeRunner } from '../../src/core/resolver/activation-recipe.runner';
+import { ActivationRecipeZod } from '../../src/types/dto';
+
+type RequestListener = (request: { url: () => string }) => void;
+
+/**
+ * Página mínima: cada selector devuelve `counts[selector]` elementos y los
+ * clics se registran en `clicked`.
+ */
+function createStubPage(counts: Record<string, number>) {
+  const clicked: string[] = [];
+  const listeners = new Set<RequestListener>();
+
+  const frame = {
+    waitForSelector: jest.fn(async (selector: string) => {
+      if (!counts[selector]) {
+        throw new Error(`Waiting for selector \`${selector}\` failed`);
+      }
+      return { dispose: async () => {}, contentFrame: async () => frame };
+    }),
+    $$: jest.fn(async (selector: string) =>
+      Array.from({ length: counts[selector] || 0 }, (_, i) => ({
+        click: async () => { clicked.push(`${selector}[${i}]`); },
+        dispose: async () => {},
+      })),
+    ),
+    evaluate: jest.fn(async () => 0),
+  };
+
+  const page = {
+    mainFrame: () => frame,
+    waitForSelector: frame.waitForSelector,
+    evaluate: jest.fn(async () => undefined),
+    waitForTimeout: jest.fn(async () => undefined),
+    waitForRequest: jest.fn(async () => { throw new Error('Timed out'); }),
+    keyboard: { press: jest.fn(async () => undefined) },
+    on: (_event: string, listener: RequestListener) => { listeners.add(listener); },
+    off: (_event: string, listener: RequestListener) => { listeners.delete(listener); },
+  };
+
+  const emitRequest = (url: string) => listeners.forEach(listener => listener({ url: () => url }));
+
+  return { page: page as unknown as Page, frame, clicked, emitRequest };
+}
+
+describe('ActivationRecipeRunner', () => {
+  it('should run steps in order and report per-step timings', async () => {
+    const { page, clicked } = createStubPage({ '.server-tab': 2, 'iframe#player': 1, '.play': 3 });
+    const runner = new ActivationRecipeRunner(page, 'test', () => 0);
+
+    const { report, clicks } = await runner.run(ActivationRecipeZod.parse({
+      name: 'servers',
+      steps: [
+        { action: 'click', selector: '.server-tab', index: 1 },
+        { action: 'waitForSelector', selector: 'iframe#player' },
+        { action: 'clickInFrame', frameSelector: 'iframe#player', selector: '.play', index: 2 },
+        { action: 'press', key: 'Space' },
+        { action: 'wait', ms: 100 },
+      ],
+    }));
+
+    expect(clicked).toEqual(['.server-tab[1]', '.play[2]']);
+    expect(clicks).toBe(2);
+    expect(report.completed).toBe(true);
+    expect(report.steps.map(s => s.status)).toEqual(['ok', 'ok', 'ok', 'ok', 'ok']);
+    expect(report.steps.every(s => typeof s.durationMs === 'number')).toBe(true);
+  });
+
+  it('should abort on a failed required step and continue past optional ones', async () => {
+    const { page } = createStubPage({ '.play': 1 });
+    const runner = new ActivationRecipeRunner(page, 'test', () => 0);
+
+    const { report } = await runner.run(ActivationRecipeZod.parse({
+      steps: [
+        { action: 'click', selector: '.cookie-banner', optional: true },
+        { action: 'click', selector: '.play', index: 4 },
+        { action: 'click', selector: '.play' },
+      ],
+    }));
+
+    expect(report.completed).toBe(false);
+    expect(report.steps.map(s => s.status)).toEqual(['failed', 'failed', 'skipped']);
+    expect(report.steps[1].error).toContain('No element at index 4');
+  });
+
+  it('should skip the remaining steps once a new manifest is detected', async () => {
+    const { page, frame } = createStubPage({ '.play': 1 });
+    // Ya había un manifiesto antes de la receta: solo cuenta uno nuevo
+    let candidates = 1;
+    frame.$$.mockImplementationOnce(async () => [{
+      click: async () => { candidates++; },
+      dispose: async () => {},
+    }]);
+    const runner = new ActivationRecipeRunner(page, 'test', () => candidates);
+
+    const { report } = await runner.run(ActivationRecipeZod.parse({
+      steps: [
+        { action: 'wait', ms: 10 },
+        { action: 'click', selector: '.play' },
+        { action: 'wait', ms: 10 },
+      ],
+    }));
+
+    expect(report.detected).toBe(true);
+    expect(report.steps.map(s => s.status)).toEqual(['ok', 'ok', 'skipped']);
+  });
+
+  it('should match network requests seen during earlier steps', async () => {
+    const { page, emitRequest } = createStubPage({});
+    (page.waitForTimeout as jest.Mock).mockImplementation(async () => {
+      emitRequest('https://cdn.example.com/hls/master.m3u8?token=1');
+    });
+    const runner = new ActivationRecipeRunner(page, 'test', () => 0);
+
+    const { report } = await runner.run(ActivationRecipeZod.parse({
+      steps: [
+        { action: 'wait', ms: 50 },
+        { action: 'waitForNetwork', urlPattern: 'master\\.m3u8' },
+      ],
+    }));
+
+    expect(report.steps.map(s => s.status)).toEqual(['ok', 'ok']);
+    expect(page.waitForRequest).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown actions and snippets', () => {
+    expect(() => ActivationRecipeZod.parse({ steps: [{ action: 'eval', code: 'alert(1)' }] })).toThrow();
+    expect(() => ActivationRecipeZod.parse({ steps: [{ action: 'evaluate', snippet: 'steal-cookies' }] })).toThrow();
+    expect(() => ActivationRecipeZod.parse({ steps: [] })).toThrow();
+  });
+});
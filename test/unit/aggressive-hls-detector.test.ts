@@ -0,0 +1,91 @@
+import type { Page } from 'puppeteer';
+import { AggressiveHLSDetector } from '../../src/core/resolver/detectors/aggressive-hls-detector';
+
+type Listener = (payload: unknown) => void;
+
+/**
+ * Página mínima que solo registra listeners; `emitResponse` simula una
+ * request y su respuesta con el body indicado.
+ */
+function createStubPage() {
+  const listeners: Record<string, Listener[]> = {};
+
+  const page = {
+    on: (event: string, listener: Listener) => {
+      (listeners[event] ??= []).push(listener);
+    },
+    removeAllListeners: (event: string) => {
+      delete listeners[event];
+    },
+  };
+
+  const emitResponse = (url: string, body = '#EXTM3U') => {
+    listeners.request?.forEach(listener =>
+      listener({ url: () => url, method: () => 'GET', resourceType: () => 'xhr' }),
+    );
+    listeners.response?.forEach(listener =>
+      listener({
+        url: () => url,
+        status: () => 200,
+        headers: () => ({ 'content-type': 'application/vnd.apple.mpegurl' }),
+        text: async () => body,
+      }),
+    );
+  };
+
+  return { page: page as unknown as Page, emitResponse };
+}
+
+describe('AggressiveHLSDetector', () => {
+  it('should count manifests but not segments or unrelated requests', async () => {
+    const { page, emitResponse } = createStubPage();
+    const detector = new AggressiveHLSDetector('test');
+    await detector.setup(page);
+
+    emitResponse('https://cdn.example.com/video/segment-1.ts');
+    emitResponse('https://example.com/app.js');
+    expect(detector.getManifestCount()).toBe(0);
+
+    emitResponse('https://cdn.example.com/video/master.m3u8');
+    emitResponse('https://cdn.example.com/video/master.m3u8');
+    emitResponse('https://cdn.example.com/video/manifest.mpd');
+    expect(detector.getManifestCount()).toBe(2);
+  });
+
+  it('should treat URLs matching the client and profile patterns as manifests', async () => {
+    const { page, emitResponse } = createStubPage();
+    const detector = new AggressiveHLSDetector('test', {
+      m3u8Patterns: ['/stream/\\d+$', '(invalid'],
+      profilePatterns: ['CDN\\.EXAMPLE\\.NET/play'],
+    });
+    await detector.setup(page);
+
+    emitResponse('https://api.example.com/stream/42');
+    emitResponse('https://cdn.example.net/play?id=1');
+
+    expect(detector.getManifestCount()).toBe(2);
+    expect(detector.getResults().allM3u8Urls).toEqual([
+      'https://api.example.com/stream/42',
+      'https://cdn.example.net/play?id=1',
+    ]);
+  });
+
+  it('should keep manifest bodies only with captureBodies', async () => {
+    const url = 'https://cdn.example.com/video/master.m3u8';
+    const withBodies = createStubPage();
+    const detector = new AggressiveHLSDetector('test', { captureBodies: true });
+    await detector.setup(withBodies.page);
+
+    withBodies.emitResponse(url, '#EXTM3U\n#EXT-X-VERSION:3');
+    await detector.waitForPendingBodies(1000);
+    expect(detector.getBody(url)).toBe('#EXTM3U\n#EXT-X-VERSION:3');
+
+    const withoutBodies = createStubPage();
+    const plainDetector = new AggressiveHLSDetector('test');
+    await plainDetector.setup(withoutBodies.page);
+
+    withoutBodies.emitResponse(url);
+    await plainDetector.waitForPendingBodies(1000);
+    expect(plainDetector.getBody(url)).toBeUndefined();
+  });
+});
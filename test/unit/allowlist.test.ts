@@ -0,0 +1,31 @@
+import type { FastifyRequest } from 'fastify';
+import { getTargetUrls } from '../../src/core/security/allowlist';
+
+const createRequest = (method: string, url: string, body?: unknown, query: Record<string, unknown> = {}) =>
+  ({ method, url, body, query }) as FastifyRequest;
+
+describe('getTargetUrls', () => {
+  it('should extract the target of single resolves and playback registrations', () => {
+    const body = { url: 'https://example.com/player' };
+
+    expect(getTargetUrls(createRequest('POST', '/api/v1/resolve', body))).toEqual([body.url]);
+    expect(getTargetUrls(createRequest('POST', '/api/v2/resolve', body))).toEqual([body.url]);
+    expect(getTargetUrls(createRequest('POST', '/api/v1/play', body))).toEqual([body.url]);
+  });
+
+  it('should extract every URL of a bulk request, including entries with options', () => {
+    const body = {
+      urls: ['https://a.example.com/1', { url: 'https://b.example.com/2', options: { mode: 'headless' } }],
+    };
+
+    expect(getTargetUrls(createRequest('POST', '/api/v1/resolve/bulk', body))).toEqual([
+      'https://a.example.com/1',
+      'https://b.example.com/2',
+    ]);
+  });
+
+  it('should not read request bodies of other routes', () => {
+    expect(getTargetUrls(createRequest('POST', '/api/v1/resolve/bulk/batch-1/retry-failed', {}))).toEqual([]);
+    expect(getTargetUrls(createRequest('GET', '/api/v1/resolve/bulk/status/batch-1'))).toEqual([]);
+  });
+});
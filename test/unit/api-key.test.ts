@@ -0,0 +1,53 @@
+import { getRequiredScope, getRequiredScopes, hashApiKey } from '../../src/core/security/api-key';
+import { ApiKeyStore } from '../../src/core/security/api-key.store';
+
+describe('API key scopes', () => {
+  describe('getRequiredScope', () => {
+    it('should map routes to their required scope', () => {
+      expect(getRequiredScope('POST', '/api/v1/resolve')).toBe('resolve');
+      expect(getRequiredScope('POST', '/api/v2/resolve')).toBe('resolve');
+      expect(getRequiredScope('POST', '/api/v1/resolve/bulk')).toBe('bulk');
+      expect(getRequiredScope('GET', '/api/v1/resolve/bulk/status/batch-1')).toBe('bulk');
+      expect(getRequiredScope('POST', '/api/v1/play')).toBe('proxy-playback');
+      expect(getRequiredScope('GET', '/api/v1/admin/keys?limit=10')).toBe('admin');
+    });
+  });
+
+  describe('getRequiredScopes', () => {
+    it('should also require proxy-playback when a resolve asks for playback links', () => {
+      const body = { url: 'https://example.com/player', options: { playbackLink: { ttlSeconds: 60 } } };
+
+      expect(getRequiredScopes('POST', '/api/v1/resolve', body)).toEqual(['resolve', 'proxy-playback']);
+      expect(getRequiredScopes('POST', '/api/v2/resolve', body)).toEqual(['resolve', 'proxy-playback']);
+      expect(getRequiredScopes('POST', '/api/v1/resolve', { url: body.url })).toEqual(['resolve']);
+      expect(getRequiredScopes('POST', '/api/v1/resolve/bulk', body)).toEqual(['bulk']);
+    });
+  });
+
+  describe('ApiKeyStore.hasScope', () => {
+    it('should grant every scope to admin keys', () => {
+      expect(ApiKeyStore.hasScope({ scopes: ['resolve'] }, 'resolve')).toBe(true);
+      expect(ApiKeyStore.hasScope({ scopes: ['resolve'] }, 'bulk')).toBe(false);
+      expect(ApiKeyStore.hasScope({ scopes: ['admin'] }, 'proxy-playback')).toBe(true);
+    });
+  });
+
+  describe('ApiKeyStore.toInfo', () => {
+    it('should never expose the secret hash', () => {
+      const info = ApiKeyStore.toInfo({
+        id: 'k1',
+        name: 'customer',
+        prefix: 'abcd1234',
+        scopes: ['resolve'],
+        dailyQuota: 100,
+        allowedDomains: [],
+        enabled: true,
+        createdAt: new Date().toISOString(),
+        secretHash: hashApiKey('secret'),
+      }, 5);
+
+      expect(info).not.toHaveProperty('secretHash');
+      expect(info.usageToday).toBe(5);
+    });
+  });
+});
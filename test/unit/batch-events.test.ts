@@ -0,0 +1,211 @@
+import { EventEmitter } from 'events';
+import type { BatchStore } from '../../src/core/queue/batch.store';
+import type { QueueService } from '../../src/core/queue/queue.service';
+import type { BatchSummary, BulkJobResult, ResolveResponse } from '../../src/types/dto';
+import { BATCH_CANCELLED_MESSAGE } from '../../src/core/queue/batch.store';
+import { buildBatchJobId } from '../../src/core/queue/bulk-jobs';
+import {
+  BatchEvent,
+  BatchEventStream,
+  JOB_CANCELLED_QUEUE_EVENT,
+  formatSseEvent,
+  parseStreamEventTime,
+} from '../../src/core/queue/batch-events';
+
+const BATCH_ID = 'batch-1';
+const URL_A = 'https://example.com/a';
+const URL_B = 'https://example.com/b';
+
+const LEGACY_RESULT = { streams: [], timestamp: '2024-01-01T00:00:00.000Z' } as unknown as ResolveResponse;
+
+function createSummary(overrides: Partial<BatchSummary> = {}): BatchSummary {
+  return {
+    batchId: BATCH_ID,
+    status: 'PROCESSING',
+    priority: 'normal',
+    total: 2,
+    counts: { waiting: 1, active: 0, completed: 1, failed: 0, cancelled: 0 },
+    progress: 50,
+    createdAt: new Date(Date.now() - 1000).toISOString(),
+    ...overrides,
+  };
+}
+
+/**
+ * Dependencias en memoria: el registro del lote devuelve los resultados
+ * indicados al conectar y los que guarda el worker después (`stored`); los
+ * QueueEvents son un EventEmitter que el test dispara.
+ */
+function createDeps(results: BulkJobResult[], stored: BulkJobResult[] = []) {
+  const queueEvents = Object.assign(new EventEmitter(), {
+    run: jest.fn(() => new Promise<void>(() => undefined)),
+    close: jest.fn(async () => undefined),
+  });
+  const batchStore = {
+    getUrls: async () => [URL_A, URL_B],
+    getResults: async () => ({ total: results.length, results }),
+    getJobResult: jest.fn(async (_batchId: string, url: string) => stored.find(result => result.url === url) ?? null),
+  } as unknown as BatchStore;
+  const queueService = {
+    getLastEventId: async () => '1700000000000-0',
+    createQueueEvents: jest.fn(() => queueEvents),
+  } as unknown as QueueService;
+
+  return { queueEvents, queueService, batchStore, deps: { batchStore, queueService } };
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('BatchEventStream', () => {
+  it('should replay finished jobs and complete a batch that already ended', async () => {
+    const { deps, queueEvents } = createDeps([
+      { url: URL_A, status: 'completed', result: LEGACY_RESULT, finishedAt: '2024-01-01T00:00:01.000Z' },
+      { url: URL_B, status: 'failed', error: 'HLS not found', finishedAt: '2024-01-01T00:00:02.000Z' },
+    ]);
+    const events: BatchEvent[] = [];
+    const end = jest.fn();
+
+    await new BatchEventStream(createSummary({ status: 'COMPLETED', durationMs: 2000 }), deps)
+      .start(undefined, event => events.push(event), end);
+
+    expect(events.map(event => event.event)).toEqual(['job-completed', 'job-failed', 'batch-completed']);
+    expect(events[0].data).toMatchObject({ jobId: buildBatchJobId(BATCH_ID, URL_A), url: URL_A });
+    expect(events[2].data).toEqual({
+      batchId: BATCH_ID,
+      total: 2,
+      completed: 1,
+      failed: 1,
+      cancelled: 0,
+      durationMs: 2000,
+    });
+    // Cada job terminado lleva su propio ID: fin del job y posición de la URL
+    expect(events.map(event => event.id)).toEqual(['1704067201000-0', '1704067202000-1', '1700000000000-0']);
+    expect(queueEvents.run).not.toHaveBeenCalled();
+    expect(end).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stream live events with the stored results without repeating replayed jobs', async () => {
+    const storedB: BulkJobResult = {
+      url: URL_B,
+      status: 'completed',
+      result: LEGACY_RESULT,
+      finishedAt: '2024-01-01T00:00:05.000Z',
+    };
+    const { deps, queueEvents, batchStore } = createDeps(
+      [
+        { url: URL_A, status: 'completed', result: LEGACY_RESULT, finishedAt: '2024-01-01T00:00:01.000Z' },
+        { url: URL_B, status: 'pending' },
+      ],
+      [storedB],
+    );
+    const events: BatchEvent[] = [];
+    const end = jest.fn();
+
+    await new BatchEventStream(createSummary(), deps).start(undefined, event => events.push(event), end);
+
+    const jobA = buildBatchJobId(BATCH_ID, URL_A);
+    const jobB = buildBatchJobId(BATCH_ID, URL_B);
+    queueEvents.emit('completed', { jobId: jobA, returnvalue: {} }, '1700000000001-0');
+    queueEvents.emit('active', { jobId: 'batch-2-other' }, '1700000000002-0');
+    queueEvents.emit('active', { jobId: jobB }, '1700000000003-0');
+    queueEvents.emit('completed', { jobId: jobB, returnvalue: {} }, '1700000000004-0');
+    await flush();
+
+    expect(events.map(event => `${event.event}@${event.id}`)).toEqual([
+      'job-completed@1704067201000-0',
+      'job-active@1700000000003-0',
+      'job-completed@1704067205000-1',
+      'batch-completed@1700000000004-0',
+    ]);
+    expect(events[2].data).toEqual({ jobId: jobB, ...storedB });
+    expect(batchStore.getJobResult).toHaveBeenCalledTimes(1);
+    expect(queueEvents.close).toHaveBeenCalled();
+    expect(end).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report cancelled jobs from the worker and from the API', async () => {
+    const finishedAt = '2024-01-01T00:00:05.000Z';
+    const { deps, queueEvents } = createDeps(
+      [
+        { url: URL_A, status: 'pending' },
+        { url: URL_B, status: 'pending' },
+      ],
+      [
+        { url: URL_A, status: 'cancelled', error: BATCH_CANCELLED_MESSAGE, finishedAt },
+        { url: URL_B, status: 'cancelled', error: BATCH_CANCELLED_MESSAGE, finishedAt },
+      ],
+    );
+    const events: BatchEvent[] = [];
+
+    await new BatchEventStream(createSummary(), deps).start(undefined, event => events.push(event), jest.fn());
+
+    const jobA = buildBatchJobId(BATCH_ID, URL_A);
+    const jobB = buildBatchJobId(BATCH_ID, URL_B);
+    queueEvents.emit(JOB_CANCELLED_QUEUE_EVENT, { jobId: jobA }, '1700000000001-0');
+    queueEvents.emit('failed', { jobId: jobA, failedReason: BATCH_CANCELLED_MESSAGE }, '1700000000002-0');
+    queueEvents.emit('failed', { jobId: jobB, failedReason: BATCH_CANCELLED_MESSAGE }, '1700000000003-0');
+    await flush();
+
+    expect(events.map(event => event.event)).toEqual(['job-cancelled', 'job-cancelled', 'batch-completed']);
+    expect(events[2].data).toMatchObject({ completed: 0, failed: 0, cancelled: 2 });
+  });
+
+  it('should still complete the stream when reading a stored result fails', async () => {
+    const { deps, queueEvents, batchStore } = createDeps([
+      { url: URL_A, status: 'completed', result: LEGACY_RESULT, finishedAt: '2024-01-01T00:00:01.000Z' },
+      { url: URL_B, status: 'pending' },
+    ]);
+    (batchStore.getJobResult as jest.Mock).mockRejectedValue(new Error('Connection is closed.'));
+    const events: BatchEvent[] = [];
+    const end = jest.fn();
+
+    await new BatchEventStream(createSummary(), deps).start(undefined, event => events.push(event), end);
+    queueEvents.emit('completed', { jobId: buildBatchJobId(BATCH_ID, URL_B), returnvalue: {} }, '1700000000004-0');
+    await flush();
+
+    expect(events.map(event => event.event)).toEqual(['job-completed', 'batch-completed']);
+    expect(end).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resume from Last-Event-ID replaying only jobs finished since then', async () => {
+    const { deps, queueService } = createDeps([
+      { url: URL_A, status: 'completed', result: LEGACY_RESULT, finishedAt: '2023-11-14T22:13:19.000Z' },
+      { url: URL_B, status: 'pending' },
+    ]);
+    const events: BatchEvent[] = [];
+
+    await new BatchEventStream(createSummary(), deps).start('1700000000000-5', event => events.push(event), jest.fn());
+
+    expect(queueService.createQueueEvents).toHaveBeenCalledWith('1700000000000-5');
+    expect(events).toEqual([]);
+  });
+
+  it('should resume after a replayed job without repeating it', async () => {
+    const finishedAt = '2024-01-01T00:00:01.000Z';
+    const { deps } = createDeps([
+      { url: URL_A, status: 'completed', result: LEGACY_RESULT, finishedAt },
+      { url: URL_B, status: 'failed', error: 'HLS not found', finishedAt },
+    ]);
+    const events: BatchEvent[] = [];
+
+    await new BatchEventStream(createSummary(), deps).start('1704067201000-0', event => events.push(event), jest.fn());
+
+    expect(events.map(event => `${event.event}@${event.id}`)).toEqual([
+      'job-failed@1704067201000-1',
+      'batch-completed@1704067201000-0',
+    ]);
+  });
+});
+
+describe('batch event helpers', () => {
+  it('should format events as Server-Sent Events', () => {
+    expect(formatSseEvent({ id: '1-0', event: 'job-active', data: { url: URL_A } }))
+      .toBe(`id: 1-0\nevent: job-active\ndata: {"url":"${URL_A}"}\n\n`);
+  });
+
+  it('should only accept stream IDs as Last-Event-ID', () => {
+    expect(parseStreamEventTime('1700000000000-3')).toBe(1700000000000);
+    expect(parseStreamEventTime('abc')).toBeNull();
+    expect(parseStreamEventTime(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,228 @@
+import type { BatchStore } from '../../src/core/queue/batch.store';
+import type { QueueService } from '../../src/core/queue/queue.service';
+import type { WebhookService } from '../../src/core/webhooks/webhook.service';
+import type { BatchSummary, BulkJobResult } from '../../src/types/dto';
+import { BATCH_CANCELLED_MESSAGE } from '../../src/core/queue/batch.store';
+import { BatchOperationError, BatchOperations } from '../../src/core/queue/batch-operations';
+import { JOB_CANCELLED_QUEUE_EVENT } from '../../src/core/queue/batch-events';
+import { buildBatchJobId } from '../../src/core/queue/bulk-jobs';
+
+const BATCH_ID = 'batch-1';
+const URL_A = 'https://example.com/a';
+const URL_B = 'https://example.com/b';
+const URL_C = 'https://example.com/c';
+
+const BATCH_RESULT = {
+  batchFinished: false,
+  completed: 0,
+  failed: 0,
+  cancelled: 1,
+  total: 3,
+  createdAt: 0,
+  hasWebhook: false,
+};
+
+/**
+ * Lote en memoria: `status` es el estado que devuelve el resumen y `jobs`
+ * el estado de BullMQ de cada job que sigue en la cola.
+ */
+function createOperations(
+  status: BatchSummary['status'],
+  results: BulkJobResult[],
+  jobs: Record<string, string> = {},
+) {
+  const queuedJobs = new Map(
+    Object.entries(jobs).map(([url, state]) => [
+      buildBatchJobId(BATCH_ID, url),
+      { getState: jest.fn(async () => state), remove: jest.fn(async () => undefined) },
+    ]),
+  );
+
+  const batchStore = {
+    getSummary: jest.fn(async (batchId: string) =>
+      batchId === BATCH_ID ? ({ batchId, status, priority: 'normal', total: results.length } as BatchSummary) : null,
+    ),
+    getResults: jest.fn(async () => ({ total: results.length, results })),
+    setState: jest.fn(async () => undefined),
+    publishCancellation: jest.fn(async () => undefined),
+    recordJobResult: jest.fn(
+      async (_batchId: string, _url: string, _outcome: unknown): Promise<typeof BATCH_RESULT | null> => BATCH_RESULT,
+    ),
+    getJobOptions: jest.fn(async (_batchId: string, urls: string[]) => urls.map(() => undefined)),
+    setJobOptions: jest.fn(async () => undefined),
+    reopenJobs: jest.fn(async (_batchId: string, urls: string[]) => urls.length),
+  };
+  const queueService = {
+    getJob: jest.fn(async (jobId: string) => queuedJobs.get(jobId) ?? null),
+    addJob: jest.fn(async (_job: { data: { url: string } }) => undefined),
+    publishEvent: jest.fn(async () => undefined),
+  };
+  const webhookService = { notifyIfBatchFinished: jest.fn(async () => undefined) };
+
+  const operations = new BatchOperations(
+    batchStore as unknown as BatchStore,
+    queueService as unknown as QueueService,
+    webhookService as unknown as WebhookService,
+  );
+  return { operations, batchStore, queueService, webhookService, queuedJobs };
+}
+
+const addedUrls = (queueService: ReturnType<typeof createOperations>['queueService']) =>
+  queueService.addJob.mock.calls.map(([job]) => job.data.url);
+
+describe('BatchOperations', () => {
+  describe('cancel', () => {
+    it('should record pending jobs as cancelled, remove queued ones and abort active ones', async () => {
+      const { operations, batchStore, queueService, webhookService, queuedJobs } = createOperations(
+        'PROCESSING',
+        [
+          { url: URL_A, status: 'completed' },
+          { url: URL_B, status: 'pending' },
+          { url: URL_C, status: 'pending' },
+        ],
+        { [URL_B]: 'waiting', [URL_C]: 'active' },
+      );
+
+      const { affectedJobs } = await operations.cancel(BATCH_ID);
+
+      expect(affectedJobs).toBe(2);
+      expect(batchStore.setState).toHaveBeenCalledWith(BATCH_ID, 'cancelled');
+      expect(batchStore.publishCancellation).toHaveBeenCalledWith(BATCH_ID);
+      expect(batchStore.recordJobResult.mock.calls.map(([, url]) => url)).toEqual([URL_B, URL_C]);
+      expect(batchStore.recordJobResult).toHaveBeenCalledWith(BATCH_ID, URL_B, {
+        status: 'cancelled',
+        error: BATCH_CANCELLED_MESSAGE,
+      });
+      // El job activo lo aborta su worker; solo se elimina el que estaba en espera
+      expect(queuedJobs.get(buildBatchJobId(BATCH_ID, URL_B))!.remove).toHaveBeenCalled();
+      expect(queuedJobs.get(buildBatchJobId(BATCH_ID, URL_C))!.remove).not.toHaveBeenCalled();
+      expect(queueService.publishEvent).toHaveBeenCalledWith(JOB_CANCELLED_QUEUE_EVENT, {
+        jobId: buildBatchJobId(BATCH_ID, URL_B),
+      });
+      expect(webhookService.notifyIfBatchFinished).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip jobs whose result was already recorded', async () => {
+      const { operations, batchStore, queueService } = createOperations('PROCESSING', [
+        { url: URL_A, status: 'pending' },
+      ]);
+      batchStore.recordJobResult.mockResolvedValueOnce(null);
+
+      const { affectedJobs } = await operations.cancel(BATCH_ID);
+
+      expect(affectedJobs).toBe(0);
+      expect(queueService.publishEvent).not.toHaveBeenCalled();
+    });
+
+    it('should reject finished and unknown batches', async () => {
+      const { operations } = createOperations('COMPLETED', [{ url: URL_A, status: 'completed' }]);
+
+      await expect(operations.cancel(BATCH_ID)).rejects.toMatchObject({ statusCode: 409 });
+      await expect(operations.cancel('missing')).rejects.toBeInstanceOf(BatchOperationError);
+      await expect(operations.cancel('missing')).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('pause', () => {
+    it('should remove queued jobs and let active ones finish', async () => {
+      const { operations, batchStore, queuedJobs } = createOperations(
+        'PROCESSING',
+        [
+          { url: URL_A, status: 'pending' },
+          { url: URL_B, status: 'pending' },
+        ],
+        { [URL_A]: 'prioritized', [URL_B]: 'active' },
+      );
+
+      const { affectedJobs } = await operations.pause(BATCH_ID);
+
+      expect(affectedJobs).toBe(1);
+      expect(batchStore.setState).toHaveBeenCalledWith(BATCH_ID, 'paused');
+      expect(queuedJobs.get(buildBatchJobId(BATCH_ID, URL_A))!.remove).toHaveBeenCalled();
+      expect(queuedJobs.get(buildBatchJobId(BATCH_ID, URL_B))!.remove).not.toHaveBeenCalled();
+    });
+
+    it('should reject a batch that is already paused', async () => {
+      const { operations } = createOperations('PAUSED', [{ url: URL_A, status: 'pending' }]);
+
+      await expect(operations.pause(BATCH_ID)).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('resume', () => {
+    it('should clear the paused state and re-enqueue only the removed jobs', async () => {
+      const { operations, batchStore, queueService } = createOperations(
+        'PAUSED',
+        [
+          { url: URL_A, status: 'completed' },
+          { url: URL_B, status: 'pending' },
+          { url: URL_C, status: 'pending' },
+        ],
+        { [URL_C]: 'active' },
+      );
+
+      const { affectedJobs } = await operations.resume(BATCH_ID);
+
+      expect(affectedJobs).toBe(1);
+      expect(batchStore.setState).toHaveBeenCalledWith(BATCH_ID, null);
+      expect(addedUrls(queueService)).toEqual([URL_B]);
+    });
+  });
+
+  describe('retryFailed', () => {
+    it('should re-enqueue failed jobs with the merged options', async () => {
+      const { operations, batchStore, queueService, queuedJobs } = createOperations(
+        'COMPLETED',
+        [
+          { url: URL_A, status: 'completed' },
+          { url: URL_B, status: 'failed', options: { navTimeoutMs: 10000, extraHeaders: { Referer: 'https://a.test' } } },
+        ],
+        { [URL_B]: 'failed' },
+      );
+
+      const { affectedJobs } = await operations.retryFailed(BATCH_ID, { extraHeaders: { Cookie: 'a=1' } });
+
+      expect(affectedJobs).toBe(1);
+      expect(queuedJobs.get(buildBatchJobId(BATCH_ID, URL_B))!.remove).toHaveBeenCalled();
+      const specs = [
+        {
+          url: URL_B,
+          options: { navTimeoutMs: 10000, extraHeaders: { Referer: 'https://a.test', Cookie: 'a=1' } },
+        },
+      ];
+      expect(batchStore.setJobOptions).toHaveBeenCalledWith(BATCH_ID, specs);
+      expect(batchStore.reopenJobs).toHaveBeenCalledWith(BATCH_ID, [URL_B]);
+      expect(addedUrls(queueService)).toEqual([URL_B]);
+    });
+
+    it('should clear the state of a batch that finished while paused', async () => {
+      const { operations, batchStore } = createOperations('COMPLETED', [{ url: URL_A, status: 'failed' }]);
+
+      await operations.retryFailed(BATCH_ID);
+
+      expect(batchStore.setState).toHaveBeenCalledWith(BATCH_ID, null);
+      expect(batchStore.setState.mock.invocationCallOrder[0]).toBeLessThan(
+        batchStore.reopenJobs.mock.invocationCallOrder[0]!,
+      );
+    });
+
+    it('should leave a batch without failed jobs untouched', async () => {
+      const { operations, batchStore, queueService } = createOperations('COMPLETED', [
+        { url: URL_A, status: 'completed' },
+      ]);
+
+      const { affectedJobs } = await operations.retryFailed(BATCH_ID);
+
+      expect(affectedJobs).toBe(0);
+      expect(batchStore.setState).not.toHaveBeenCalled();
+      expect(batchStore.reopenJobs).not.toHaveBeenCalled();
+      expect(queueService.addJob).not.toHaveBeenCalled();
+    });
+
+    it('should reject paused batches', async () => {
+      const { operations } = createOperations('PAUSED', [{ url: URL_A, status: 'failed' }]);
+
+      await expect(operations.retryFailed(BATCH_ID)).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+});
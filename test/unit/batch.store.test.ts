@@ -0,0 +1,82 @@
+import { BatchStore } from '../../src/core/queue/batch.store';
+
+const CREATED_AT = Date.UTC(2024, 0, 1, 12, 0, 0);
+
+describe('BatchStore.toSummary', () => {
+  it('should report a batch without started jobs as pending', () => {
+    const summary = BatchStore.toSummary('batch-1', {
+      total: '3',
+      createdAt: String(CREATED_AT),
+      active: '0',
+      completed: '0',
+      failed: '0',
+    });
+
+    expect(summary).toEqual({
+      batchId: 'batch-1',
+      status: 'PENDING',
+      priority: 'normal',
+      total: 3,
+      counts: { waiting: 3, active: 0, completed: 0, failed: 0, cancelled: 0 },
+      progress: 0,
+      createdAt: '2024-01-01T12:00:00.000Z',
+      finishedAt: undefined,
+      durationMs: undefined,
+    });
+  });
+
+  it('should count waiting jobs from the remaining total while processing', () => {
+    const summary = BatchStore.toSummary('batch-1', {
+      total: '4',
+      priority: 'high',
+      createdAt: String(CREATED_AT),
+      active: '1',
+      completed: '1',
+      failed: '0',
+    });
+
+    expect(summary.status).toBe('PROCESSING');
+    expect(summary.priority).toBe('high');
+    expect(summary.counts).toEqual({ waiting: 2, active: 1, completed: 1, failed: 0, cancelled: 0 });
+    expect(summary.progress).toBe(25);
+  });
+
+  it('should report duration once the batch has finished', () => {
+    const summary = BatchStore.toSummary('batch-1', {
+      total: '2',
+      createdAt: String(CREATED_AT),
+      active: '0',
+      completed: '1',
+      failed: '1',
+      finishedAt: String(CREATED_AT + 4500),
+    });
+
+    expect(summary.status).toBe('COMPLETED');
+    expect(summary.progress).toBe(100);
+    expect(summary.finishedAt).toBe('2024-01-01T12:00:04.500Z');
+    expect(summary.durationMs).toBe(4500);
+  });
+
+  it('should report paused and cancelled batches', () => {
+    const fields = {
+      total: '3',
+      createdAt: String(CREATED_AT),
+      active: '0',
+      completed: '1',
+      failed: '0',
+      cancelled: '0',
+    };
+
+    expect(BatchStore.toSummary('batch-1', { ...fields, state: 'paused' }).status).toBe('PAUSED');
+
+    const cancelled = BatchStore.toSummary('batch-1', {
+      ...fields,
+      cancelled: '2',
+      state: 'cancelled',
+      finishedAt: String(CREATED_AT + 1000),
+    });
+    expect(cancelled.status).toBe('CANCELLED');
+    expect(cancelled.counts).toEqual({ waiting: 0, active: 0, completed: 1, failed: 0, cancelled: 2 });
+    expect(cancelled.progress).toBe(100);
+  });
+});
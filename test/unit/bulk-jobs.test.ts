@@ -0,0 +1,73 @@
+import { buildBatchJobId, buildBulkJobSpecs, createBulkJob, mergeBulkJobOptions } from '../../src/core/queue/bulk-jobs';
+import { BulkResolveRequestZod } from '../../src/types/dto';
+
+describe('mergeBulkJobOptions', () => {
+  it('should let URL options override batch defaults and combine extra headers', () => {
+    const merged = mergeBulkJobOptions(
+      { navTimeoutMs: 20000, emulateMobile: true, extraHeaders: { Referer: 'https://a.example', 'X-Token': '1' } },
+      { navTimeoutMs: 45000, mode: 'anti-devtool', extraHeaders: { 'X-Token': '2' } },
+    );
+
+    expect(merged).toEqual({
+      navTimeoutMs: 45000,
+      emulateMobile: true,
+      mode: 'anti-devtool',
+      extraHeaders: { Referer: 'https://a.example', 'X-Token': '2' },
+    });
+  });
+
+  it('should return undefined when neither the batch nor the URL set options', () => {
+    expect(mergeBulkJobOptions(undefined, undefined)).toBeUndefined();
+  });
+});
+
+describe('buildBulkJobSpecs', () => {
+  it('should accept strings and objects and keep the first occurrence of a URL', () => {
+    const specs = buildBulkJobSpecs(
+      [
+        'https://example.com/a',
+        { url: 'https://example.com/b', options: { m3u8Patterns: ['master\\.m3u8'] } },
+        { url: 'https://example.com/a', options: { emulateMobile: true } },
+      ],
+      { maxWaitMs: 8000 },
+    );
+
+    expect(specs).toEqual([
+      { url: 'https://example.com/a', options: { maxWaitMs: 8000 } },
+      { url: 'https://example.com/b', options: { maxWaitMs: 8000, m3u8Patterns: ['master\\.m3u8'] } },
+    ]);
+  });
+
+  it('should validate per-URL options like the resolve options', () => {
+    const schema = BulkResolveRequestZod(10);
+
+    expect(schema.safeParse({
+      urls: ['https://example.com/a', { url: 'https://example.com/b', options: { navTimeoutMs: 5000 } }],
+      defaultOptions: { mode: 'standard' },
+    }).success).toBe(true);
+    expect(schema.safeParse({
+      urls: [{ url: 'https://example.com/a', options: { mode: 'headless' } }],
+    }).success).toBe(false);
+  });
+});
+
+describe('createBulkJob', () => {
+  it('should map the batch priority to BullMQ priorities, lower running first', () => {
+    const spec = { url: 'https://example.com/a' };
+    const high = createBulkJob('batch-1', spec, 'high');
+    const normal = createBulkJob('batch-1', spec, 'normal');
+    const low = createBulkJob('batch-1', spec, 'low');
+
+    expect(high.opts.jobId).toBe(buildBatchJobId('batch-1', spec.url));
+    expect(high.opts.priority).toBeLessThan(normal.opts.priority);
+    expect(normal.opts.priority).toBeLessThan(low.opts.priority);
+  });
+
+  it('should default the request priority to normal', () => {
+    const parsed = BulkResolveRequestZod(10).parse({ urls: ['https://example.com/a'] });
+
+    expect(parsed.priority).toBe('normal');
+    expect(BulkResolveRequestZod(10).safeParse({ urls: ['https://example.com/a'], priority: 'urgent' }).success)
+      .toBe(false);
+  });
+});
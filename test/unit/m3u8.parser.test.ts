@@ -82,6 +82,57 @@ medium.m3u8
       });
     });
 
+    it('should parse renditions and link them to variants', async () => {
+      const masterContent = `#EXTM3U
+#EXT-X-VERSION:6
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",NAME="Español",LANGUAGE="es",DEFAULT=YES,AUTOSELECT=YES,CHANNELS="2",URI="audio/es.m3u8"
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",NAME="English, US",LANGUAGE="en",DEFAULT=NO,AUTOSELECT=YES,URI="audio/en.m3u8"
+#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="English",LANGUAGE="en",FORCED=NO,URI="subs/en.m3u8"
+#EXT-X-MEDIA:TYPE=CLOSED-CAPTIONS,GROUP-ID="cc",NAME="CC1",INSTREAM-ID="CC1"
+#EXT-X-STREAM-INF:BANDWIDTH=1280000,CODECS="avc1.42e01e,mp4a.40.2",AUDIO="aud",SUBTITLES="subs",CLOSED-CAPTIONS="cc"
+low.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=2560000,AUDIO="aud",CLOSED-CAPTIONS=NONE
+high.m3u8`;
+
+      const result = await M3U8Parser.parseManifest(masterContent, 'https://example.com/');
+
+      expect(result.renditions).toHaveLength(4);
+      expect(result.renditions[0]).toEqual({
+        type: 'AUDIO',
+        groupId: 'aud',
+        name: 'Español',
+        language: 'es',
+        uri: 'https://example.com/audio/es.m3u8',
+        default: true,
+        autoselect: true,
+        forced: false,
+        channels: '2',
+      });
+      expect(result.renditions[1]?.name).toBe('English, US');
+      expect(result.renditions[3]).toEqual({
+        type: 'CLOSED-CAPTIONS',
+        groupId: 'cc',
+        name: 'CC1',
+        instreamId: 'CC1',
+        default: false,
+        autoselect: false,
+        forced: false,
+      });
+      expect(result.mediaPlaylists).toEqual([
+        'https://example.com/audio/es.m3u8',
+        'https://example.com/audio/en.m3u8',
+        'https://example.com/subs/en.m3u8',
+      ]);
+      expect(result.variants[0]).toMatchObject({
+        codecs: 'avc1.42e01e,mp4a.40.2',
+        audioGroupId: 'aud',
+        subtitlesGroupId: 'subs',
+        closedCaptionsGroupId: 'cc',
+      });
+      expect(result.variants[1]?.audioGroupId).toBe('aud');
+      expect(result.variants[1]?.closedCaptionsGroupId).toBeUndefined();
+    });
+
     it('should parse live stream correctly', async () => {
       const liveContent = `#EXTM3U
 #EXT-X-VERSION:3
@@ -133,6 +184,96 @@ segment1.ts
     });
   });
 
+  describe('parseMediaPlaylist', () => {
+    it('should parse VOD segments, durations and sequences', () => {
+      const vodContent = `#EXTM3U
+#EXT-X-VERSION:3
+#EXT-X-PLAYLIST-TYPE:VOD
+#EXT-X-TARGETDURATION:10
+#EXT-X-MEDIA-SEQUENCE:5
+#EXTINF:9.5,Intro
+segment5.ts
+#EXTINF:10.0,
+segment6.ts
+#EXTINF:4.25,
+https://cdn.example.com/segment7.ts
+#EXT-X-ENDLIST`;
+
+      const result = M3U8Parser.parseMediaPlaylist(vodContent, 'https://example.com/vod/index.m3u8');
+
+      expect(result.version).toBe(3);
+      expect(result.playlistType).toBe('VOD');
+      expect(result.targetDuration).toBe(10);
+      expect(result.mediaSequence).toBe(5);
+      expect(result.endList).toBe(true);
+      expect(result.segments).toHaveLength(3);
+      expect(result.totalDuration).toBeCloseTo(23.75);
+      expect(result.segments[0]).toEqual({
+        uri: 'https://example.com/vod/segment5.ts',
+        duration: 9.5,
+        title: 'Intro',
+        sequence: 5,
+        discontinuity: false,
+        discontinuitySequence: 0,
+      });
+      expect(result.segments[2]?.uri).toBe('https://cdn.example.com/segment7.ts');
+      expect(result.segments[2]?.sequence).toBe(7);
+    });
+
+    it('should track discontinuities and program date time', () => {
+      const liveContent = `#EXTM3U
+#EXT-X-TARGETDURATION:6
+#EXT-X-MEDIA-SEQUENCE:100
+#EXT-X-DISCONTINUITY-SEQUENCE:2
+#EXT-X-PROGRAM-DATE-TIME:2024-01-01T00:00:00.000Z
+#EXTINF:6.0,
+segment100.ts
+#EXT-X-DISCONTINUITY
+#EXT-X-PROGRAM-DATE-TIME:2024-01-01T00:00:06.000Z
+#EXTINF:6.0,
+ad0.ts`;
+
+      const result = M3U8Parser.parseMediaPlaylist(liveContent, 'https://example.com/live/');
+
+      expect(result.endList).toBe(false);
+      expect(result.discontinuitySequence).toBe(2);
+      expect(result.segments[0]?.discontinuitySequence).toBe(2);
+      expect(result.segments[0]?.programDateTime).toBe('2024-01-01T00:00:00.000Z');
+      expect(result.segments[1]?.discontinuity).toBe(true);
+      expect(result.segments[1]?.discontinuitySequence).toBe(3);
+      expect(result.segments[1]?.sequence).toBe(101);
+      expect(result.totalDuration).toBe(12);
+    });
+
+    it('should parse byte ranges, init sections and keys', () => {
+      const fmp4Content = `#EXTM3U
+#EXT-X-VERSION:7
+#EXT-X-TARGETDURATION:4
+#EXT-X-MAP:URI="init.mp4",BYTERANGE="720@0"
+#EXT-X-KEY:METHOD=AES-128,URI="key.bin"
+#EXTINF:4.0,
+#EXT-X-BYTERANGE:1000@720
+media.mp4
+#EXTINF:4.0,
+#EXT-X-BYTERANGE:2000
+media.mp4
+#EXT-X-ENDLIST`;
+
+      const result = M3U8Parser.parseMediaPlaylist(fmp4Content, 'https://example.com/fmp4/');
+
+      expect(result.segments[0]?.map).toEqual({
+        uri: 'https://example.com/fmp4/init.mp4',
+        byteRange: { length: 720, offset: 0 },
+      });
+      expect(result.segments[0]?.encryption).toEqual({
+        method: 'AES-128',
+        keyUri: 'https://example.com/fmp4/key.bin',
+      });
+      expect(result.segments[0]?.byteRange).toEqual({ length: 1000, offset: 720 });
+      expect(result.segments[1]?.byteRange).toEqual({ length: 2000, offset: 1720 });
+    });
+  });
+
   describe('extractPlaylistUrls', () => {
     it('should extract all playlist URLs from master playlist', () => {
       const masterContent = `#EXTM3U
@@ -0,0 +1,49 @@
+import { ManifestRewriter } from '../../src/core/playback/manifest-rewriter';
+
+describe('ManifestRewriter', () => {
+  const toProxyUrl = (url: string) => `https://proxy.local/p?u=${encodeURIComponent(url)}`;
+
+  describe('rewriteM3U8', () => {
+    it('should rewrite variant and rendition URIs in master playlists', () => {
+      const master = `#EXTM3U
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",NAME="English",URI="audio/en.m3u8"
+#EXT-X-STREAM-INF:BANDWIDTH=1280000,AUDIO="aud"
+low/index.m3u8`;
+
+      const result = ManifestRewriter.rewriteM3U8(master, 'https://cdn.example.com/video/master.m3u8', toProxyUrl);
+      const lines = result.split('\n');
+
+      expect(lines[1]).toContain(`URI="${toProxyUrl('https://cdn.example.com/video/audio/en.m3u8')}"`);
+      expect(lines[1]).toContain('GROUP-ID="aud"');
+      expect(lines[2]).toBe('#EXT-X-STREAM-INF:BANDWIDTH=1280000,AUDIO="aud"');
+      expect(lines[3]).toBe(toProxyUrl('https://cdn.example.com/video/low/index.m3u8'));
+    });
+
+    it('should rewrite keys, init sections and segments in media playlists', () => {
+      const media = `#EXTM3U
+#EXT-X-TARGETDURATION:6
+#EXT-X-KEY:METHOD=AES-128,URI="https://keys.example.com/k1",IV=0x1234
+#EXT-X-MAP:URI="init.mp4"
+#EXTINF:6.0,
+seg1.m4s
+#EXT-X-ENDLIST`;
+
+      const result = ManifestRewriter.rewriteM3U8(media, 'https://cdn.example.com/v/index.m3u8', toProxyUrl);
+      const lines = result.split('\n');
+
+      expect(lines[2]).toBe(`#EXT-X-KEY:METHOD=AES-128,URI="${toProxyUrl('https://keys.example.com/k1')}",IV=0x1234`);
+      expect(lines[3]).toBe(`#EXT-X-MAP:URI="${toProxyUrl('https://cdn.example.com/v/init.mp4')}"`);
+      expect(lines[5]).toBe(toProxyUrl('https://cdn.example.com/v/seg1.m4s'));
+      expect(lines[6]).toBe('#EXT-X-ENDLIST');
+    });
+
+    it('should leave non-HTTP key URIs untouched', () => {
+      const media = `#EXTM3U
+#EXT-X-KEY:METHOD=SAMPLE-AES,URI="skd://key-id",KEYFORMAT="com.apple.streamingkeydelivery"`;
+
+      const result = ManifestRewriter.rewriteM3U8(media, 'https://cdn.example.com/v/index.m3u8', toProxyUrl);
+
+      expect(result).toBe(media);
+    });
+  });
+});
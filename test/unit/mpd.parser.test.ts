@@ -0,0 +1,148 @@
+import { MPDParser } from '../../src/core/resolver/parsers/mpd.parser';
+
+describe('MPDParser', () => {
+  const vodManifest = `<?xml version="1.0" encoding="UTF-8"?>
+<MPD xmlns="urn:mpeg:dash:schema:mpd:2011" xmlns:cenc="urn:mpeg:cenc:2013" type="static" mediaPresentationDuration="PT1H2M3.5S" minBufferTime="PT2S">
+  <BaseURL>https://cdn.example.com/video/</BaseURL>
+  <Period id="p0" start="PT0S">
+    <AdaptationSet id="1" mimeType="video/mp4" codecs="avc1.64001f" frameRate="30000/1001">
+      <ContentProtection schemeIdUri="urn:mpeg:dash:mp4protection:2011" value="cenc" cenc:default_KID="9eb4050d-e44b-4802-932e-27d75083e266"/>
+      <ContentProtection schemeIdUri="urn:uuid:EDEF8BA9-79D6-4ACE-A3C8-27DCD51D21ED">
+        <cenc:pssh>AAAANHBzc2gAAAAA</cenc:pssh>
+      </ContentProtection>
+      <Representation id="v1" bandwidth="800000" width="640" height="360"/>
+      <Representation id="v2" bandwidth="2500000" width="1280" height="720" codecs="avc1.640028">
+        <BaseURL>720p/</BaseURL>
+      </Representation>
+    </AdaptationSet>
+    <AdaptationSet id="2" mimeType="audio/mp4" lang="es">
+      <Representation id="a1" bandwidth="128000" codecs="mp4a.40.2" audioSamplingRate="48000"/>
+    </AdaptationSet>
+  </Period>
+</MPD>`;
+
+  describe('isValidMPD', () => {
+    it('should validate MPD content', () => {
+      expect(MPDParser.isValidMPD(vodManifest)).toBe(true);
+    });
+
+    it('should reject M3U8 content', () => {
+      expect(MPDParser.isValidMPD('#EXTM3U\n#EXT-X-VERSION:3')).toBe(false);
+    });
+  });
+
+  describe('parseDuration', () => {
+    it('should convert ISO 8601 durations to seconds', () => {
+      expect(MPDParser.parseDuration('PT1H2M3.5S')).toBe(3723.5);
+      expect(MPDParser.parseDuration('PT30S')).toBe(30);
+      expect(MPDParser.parseDuration('P1DT1M')).toBe(86460);
+    });
+
+    it('should return undefined for invalid durations', () => {
+      expect(MPDParser.parseDuration('1 hour')).toBeUndefined();
+      expect(MPDParser.parseDuration(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('parseManifest', () => {
+    it('should parse periods, adaptation sets and representations', () => {
+      const result = MPDParser.parseManifest(vodManifest, 'https://example.com/manifest.mpd');
+
+      expect(result.isLive).toBe(false);
+      expect(result.mediaPresentationDuration).toBe(3723.5);
+      expect(result.minBufferTime).toBe(2);
+      expect(result.periods).toHaveLength(1);
+
+      const [video, audio] = result.periods[0]!.adaptationSets;
+      expect(video!.contentType).toBe('video');
+      expect(video!.representations).toHaveLength(2);
+      expect(video!.representations[0]).toMatchObject({
+        id: 'v1',
+        bandwidth: 800000,
+        codecs: 'avc1.64001f',
+        mimeType: 'video/mp4',
+        resolution: { width: 640, height: 360 },
+      });
+      expect(video!.representations[0]!.frameRate).toBeCloseTo(29.97, 2);
+      expect(video!.representations[1]!.codecs).toBe('avc1.640028');
+      expect(video!.representations[1]!.baseUrl).toBe('https://cdn.example.com/video/720p/');
+
+      expect(audio!.contentType).toBe('audio');
+      expect(audio!.lang).toBe('es');
+      expect(audio!.representations[0]!.audioSamplingRate).toBe(48000);
+    });
+
+    it('should extract content protection information', () => {
+      const result = MPDParser.parseManifest(vodManifest, 'https://example.com/manifest.mpd');
+
+      expect(result.contentProtection).toHaveLength(2);
+      expect(result.contentProtection[0]).toMatchObject({
+        system: 'cenc',
+        value: 'cenc',
+        defaultKid: '9eb4050d-e44b-4802-932e-27d75083e266',
+      });
+      expect(result.contentProtection[1]).toMatchObject({
+        system: 'widevine',
+        pssh: 'AAAANHBzc2gAAAAA',
+      });
+    });
+
+    it('should dedupe content protection repeated in every representation', () => {
+      const manifest = `<MPD xmlns:cenc="urn:mpeg:cenc:2013" type="static">
+  <Period>
+    <AdaptationSet>
+      <ContentProtection schemeIdUri="urn:mpeg:dash:mp4protection:2011" value="cenc"/>
+      <Representation id="v1" mimeType="video/mp4" bandwidth="800000">
+        <ContentProtection schemeIdUri="urn:mpeg:dash:mp4protection:2011" cenc:default_KID="9eb4050d-e44b-4802-932e-27d75083e266"/>
+        <ContentProtection schemeIdUri="urn:uuid:edef8ba9-79d6-4ace-a3c8-27dcd51d21ed"/>
+      </Representation>
+      <Representation id="v2" mimeType="video/mp4" bandwidth="2500000">
+        <ContentProtection schemeIdUri="urn:uuid:edef8ba9-79d6-4ace-a3c8-27dcd51d21ed">
+          <cenc:pssh>AAAANHBzc2gAAAAA</cenc:pssh>
+        </ContentProtection>
+      </Representation>
+    </AdaptationSet>
+  </Period>
+</MPD>`;
+
+      const result = MPDParser.parseManifest(manifest, 'https://example.com/manifest.mpd');
+      const [set] = result.periods[0]!.adaptationSets;
+
+      expect(set!.contentType).toBe('video');
+      expect(set!.contentProtection).toEqual([
+        {
+          schemeIdUri: 'urn:mpeg:dash:mp4protection:2011',
+          system: 'cenc',
+          value: 'cenc',
+          defaultKid: '9eb4050d-e44b-4802-932e-27d75083e266',
+        },
+        {
+          schemeIdUri: 'urn:uuid:edef8ba9-79d6-4ace-a3c8-27dcd51d21ed',
+          system: 'widevine',
+          pssh: 'AAAANHBzc2gAAAAA',
+        },
+      ]);
+      expect(result.contentProtection).toEqual(set!.contentProtection);
+    });
+
+    it('should detect live manifests', () => {
+      const liveManifest = `<MPD type="dynamic" timeShiftBufferDepth="PT5M">
+  <Period id="0">
+    <AdaptationSet contentType="video">
+      <Representation id="1" bandwidth="1000000"/>
+    </AdaptationSet>
+  </Period>
+</MPD>`;
+
+      const result = MPDParser.parseManifest(liveManifest, 'https://example.com/live.mpd');
+
+      expect(result.isLive).toBe(true);
+      expect(result.timeShiftBufferDepth).toBe(300);
+      expect(result.periods[0]!.adaptationSets[0]!.contentType).toBe('video');
+    });
+
+    it('should throw on content without MPD root', () => {
+      expect(() => MPDParser.parseManifest('<html></html>', 'https://example.com/x.mpd')).toThrow();
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { PlaybackLinkSigner, PlaybackLinkError } from '../../src/core/playback/playback-link.signer';
+
+describe('PlaybackLinkSigner', () => {
+  const signer = new PlaybackLinkSigner('test-secret-with-at-least-32-characters');
+  const data = {
+    url: 'https://cdn.example.com/live/master.m3u8?token=abc',
+    pageUrl: 'https://example.com/watch',
+    headers: { Referer: 'https://example.com/' },
+    cookies: [{ name: 'sid', value: '123', domain: 'cdn.example.com' }],
+  };
+
+  const expectLinkError = (fn: () => unknown, statusCode: number, reason: string) => {
+    try {
+      fn();
+      fail('Expected PlaybackLinkError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(PlaybackLinkError);
+      expect((error as PlaybackLinkError).statusCode).toBe(statusCode);
+      expect((error as PlaybackLinkError).reason).toBe(reason);
+    }
+  };
+
+  it('should round-trip signed links without exposing the upstream URL', () => {
+    const { token, expiresAt } = signer.sign(data, { ttlSeconds: 60 });
+
+    expect(PlaybackLinkSigner.isSignedToken(token)).toBe(true);
+    expect(token).not.toContain('cdn.example.com');
+    expect(expiresAt).toBeGreaterThan(Date.now());
+
+    const session = signer.verify(token, '127.0.0.1');
+    expect(session.url).toBe(data.url);
+    expect(session.pageUrl).toBe(data.pageUrl);
+    expect(session.headers).toEqual(data.headers);
+    expect(session.cookies).toEqual(data.cookies);
+  });
+
+  it('should reject tampered links and links signed with another secret', () => {
+    const { token } = signer.sign(data, { ttlSeconds: 60 });
+    const [payload, signature] = token.split('.');
+    const tampered = `${payload.slice(0, -2)}AA.${signature}`;
+
+    expectLinkError(() => signer.verify(tampered, '127.0.0.1'), 403, 'invalid_signature');
+    expectLinkError(() => new PlaybackLinkSigner('another-secret').verify(token, '127.0.0.1'), 403, 'invalid_signature');
+    expectLinkError(() => signer.verify('not-a-signed-token', '127.0.0.1'), 400, 'malformed');
+  });
+
+  it('should reject expired links', () => {
+    jest.useFakeTimers();
+    try {
+      const { token } = signer.sign(data, { ttlSeconds: 60 });
+      jest.advanceTimersByTime(61_000);
+      expectLinkError(() => signer.verify(token, '127.0.0.1'), 410, 'expired');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should enforce client IP binding', () => {
+    const { token } = signer.sign(data, { ttlSeconds: 60, clientIp: '10.0.0.1' });
+
+    expect(signer.verify(token, '10.0.0.1').url).toBe(data.url);
+    expectLinkError(() => signer.verify(token, '10.0.0.2'), 403, 'ip_mismatch');
+  });
+
+  it('should bind proxied resource URLs to the token that served them', () => {
+    const segmentUrl = 'https://cdn.example.com/live/seg1.ts';
+    const signature = signer.signResource('session-token', segmentUrl);
+
+    expect(signer.verifyResource('session-token', segmentUrl, signature)).toBe(true);
+    expect(signer.verifyResource('other-token', segmentUrl, signature)).toBe(false);
+    expect(signer.verifyResource('session-token', 'http://169.254.169.254/latest/meta-data', signature)).toBe(false);
+    expect(signer.verifyResource('session-token', segmentUrl, 'forged')).toBe(false);
+    expect(new PlaybackLinkSigner('another-secret').verifyResource('session-token', segmentUrl, signature)).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { getConfig } from '../../src/config/env';
+import { PlaybackProxyService } from '../../src/core/playback/playback-proxy.service';
+import type { PlaybackSession } from '../../src/core/playback/playback-session.store';
+
+const PLAYLIST = `#EXTM3U
+#EXT-X-STREAM-INF:BANDWIDTH=1280000
+low/index.m3u8`;
+
+describe('PlaybackProxyService', () => {
+  const toProxyUrl = (url: string) => `https://proxy.local/p?u=${encodeURIComponent(url)}`;
+  let server: http.Server;
+  let origin: string;
+
+  beforeAll(async () => {
+    // El upstream de prueba escucha en loopback: se exceptúa antes de crear el SsrfGuard
+    getConfig().SSRF_ALLOWED_CIDRS = '127.0.0.1/32';
+
+    // /watch redirige a la playlist real, servida sin content-type de HLS
+    server = http.createServer((req, res) => {
+      if (req.url === '/watch?id=1') {
+        res.writeHead(302, { location: '/hls/v1/master.m3u8' });
+        res.end();
+        return;
+      }
+      if (req.url === '/hls/v1/master.m3u8') {
+        res.writeHead(200, { 'content-type': 'application/octet-stream' });
+        res.end(PLAYLIST);
+        return;
+      }
+      res.writeHead(404);
+      res.end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should rewrite a redirected playlist against its final URL', async () => {
+    const session: PlaybackSession = {
+      url: `${origin}/watch?id=1`,
+      pageUrl: `${origin}/player`,
+      headers: {},
+      cookies: [],
+      createdAt: Date.now(),
+      expiresAt: Date.now() + 60000,
+    };
+
+    const result = await new PlaybackProxyService().fetch(session, session.url, toProxyUrl);
+
+    expect(result.kind).toBe('manifest');
+    expect(result.kind === 'manifest' && result.body.split('\n')[2]).toBe(
+      toProxyUrl(`${origin}/hls/v1/low/index.m3u8`),
+    );
+  });
+});
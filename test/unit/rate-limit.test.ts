@@ -0,0 +1,132 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type { Redis } from 'ioredis';
+import {
+  SlidingWindowRateLimiter,
+  enforceRateLimit,
+  getClientIdentifier,
+} from '../../src/core/security/rate-limit';
+
+/**
+ * Redis mínimo en memoria que ejecuta la ventana deslizante del limiter:
+ * cada clave guarda los timestamps de sus peticiones.
+ */
+function createStubRedis() {
+  const store = new Map<string, number[]>();
+
+  const redis = {
+    eval: async (_script: string, _keys: number, key: string, ...args: (string | number)[]) => {
+      const [now, windowMs, limit] = args.map(Number) as [number, number, number];
+      const requests = (store.get(key) ?? []).filter(timestamp => timestamp > now - windowMs);
+      let allowed = 0;
+      if (requests.length < limit) {
+        requests.push(now);
+        allowed = 1;
+      }
+      store.set(key, requests);
+      return [allowed, requests.length, requests[0] ?? now];
+    },
+  };
+
+  return { redis: redis as unknown as Redis, store };
+}
+
+function createReply() {
+  const reply = {
+    statusCode: 200,
+    sentHeaders: {} as Record<string, unknown>,
+    body: undefined as unknown,
+    headers(values: Record<string, unknown>) {
+      Object.assign(reply.sentHeaders, values);
+      return reply;
+    },
+    header(name: string, value: unknown) {
+      reply.sentHeaders[name] = value;
+      return reply;
+    },
+    status(code: number) {
+      reply.statusCode = code;
+      return reply;
+    },
+    send(body: unknown) {
+      reply.body = body;
+      return reply;
+    },
+  };
+  return reply;
+}
+
+const createRequest = (overrides: Partial<FastifyRequest> = {}) =>
+  ({ id: 'req-1', ip: '203.0.113.7', url: '/api/v1/resolve', headers: {}, ...overrides }) as FastifyRequest;
+
+describe('SlidingWindowRateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should allow up to the limit and free capacity as the window slides', async () => {
+    const { redis } = createStubRedis();
+    const limiter = new SlidingWindowRateLimiter(redis, 2, 60_000);
+
+    const first = await limiter.consume('ip:203.0.113.7');
+    jest.advanceTimersByTime(30_000);
+    const second = await limiter.consume('ip:203.0.113.7');
+    const third = await limiter.consume('ip:203.0.113.7');
+
+    expect(first).toMatchObject({ allowed: true, limit: 2, remaining: 1 });
+    expect(second).toMatchObject({ allowed: true, remaining: 0 });
+    expect(third).toMatchObject({ allowed: false, remaining: 0 });
+    // La ventana se libera cuando caduca la petición más antigua
+    expect(third.resetAt).toBe(Date.now() - 30_000 + 60_000);
+
+    // Otro cliente tiene su propia ventana
+    expect((await limiter.consume('ip:198.51.100.1')).allowed).toBe(true);
+
+    jest.advanceTimersByTime(30_001);
+    expect((await limiter.consume('ip:203.0.113.7')).allowed).toBe(true);
+  });
+});
+
+describe('getClientIdentifier', () => {
+  it('should use the validated key and ignore unvalidated X-API-Key headers', () => {
+    const apiKey = { id: 'key-1' } as FastifyRequest['apiKey'];
+
+    expect(getClientIdentifier(createRequest({ apiKey }))).toBe('id:key-1');
+    expect(getClientIdentifier(createRequest({ headers: { 'x-api-key': 'random-1' } }))).toBe('ip:203.0.113.7');
+    expect(getClientIdentifier(createRequest({ headers: { 'x-api-key': 'random-2' } }))).toBe('ip:203.0.113.7');
+  });
+});
+
+describe('enforceRateLimit', () => {
+  it('should set rate limit headers and reply 429 with Retry-After once exceeded', async () => {
+    const { redis } = createStubRedis();
+    const limiter = new SlidingWindowRateLimiter(redis, 1, 60_000);
+
+    const allowedReply = createReply();
+    await enforceRateLimit(limiter, createRequest(), allowedReply as unknown as FastifyReply);
+    expect(allowedReply.statusCode).toBe(200);
+    expect(allowedReply.sentHeaders).toMatchObject({ 'X-RateLimit-Limit': 1, 'X-RateLimit-Remaining': 0 });
+    expect(allowedReply.sentHeaders['X-RateLimit-Reset']).toEqual(expect.any(Number));
+
+    const limitedReply = createReply();
+    await enforceRateLimit(limiter, createRequest(), limitedReply as unknown as FastifyReply);
+    expect(limitedReply.statusCode).toBe(429);
+    expect(limitedReply.sentHeaders['Retry-After']).toBeGreaterThanOrEqual(1);
+    expect(limitedReply.body).toMatchObject({ error: 'Too Many Requests', statusCode: 429, requestId: 'req-1' });
+  });
+
+  it('should allow requests without headers when Redis is unavailable', async () => {
+    const redis = { eval: async () => { throw new Error('Connection is closed.'); } } as unknown as Redis;
+    const limiter = new SlidingWindowRateLimiter(redis, 1, 60_000);
+
+    const reply = createReply();
+    await enforceRateLimit(limiter, createRequest(), reply as unknown as FastifyReply);
+
+    expect(reply.statusCode).toBe(200);
+    expect(reply.sentHeaders).toEqual({});
+    expect(reply.body).toBeUndefined();
+  });
+});
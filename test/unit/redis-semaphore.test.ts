@@ -0,0 +1,74 @@
+import type { Redis } from 'ioredis';
+import { RedisSemaphore } from '../../src/core/redis/redis-semaphore';
+
+/**
+ * Redis mínimo en memoria con los comandos que usa RedisSemaphore. Cada
+ * clave es un mapa de token a caducidad; el TTL de la clave se ignora.
+ */
+function createStubRedis() {
+  const store = new Map<string, Map<string, number>>();
+  const leases = (key: string) => store.get(key) ?? store.set(key, new Map()).get(key)!;
+
+  const redis = {
+    eval: async (script: string, _keys: number, key: string, ...args: (string | number)[]) => {
+      const entries = leases(key);
+      if (script.includes('ZCARD')) {
+        const [now, expiresAt, limit, token] = args;
+        entries.forEach((expiry, holder) => expiry <= Number(now) && entries.delete(holder));
+        if (entries.size >= Number(limit)) {
+          return 0;
+        }
+        entries.set(String(token), Number(expiresAt));
+        return 1;
+      }
+      const [expiresAt, token] = args;
+      if (!entries.has(String(token))) {
+        return 0;
+      }
+      entries.set(String(token), Number(expiresAt));
+      return 1;
+    },
+    zrem: async (key: string, token: string) => Number(leases(key).delete(token)),
+  };
+
+  return { redis: redis as unknown as Redis, store };
+}
+
+describe('RedisSemaphore', () => {
+  it('should allow up to the limit per key and free a slot on release', async () => {
+    const { redis } = createStubRedis();
+    const semaphore = new RedisSemaphore(redis, { limit: 2, leaseTtlMs: 30000 });
+
+    const first = await semaphore.tryAcquire('domain:slow.example');
+    const second = await semaphore.tryAcquire('domain:slow.example');
+    expect(first).not.toBeNull();
+    expect(second).not.toBeNull();
+    expect(await semaphore.tryAcquire('domain:slow.example')).toBeNull();
+    // Otros dominios no comparten el límite
+    const other = await semaphore.tryAcquire('domain:fast.example');
+    expect(other).not.toBeNull();
+
+    await first!();
+    const third = await semaphore.tryAcquire('domain:slow.example');
+    expect(third).not.toBeNull();
+
+    await Promise.all([second!(), third!(), other!()]);
+  });
+
+  it('should reclaim leases that were never released once they expire', async () => {
+    const { redis, store } = createStubRedis();
+    const semaphore = new RedisSemaphore(redis, { limit: 1, leaseTtlMs: 30000 });
+
+    const release = await semaphore.tryAcquire('domain:example.com');
+    expect(await semaphore.tryAcquire('domain:example.com')).toBeNull();
+
+    // Simula un worker que murió con la reserva hace más de leaseTtlMs
+    const [token] = [...store.get('semaphore:domain:example.com')!.keys()];
+    store.get('semaphore:domain:example.com')!.set(token, Date.now() - 1);
+
+    const next = await semaphore.tryAcquire('domain:example.com');
+    expect(next).not.toBeNull();
+
+    await Promise.all([release!(), next!()]);
+  });
+});
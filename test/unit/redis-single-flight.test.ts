@@ -0,0 +1,81 @@
+import type { Redis } from 'ioredis';
+import { RedisSingleFlight, SINGLE_FLIGHT_COALESCED_KEY } from '../../src/core/redis/redis-single-flight';
+
+/**
+ * Redis mínimo en memoria con los comandos que usa RedisSingleFlight. Los
+ * TTL se ignoran; los scripts se distinguen por el comando que ejecutan.
+ */
+function createStubRedis() {
+  const store = new Map<string, string>();
+
+  const redis = {
+    get: async (key: string) => store.get(key) ?? null,
+    set: async (key: string, value: string, ...args: unknown[]) => {
+      if (args.includes('NX') && store.has(key)) {
+        return null;
+      }
+      store.set(key, value);
+      return 'OK';
+    },
+    incr: async (key: string) => {
+      const value = Number(store.get(key) ?? 0) + 1;
+      store.set(key, String(value));
+      return value;
+    },
+    eval: async (script: string, _keys: number, key: string, token: string) => {
+      if (store.get(key) !== token) {
+        return 0;
+      }
+      if (script.includes('DEL')) {
+        store.delete(key);
+      }
+      return 1;
+    },
+  };
+
+  return { redis: redis as unknown as Redis, store };
+}
+
+const OPTIONS = { lockTtlMs: 30000, resultTtlMs: 5000, waitTimeoutMs: 2000, pollIntervalMs: 10 };
+
+describe('RedisSingleFlight', () => {
+  it('should run the task once and share its result with concurrent callers', async () => {
+    const { redis, store } = createStubRedis();
+    const workerA = new RedisSingleFlight(redis, OPTIONS);
+    const workerB = new RedisSingleFlight(redis, OPTIONS);
+    const task = jest.fn(async () => {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      return { manifests: ['https://cdn.example.com/master.m3u8'] };
+    });
+
+    const [leader, follower] = await Promise.all([
+      workerA.run('key', task),
+      workerB.run('key', task),
+    ]);
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(leader.coalesced).toBe(false);
+    expect(follower).toEqual({ value: leader.value, coalesced: true });
+    expect(store.get(SINGLE_FLIGHT_COALESCED_KEY)).toBe('1');
+    expect(store.has('singleflight:lock:key')).toBe(false);
+  });
+
+  it('should let a waiting caller run the task when the leader fails', async () => {
+    const { redis } = createStubRedis();
+    const singleFlight = new RedisSingleFlight(redis, OPTIONS);
+    const failing = jest.fn(async () => {
+      await new Promise(resolve => setTimeout(resolve, 30));
+      throw new Error('Navigation timeout');
+    });
+    const succeeding = jest.fn(async () => 'ok');
+
+    const [leader, follower] = await Promise.allSettled([
+      singleFlight.run('key', failing),
+      singleFlight.run('key', succeeding),
+    ]);
+
+    expect(leader.status).toBe('rejected');
+    expect(follower).toEqual({ status: 'fulfilled', value: { value: 'ok', coalesced: false } });
+    expect(succeeding).toHaveBeenCalledTimes(1);
+  });
+});
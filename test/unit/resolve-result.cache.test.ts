@@ -0,0 +1,75 @@
+import { ResolveResultCache } from '../../src/core/cache/resolve-result.cache';
+import { ResolveOptions, ResolveResponse } from '../../src/types/dto';
+
+const NOW = Date.parse('2026-01-15T12:00:00.000Z');
+const LIMITS = { maxTtlMs: 10 * 60 * 1000, defaultTtlMs: 60 * 1000 };
+
+function buildResponse(masterUrls: string[]): ResolveResponse {
+  return {
+    sessionId: 'session-1',
+    pageUrl: 'https://example.com/watch',
+    detectedAt: new Date(NOW).toISOString(),
+    streams: masterUrls.map(masterUrl => ({ type: 'HLS' as const, masterUrl })),
+    requiredHeaders: {},
+    timings: { total: 0, navigation: 0, activation: 0, detection: 0 },
+    clicksPerformed: 0,
+    targetsObserved: 0,
+  };
+}
+
+describe('ResolveResultCache', () => {
+  describe('computeTtl', () => {
+    it('should expire before the earliest signed manifest URL', () => {
+      const expiresSeconds = Math.floor((NOW + 5 * 60 * 1000) / 1000);
+      const response = buildResponse([
+        `https://cdn.example.com/master.m3u8?expires=${expiresSeconds}`,
+        `https://cdn.example.com/backup.m3u8?expires=${expiresSeconds + 600}`,
+      ]);
+
+      expect(ResolveResultCache.computeTtl(response, LIMITS, NOW)).toBe(5 * 60 * 1000 - 30 * 1000);
+    });
+
+    it('should cap the TTL with the configured maximum', () => {
+      const response = buildResponse([`https://cdn.example.com/master.m3u8?e=${Math.floor(NOW / 1000) + 86400}`]);
+      expect(ResolveResultCache.computeTtl(response, LIMITS, NOW)).toBe(LIMITS.maxTtlMs);
+    });
+
+    it('should use the default TTL when the URL has no expiry', () => {
+      const response = buildResponse(['https://cdn.example.com/master.m3u8']);
+      expect(ResolveResultCache.computeTtl(response, LIMITS, NOW)).toBe(LIMITS.defaultTtlMs);
+    });
+
+    it('should not cache expired, empty or disabled results', () => {
+      const expired = buildResponse([`https://cdn.example.com/master.m3u8?exp=${Math.floor(NOW / 1000) + 10}`]);
+      expect(ResolveResultCache.computeTtl(expired, LIMITS, NOW)).toBe(0);
+      expect(ResolveResultCache.computeTtl(buildResponse([]), LIMITS, NOW)).toBe(0);
+      expect(ResolveResultCache.computeTtl(
+        buildResponse(['https://cdn.example.com/master.m3u8']),
+        { ...LIMITS, maxTtlMs: 0 },
+        NOW,
+      )).toBe(0);
+    });
+  });
+
+  describe('buildKey', () => {
+    const options = { cache: 'prefer', emulateMobile: true, extraHeaders: { a: '1', b: '2' } } as ResolveOptions;
+
+    it('should ignore fragments, query order, cache mode and playback links', () => {
+      const key = ResolveResultCache.buildKey('https://example.com/watch?v=1&lang=es#player', options);
+
+      expect(ResolveResultCache.buildKey('https://example.com/watch?lang=es&v=1', {
+        ...options,
+        cache: 'bypass',
+        extraHeaders: { b: '2', a: '1' },
+        playbackLink: { ttlSeconds: 60, bindClientIp: true },
+      } as ResolveOptions)).toBe(key);
+    });
+
+    it('should separate different pages and resolution options', () => {
+      const key = ResolveResultCache.buildKey('https://example.com/watch?v=1', options);
+
+      expect(ResolveResultCache.buildKey('https://example.com/watch?v=2', options)).not.toBe(key);
+      expect(ResolveResultCache.buildKey('https://example.com/watch?v=1', { ...options, emulateMobile: false } as ResolveOptions)).not.toBe(key);
+    });
+  });
+});
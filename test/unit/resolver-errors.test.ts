@@ -0,0 +1,72 @@
+import { SsrfBlockedError } from '../../src/core/security/ssrf-guard';
+import {
+  DomainNotAllowedError,
+  MAX_RESOLVE_ATTEMPTS,
+  NavigationTimeoutError,
+  NoStreamFoundError,
+  PoolExhaustedError,
+  classifyResolverError,
+  resolverBackoffStrategy,
+  upstreamErrorFromResponse,
+} from '../../src/core/resolver/resolver-errors';
+
+const URL = 'https://example.com/player';
+
+function namedError(name: string, message: string): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+describe('classifyResolverError', () => {
+  it('should map Puppeteer, network and SSRF errors to stable codes', () => {
+    expect(classifyResolverError(namedError('TimeoutError', 'Navigation timeout of 30000 ms exceeded'), URL)?.code)
+      .toBe('NAVIGATION_TIMEOUT');
+    expect(classifyResolverError(new Error(`net::ERR_NAME_NOT_RESOLVED at ${URL}`), URL)?.code).toBe('DNS_FAILURE');
+    expect(classifyResolverError(new SsrfBlockedError(URL, '127.0.0.1'), URL)?.code).toBe('DOMAIN_NOT_ALLOWED');
+  });
+
+  it('should keep typed errors and leave unknown errors unclassified', () => {
+    const typed = new PoolExhaustedError('Browser pool is shutting down');
+
+    expect(classifyResolverError(typed, URL)).toBe(typed);
+    expect(classifyResolverError(new Error('Something else'), URL)).toBeNull();
+    expect(classifyResolverError('not an error', URL)).toBeNull();
+  });
+
+  it('should expose the HTTP status of each code', () => {
+    expect(new NavigationTimeoutError(URL).statusCode).toBe(504);
+    expect(new NoStreamFoundError(URL).statusCode).toBe(404);
+    expect(new DomainNotAllowedError(URL).statusCode).toBe(403);
+    expect(new PoolExhaustedError('busy').statusCode).toBe(503);
+  });
+});
+
+describe('upstreamErrorFromResponse', () => {
+  it('should tell bot challenges apart from other 4xx responses', () => {
+    expect(upstreamErrorFromResponse(URL, 403, { 'cf-mitigated': 'challenge' }).code).toBe('BLOCKED_BY_CHALLENGE');
+    expect(upstreamErrorFromResponse(URL, 429, {}).code).toBe('BLOCKED_BY_CHALLENGE');
+    expect(upstreamErrorFromResponse(URL, 404, {}).code).toBe('UPSTREAM_4XX');
+  });
+});
+
+describe('resolverBackoffStrategy', () => {
+  it('should not retry errors whose policy allows a single attempt', () => {
+    expect(resolverBackoffStrategy(1, 'resolver', new DomainNotAllowedError(URL))).toBe(-1);
+    expect(resolverBackoffStrategy(1, 'resolver', upstreamErrorFromResponse(URL, 404, {}))).toBe(-1);
+  });
+
+  it('should retry timeouts with exponential backoff up to their attempts', () => {
+    const timeout = new NavigationTimeoutError(URL);
+
+    expect(resolverBackoffStrategy(1, 'resolver', timeout)).toBe(1000);
+    expect(resolverBackoffStrategy(2, 'resolver', timeout)).toBe(2000);
+    expect(resolverBackoffStrategy(3, 'resolver', timeout)).toBe(-1);
+    expect(MAX_RESOLVE_ATTEMPTS).toBe(3);
+  });
+
+  it('should retry unclassified errors once', () => {
+    expect(resolverBackoffStrategy(1, 'resolver', new Error('boom'))).toBe(1000);
+    expect(resolverBackoffStrategy(2, 'resolver', new Error('boom'))).toBe(-1);
+  });
+});
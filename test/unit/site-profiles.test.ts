@@ -0,0 +1,102 @@
+import {
+  matchesHostGlob,
+  parseSiteProfiles,
+  SiteProfileRegistry,
+} from '../../src/config/site-profiles';
+
+describe('Site profiles', () => {
+  describe('matchesHostGlob', () => {
+    it('should match exact hosts case-insensitively', () => {
+      expect(matchesHostGlob('Example.com', 'example.com')).toBe(true);
+      expect(matchesHostGlob('www.example.com', 'example.com')).toBe(false);
+    });
+
+    it('should match subdomains and the bare domain with a leading wildcard', () => {
+      expect(matchesHostGlob('player.example.com', '*.example.com')).toBe(true);
+      expect(matchesHostGlob('a.b.example.com', '*.example.com')).toBe(true);
+      expect(matchesHostGlob('example.com', '*.example.com')).toBe(true);
+      expect(matchesHostGlob('notexample.com', '*.example.com')).toBe(false);
+    });
+
+    it('should treat dots literally and support inner wildcards', () => {
+      expect(matchesHostGlob('cdn-eu.example.net', 'cdn-*.example.net')).toBe(true);
+      expect(matchesHostGlob('examplexcom', 'example.com')).toBe(false);
+    });
+  });
+
+  describe('parseSiteProfiles', () => {
+    it('should accept a valid profiles file', () => {
+      const file = parseSiteProfiles({
+        profiles: [
+          {
+            name: 'voe',
+            hosts: ['*.voe.sx'],
+            mode: 'standard',
+            activationStrategies: ['overlay-close', 'play-elements'],
+            m3u8Patterns: ['delivery\\d+\\.example'],
+            waits: { afterClickMs: 2000 },
+            headers: { Referer: 'https://voe.sx/' },
+            requiresProxy: true,
+          },
+        ],
+      });
+
+      expect(file.profiles).toHaveLength(1);
+      expect(file.profiles[0].waits?.afterClickMs).toBe(2000);
+    });
+
+    it('should default to an empty profile list', () => {
+      expect(parseSiteProfiles(null).profiles).toEqual([]);
+    });
+
+    it('should reject unknown strategies, invalid regexes and unknown keys', () => {
+      expect(() => parseSiteProfiles({
+        profiles: [{ hosts: ['a.com'], activationStrategies: ['double-tap'] }],
+      })).toThrow();
+      expect(() => parseSiteProfiles({
+        profiles: [{ hosts: ['a.com'], m3u8Patterns: ['(unclosed'] }],
+      })).toThrow();
+      expect(() => parseSiteProfiles({
+        profiles: [{ hosts: ['a.com'], waitTime: 100 }],
+      })).toThrow();
+      expect(() => parseSiteProfiles({ profiles: [{ hosts: [] }] })).toThrow();
+    });
+  });
+
+  describe('SiteProfileRegistry', () => {
+    it('should include the built-in anti-devtool profiles', () => {
+      const registry = new SiteProfileRegistry();
+
+      expect(registry.findProfile('https://lamovie.link/embed/1')?.mode).toBe('anti-devtool');
+      expect(registry.findProfile('https://www.vimeos.net/v/1')?.mode).toBe('anti-devtool');
+      expect(registry.findProfile('https://example.com/')).toBeNull();
+    });
+
+    it('should drop the built-in anti-devtool profiles when ANTI_DEVTOOL_DOMAINS is set', () => {
+      const registry = new SiteProfileRegistry(undefined, true);
+
+      expect(registry.findProfile('https://lamovie.link/embed/1')).toBeNull();
+      expect(registry.findProfile('https://www.vimeos.net/v/1')).toBeNull();
+      expect(registry.getDefaults().blockRules).toContain('doubleclick.net');
+    });
+
+    it('should give file profiles precedence over built-in ones', () => {
+      const registry = new SiteProfileRegistry(parseSiteProfiles({
+        profiles: [{ name: 'override', hosts: ['lamovie.link'], mode: 'standard' }],
+      }));
+
+      expect(registry.findProfile('https://lamovie.link/embed/1')?.name).toBe('override');
+      expect(registry.findProfile('https://cdn.lamovie.link/embed/1')?.mode).toBe('anti-devtool');
+    });
+
+    it('should append file defaults to the built-in defaults', () => {
+      const registry = new SiteProfileRegistry(parseSiteProfiles({
+        defaults: { blockRules: ['ads.example.com'], m3u8Patterns: ['my-cdn\\.net'] },
+      }));
+
+      expect(registry.getDefaults().blockRules).toEqual(expect.arrayContaining(['doubleclick.net', 'ads.example.com']));
+      expect(registry.getDefaultStreamPatterns().some(p => p.test('https://edge.orbitcache.com/x'))).toBe(true);
+      expect(registry.getDefaultStreamPatterns().some(p => p.test('https://a.MY-CDN.net/x'))).toBe(true);
+    });
+  });
+});
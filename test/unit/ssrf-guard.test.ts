@@ -0,0 +1,42 @@
+import { SsrfGuard, SsrfBlockedError } from '../../src/core/security/ssrf-guard';
+
+describe('SsrfGuard', () => {
+  const guard = new SsrfGuard(['10.20.0.0/16', 'fd12:3456::/48']);
+
+  describe('isBlockedAddress', () => {
+    it('should block private, loopback, link-local and metadata addresses', () => {
+      expect(guard.isBlockedAddress('127.0.0.1')).toBe(true);
+      expect(guard.isBlockedAddress('10.0.0.5')).toBe(true);
+      expect(guard.isBlockedAddress('172.16.3.4')).toBe(true);
+      expect(guard.isBlockedAddress('192.168.1.1')).toBe(true);
+      expect(guard.isBlockedAddress('169.254.169.254')).toBe(true);
+      expect(guard.isBlockedAddress('100.100.100.200')).toBe(true);
+      expect(guard.isBlockedAddress('::1')).toBe(true);
+      expect(guard.isBlockedAddress('fe80::1')).toBe(true);
+      expect(guard.isBlockedAddress('::ffff:127.0.0.1')).toBe(true);
+    });
+
+    it('should allow public addresses', () => {
+      expect(guard.isBlockedAddress('8.8.8.8')).toBe(false);
+      expect(guard.isBlockedAddress('2606:4700:4700::1111')).toBe(false);
+    });
+
+    it('should honor configured CIDR exceptions', () => {
+      expect(guard.isBlockedAddress('10.20.5.6')).toBe(false);
+      expect(guard.isBlockedAddress('10.21.5.6')).toBe(true);
+      expect(guard.isBlockedAddress('fd12:3456::10')).toBe(false);
+    });
+  });
+
+  describe('assertPublicUrl', () => {
+    it('should reject internal IP literals and non-HTTP schemes', async () => {
+      await expect(guard.assertPublicUrl('http://169.254.169.254/latest/meta-data/')).rejects.toBeInstanceOf(SsrfBlockedError);
+      await expect(guard.assertPublicUrl('http://[::1]:6379/')).rejects.toBeInstanceOf(SsrfBlockedError);
+      await expect(guard.assertPublicUrl('file:///etc/passwd')).rejects.toBeInstanceOf(SsrfBlockedError);
+    });
+
+    it('should accept public IP literals', async () => {
+      await expect(guard.assertPublicUrl('https://8.8.8.8/master.m3u8')).resolves.toBeUndefined();
+    });
+  });
+});
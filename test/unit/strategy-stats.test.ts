@@ -0,0 +1,109 @@
+import {
+  applyOutcome,
+  applyOutcomes,
+  expectedDetectionTime,
+  pruneStaleStats,
+  rankStrategies,
+} from '../../src/core/cache/strategy-stats';
+import type { ActivationStrategyName as StrategyName } from '../../src/core/resolver/resolver.service';
+
+// Valores del enum del resolver; importarlo cargaría todo el pool de navegadores
+const ActivationStrategyName = {
+  FastCenterOnce: 'fast-center-once' as StrategyName,
+  OverlayClose: 'overlay-close' as StrategyName,
+  PlayElements: 'play-elements' as StrategyName,
+  IframeClick: 'iframe-click' as StrategyName,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2026-01-15T12:00:00.000Z');
+
+describe('Strategy stats', () => {
+  describe('applyOutcome', () => {
+    it('should count attempts, successes and detection times', () => {
+      let stats = applyOutcome(undefined, { strategy: ActivationStrategyName.OverlayClose, success: true, timeToDetectionMs: 1200 }, NOW);
+      stats = applyOutcome(stats, { strategy: ActivationStrategyName.OverlayClose, success: false }, NOW);
+      stats = applyOutcome(stats, { strategy: ActivationStrategyName.OverlayClose, success: true, timeToDetectionMs: 800 }, NOW);
+
+      expect(stats.attempts).toBe(3);
+      expect(stats.successes).toBe(2);
+      expect(stats.recentDetectionTimesMs).toEqual([1200, 800]);
+      expect(stats.medianTimeToDetectionMs).toBe(1000);
+      expect(stats.lastSuccessAt).toBe(new Date(NOW).toISOString());
+    });
+
+    it('should halve previous counts after a week', () => {
+      const first = applyOutcome(undefined, { strategy: ActivationStrategyName.PlayElements, success: true, timeToDetectionMs: 500 }, NOW);
+      const second = applyOutcome(first, { strategy: ActivationStrategyName.PlayElements, success: false }, NOW + 7 * DAY_MS);
+
+      expect(second.attempts).toBeCloseTo(1.5);
+      expect(second.successes).toBeCloseTo(0.5);
+      expect(second.lastSuccessAt).toBe(first.lastSuccessAt);
+    });
+
+    it('should keep only the most recent detection samples', () => {
+      let stats = applyOutcome(undefined, { strategy: ActivationStrategyName.IframeClick, success: true, timeToDetectionMs: 0 }, NOW);
+      for (let i = 1; i <= 30; i++) {
+        stats = applyOutcome(stats, { strategy: ActivationStrategyName.IframeClick, success: true, timeToDetectionMs: i }, NOW);
+      }
+
+      expect(stats.recentDetectionTimesMs).toHaveLength(20);
+      expect(stats.recentDetectionTimesMs[19]).toBe(30);
+    });
+  });
+
+  describe('pruneStaleStats', () => {
+    it('should drop strategies without recent attempts', () => {
+      const stats = applyOutcomes(null, [
+        { strategy: ActivationStrategyName.OverlayClose, success: true, timeToDetectionMs: 900 },
+      ], NOW - 40 * DAY_MS);
+      const updated = applyOutcomes(stats, [
+        { strategy: ActivationStrategyName.PlayElements, success: true, timeToDetectionMs: 700 },
+      ], NOW);
+
+      expect(Object.keys(pruneStaleStats(updated, NOW) ?? {})).toEqual([ActivationStrategyName.PlayElements]);
+      expect(pruneStaleStats(stats, NOW)).toBeNull();
+    });
+  });
+
+  describe('rankStrategies', () => {
+    const defaults = [
+      ActivationStrategyName.FastCenterOnce,
+      ActivationStrategyName.OverlayClose,
+      ActivationStrategyName.PlayElements,
+      ActivationStrategyName.IframeClick,
+    ];
+
+    it('should keep the default order without stats', () => {
+      expect(rankStrategies(defaults, null, NOW)).toEqual(defaults);
+    });
+
+    it('should move fast, reliable strategies ahead and failing ones behind', () => {
+      const outcomes = [];
+      for (let i = 0; i < 5; i++) {
+        outcomes.push({ strategy: ActivationStrategyName.FastCenterOnce, success: false });
+        outcomes.push({ strategy: ActivationStrategyName.PlayElements, success: true, timeToDetectionMs: 600 });
+      }
+      const stats = applyOutcomes(null, outcomes, NOW);
+
+      expect(rankStrategies(defaults, stats, NOW)).toEqual([
+        ActivationStrategyName.PlayElements,
+        ActivationStrategyName.OverlayClose,
+        ActivationStrategyName.IframeClick,
+        ActivationStrategyName.FastCenterOnce,
+      ]);
+    });
+
+    it('should let old failures recover as they decay', () => {
+      const outcomes = Array.from({ length: 4 }, () => ({
+        strategy: ActivationStrategyName.FastCenterOnce,
+        success: false,
+      }));
+      const stats = applyOutcomes(null, outcomes, NOW);
+
+      const fresh = expectedDetectionTime(stats[ActivationStrategyName.FastCenterOnce], NOW);
+      const decayed = expectedDetectionTime(stats[ActivationStrategyName.FastCenterOnce], NOW + 21 * DAY_MS);
+      expect(decayed).toBeLessThan(fresh);
+    });
+  });
+});
@@ -9,8 +9,10 @@ import {
   getUrlParams,
   buildUrlWithParams,
   isHLSUrl,
+  isProgressiveUrl,
   getBaseUrl,
   normalizeM3U8Url,
+  extractUrlExpiry,
 } from '../../src/utils/url';
 
 describe('URL Utils', () => {
@@ -29,6 +31,13 @@ describe('URL Utils', () => {
       expect(normalized).not.toContain('other=xyz');
     });
 
+    it('should keep short expiry parameters only on exact matches', () => {
+      const normalized = normalizeUrl('https://example.com/path?e=1758484629&exp=1758484630&ref=abc');
+      expect(normalized).toContain('e=1758484629');
+      expect(normalized).toContain('exp=1758484630');
+      expect(normalized).not.toContain('ref=abc');
+    });
+
     it('should handle malformed URLs gracefully', () => {
       const malformed = 'not-a-url';
       const result = normalizeUrl(malformed);
@@ -217,6 +226,18 @@ describe('URL Utils', () => {
     });
   });
 
+  describe('isProgressiveUrl', () => {
+    it('should identify progressive video URLs', () => {
+      expect(isProgressiveUrl('https://example.com/video.mp4')).toBe(true);
+      expect(isProgressiveUrl('https://example.com/clip.webm?token=abc')).toBe(true);
+    });
+
+    it('should reject manifests and unrelated URLs', () => {
+      expect(isProgressiveUrl('https://example.com/playlist.m3u8')).toBe(false);
+      expect(isProgressiveUrl('https://example.com/mp4/page')).toBe(false);
+    });
+  });
+
   describe('getBaseUrl', () => {
     it('should extract base URL', () => {
       const url = 'https://example.com/path/to/file.m3u8';
@@ -297,3 +318,31 @@ describe('normalizeM3U8Url', () => {
     });
   });
 });
+
+describe('extractUrlExpiry', () => {
+  it('should read expiry params in seconds and milliseconds', () => {
+    expect(extractUrlExpiry('https://cdn.example.com/master.m3u8?expires=1758484629')).toBe(1758484629000);
+    expect(extractUrlExpiry('https://cdn.example.com/master.m3u8?Expires=1758484629')).toBe(1758484629000);
+    expect(extractUrlExpiry('https://cdn.example.com/master.m3u8?e=1758484629000')).toBe(1758484629000);
+  });
+
+  it('should return the earliest expiry when several are present', () => {
+    expect(extractUrlExpiry('https://cdn.example.com/master.m3u8?exp=1758484700&e=1758484629')).toBe(1758484629000);
+  });
+
+  it('should read the exp claim of a JWT token', () => {
+    const payload = Buffer.from(JSON.stringify({ sub: 'video', exp: 1758484629 })).toString('base64url');
+    const url = `https://cdn.example.com/master.m3u8?token=eyJhbGciOiJIUzI1NiJ9.${payload}.signature`;
+    expect(extractUrlExpiry(url)).toBe(1758484629000);
+  });
+
+  it('should read a timestamp embedded in an opaque token', () => {
+    expect(extractUrlExpiry('https://cdn.example.com/master.m3u8?token=a1b2c3-1758484629')).toBe(1758484629000);
+  });
+
+  it('should return null without expiry information', () => {
+    expect(extractUrlExpiry('https://cdn.example.com/master.m3u8?token=abcdef&id=42')).toBeNull();
+    expect(extractUrlExpiry('https://cdn.example.com/master.m3u8?expires=soon')).toBeNull();
+    expect(extractUrlExpiry('not-a-url')).toBeNull();
+  });
+});
@@ -0,0 +1,44 @@
+import crypto from 'crypto';
+import { WebhookService } from '../../src/core/webhooks/webhook.service';
+import { BulkResolveRequestZod } from '../../src/types/dto';
+
+describe('Bulk webhooks', () => {
+  describe('WebhookService.sign', () => {
+    it('should sign the timestamp and body with HMAC-SHA256', () => {
+      const body = JSON.stringify({ id: 'd1', event: 'job.completed', batchId: 'batch-1' });
+      const expected = crypto.createHmac('sha256', 'a-very-long-secret').update(`1758484629.${body}`).digest('hex');
+
+      expect(WebhookService.sign('a-very-long-secret', 1758484629, body)).toBe(`v1=${expected}`);
+    });
+
+    it('should change when the body, timestamp or secret change', () => {
+      const signature = WebhookService.sign('a-very-long-secret', 1758484629, '{}');
+
+      expect(WebhookService.sign('a-very-long-secret', 1758484629, '{"a":1}')).not.toBe(signature);
+      expect(WebhookService.sign('a-very-long-secret', 1758484630, '{}')).not.toBe(signature);
+      expect(WebhookService.sign('another-long-secret', 1758484629, '{}')).not.toBe(signature);
+    });
+  });
+
+  describe('BulkResolveRequestZod', () => {
+    const schema = BulkResolveRequestZod(10);
+
+    it('should accept a callback with its secret', () => {
+      const result = schema.safeParse({
+        urls: ['https://example.com/a'],
+        callbackUrl: 'https://hooks.example.com/resolver',
+        callbackSecret: 'a-very-long-secret',
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should require a secret when a callback is given', () => {
+      const result = schema.safeParse({
+        urls: ['https://example.com/a'],
+        callbackUrl: 'https://hooks.example.com/resolver',
+      });
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].path).toEqual(['callbackSecret']);
+    });
+  });
+});